@@ -0,0 +1,70 @@
+import { GET } from '@/app/api/admin/analytics/route'
+import { getAnalyticsReport } from '@/lib/analytics'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: () => Promise.resolve(body),
+    }),
+  },
+}))
+
+jest.mock('firebase-admin/app', () => ({
+  initializeApp: jest.fn(),
+  getApps: jest.fn(() => []),
+  cert: jest.fn(),
+}))
+
+jest.mock('firebase-admin/firestore', () => ({
+  getFirestore: jest.fn(() => ({})),
+}))
+
+jest.mock('@/lib/analytics', () => ({
+  MAX_ANALYTICS_DAYS: 365,
+  getAnalyticsReport: jest.fn(),
+}))
+
+const createMockRequest = (url: string) => ({ url }) as unknown as Request
+
+describe('/api/admin/analytics', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('returns the report for the last 30 days by default', async () => {
+    const report = { days: [], period: {}, totals: {}, sources: [] }
+    ;(getAnalyticsReport as jest.Mock).mockResolvedValue(report)
+
+    const response = await GET(createMockRequest('http://localhost:3000/api/admin/analytics'))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual(report)
+    expect(getAnalyticsReport).toHaveBeenCalledWith({}, 30)
+  })
+
+  it('uses the requested number of days', async () => {
+    ;(getAnalyticsReport as jest.Mock).mockResolvedValue({})
+
+    await GET(createMockRequest('http://localhost:3000/api/admin/analytics?days=90'))
+
+    expect(getAnalyticsReport).toHaveBeenCalledWith({}, 90)
+  })
+
+  it('rejects ranges over a year', async () => {
+    const response = await GET(createMockRequest('http://localhost:3000/api/admin/analytics?days=400'))
+
+    expect(response.status).toBe(400)
+    expect(getAnalyticsReport).not.toHaveBeenCalled()
+  })
+
+  it('returns 500 when the counters cannot be read', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    ;(getAnalyticsReport as jest.Mock).mockRejectedValue(new Error('unavailable'))
+
+    const response = await GET(createMockRequest('http://localhost:3000/api/admin/analytics'))
+
+    expect(response.status).toBe(500)
+    expect(await response.json()).toEqual({ message: 'Failed to load analytics' })
+  })
+})
@@ -0,0 +1,152 @@
+import { POST } from '@/app/api/admin/auth/login/route'
+import { GET as verifyGET, POST as verifyPOST } from '@/app/api/admin/auth/verify/route'
+import { createAdminLoginToken } from '@/lib/admin-auth'
+import { sendAdminLoginEmail } from '@/lib/email'
+import { getAdminLoginRateLimiter } from '@/lib/rate-limit'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: () => Promise.resolve(body),
+    }),
+    redirect: (url: URL, status = 307) => ({
+      status,
+      headers: new Map([['location', url.toString()]]),
+      cookies: { set: jest.fn() },
+    }),
+  },
+}))
+
+jest.mock('firebase-admin/app', () => ({
+  initializeApp: jest.fn(),
+  getApps: jest.fn(() => []),
+  cert: jest.fn(),
+}))
+
+// Records used sign-in links, for the verify route
+jest.mock('firebase-admin/firestore', () => {
+  const used = new Set<string>()
+  return {
+    getFirestore: jest.fn(() => ({
+      collection: () => ({ doc: (id: string) => ({ id }) }),
+      runTransaction: async (fn: (transaction: unknown) => Promise<unknown>) => fn({
+        get: async (ref: { id: string }) => ({ exists: used.has(ref.id) }),
+        create: (ref: { id: string }) => used.add(ref.id),
+      }),
+    })),
+  }
+})
+
+jest.mock('@/lib/email', () => ({
+  sendAdminLoginEmail: jest.fn(),
+}))
+
+jest.mock('@/lib/rate-limit', () => {
+  const limiter = { consume: jest.fn() }
+  return { getAdminLoginRateLimiter: jest.fn(() => limiter) }
+})
+
+const createMockRequest = (body: unknown) => ({
+  url: 'http://localhost:3000/api/admin/auth/login',
+  json: () => Promise.resolve(body),
+}) as unknown as Request
+
+describe('/api/admin/auth/login', () => {
+  const originalEnv = process.env
+  const limiter = (getAdminLoginRateLimiter as jest.Mock)()
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env = {
+      ...originalEnv,
+      SUBSCRIPTION_TOKEN_SECRET: 'test-secret',
+      NEXT_PUBLIC_SITE_URL: 'https://hoopaudio.com',
+      ADMIN_EMAILS: 'ada@example.com:sender',
+    }
+    limiter.consume.mockResolvedValue({ allowed: true, remaining: 4, retryAfterSeconds: 0 })
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  it('emails a sign-in link to allowlisted addresses', async () => {
+    const response = await POST(createMockRequest({ email: 'ada@example.com', next: '/admin?status=pending' }))
+
+    expect(response.status).toBe(200)
+    expect(sendAdminLoginEmail).toHaveBeenCalledWith({
+      to: 'ada@example.com',
+      loginUrl: expect.stringMatching(/\/api\/admin\/auth\/verify\?token=.+&next=%2Fadmin%3Fstatus%3Dpending$/),
+      expiresInMinutes: 15,
+    })
+  })
+
+  it('answers the same way for other addresses without sending anything', async () => {
+    const allowed = await (await POST(createMockRequest({ email: 'ada@example.com' }))).json()
+    const other = await POST(createMockRequest({ email: 'eve@example.com' }))
+
+    expect(other.status).toBe(200)
+    expect(await other.json()).toEqual(allowed)
+    expect(sendAdminLoginEmail).toHaveBeenCalledTimes(1)
+  })
+
+  it('rate limits sign-in requests per address', async () => {
+    limiter.consume.mockResolvedValue({ allowed: false, remaining: 0, retryAfterSeconds: 60 })
+
+    const response = await POST(createMockRequest({ email: 'Ada@example.com' }))
+
+    expect(response.status).toBe(429)
+    expect(limiter.consume).toHaveBeenCalledWith('ada@example.com')
+    expect(sendAdminLoginEmail).not.toHaveBeenCalled()
+  })
+
+  it('rejects invalid email addresses', async () => {
+    const response = await POST(createMockRequest({ email: 'not-an-email' }))
+
+    expect(response.status).toBe(400)
+  })
+})
+
+describe('/api/admin/auth/verify', () => {
+  const originalEnv = process.env
+
+  const request = (method: string, token: string) => ({
+    url: `http://localhost:3000/api/admin/auth/verify?token=${encodeURIComponent(token)}&next=%2Fadmin%2Fanalytics`,
+    method,
+  }) as unknown as Request
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, SUBSCRIPTION_TOKEN_SECRET: 'test-secret', ADMIN_EMAILS: 'ada@example.com:sender' }
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    jest.restoreAllMocks()
+  })
+
+  it('forwards GET requests to the sign-in button without using the link', async () => {
+    const token = createAdminLoginToken('ada@example.com')
+
+    const response = await verifyGET(request('GET', token))
+
+    const location = new URL(response.headers.get('location')!)
+    expect(location.pathname).toBe('/admin/login/confirm')
+    expect(location.searchParams.get('token')).toBe(token)
+    expect(location.searchParams.get('next')).toBe('/admin/analytics')
+    expect((await verifyPOST(request('POST', token))).headers.get('location')).toBe('http://localhost:3000/admin/analytics')
+  })
+
+  it('signs in once per link', async () => {
+    const token = createAdminLoginToken('ada@example.com')
+
+    const first = await verifyPOST(request('POST', token))
+    const replayed = await verifyPOST(request('POST', token))
+
+    expect(first.status).toBe(303)
+    expect(first.cookies.set).toHaveBeenCalledWith('orbit_admin_session', expect.any(String), expect.objectContaining({ httpOnly: true }))
+    expect(replayed.headers.get('location')).toBe('http://localhost:3000/admin/login?error=invalid-link')
+    expect(replayed.cookies.set).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+// Response and ReadableStream are not available in jsdom
+import { GET } from '@/app/api/admin/subscribers/export/route'
+import { exportSubscribers } from '@/lib/subscriber-export'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: () => Promise.resolve(body),
+    }),
+  },
+}))
+
+jest.mock('firebase-admin/app', () => ({
+  initializeApp: jest.fn(),
+  getApps: jest.fn(() => []),
+  cert: jest.fn(),
+}))
+
+jest.mock('firebase-admin/firestore', () => ({
+  getFirestore: jest.fn(() => ({})),
+}))
+
+jest.mock('@/lib/subscriber-export', () => ({
+  EXPORT_FORMATS: ['csv', 'json'],
+  exportSubscribers: jest.fn(),
+}))
+
+const createMockRequest = (query: string) => ({
+  url: `http://localhost:3000/api/admin/subscribers/export${query}`,
+}) as unknown as Request
+
+describe('/api/admin/subscribers/export', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('streams the export as a download', async () => {
+    ;(exportSubscribers as jest.Mock).mockImplementation(async function* () {
+      yield 'id,email\r\n'
+      yield 'a,ada@example.com\r\n'
+    })
+
+    const response = await GET(createMockRequest('?status=active&since=2026-01-01'))
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toBe('text/csv; charset=utf-8')
+    expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="subscribers-\d{4}-\d{2}-\d{2}\.csv"$/)
+    expect(await response.text()).toBe('id,email\r\na,ada@example.com\r\n')
+    expect(exportSubscribers).toHaveBeenCalledWith({}, {
+      status: 'active',
+      source: undefined,
+      since: new Date('2026-01-01'),
+      until: undefined,
+    }, 'csv')
+  })
+
+  it('rejects unknown formats and invalid dates', async () => {
+    expect((await GET(createMockRequest('?format=xml'))).status).toBe(400)
+    expect((await GET(createMockRequest('?since=yesterday'))).status).toBe(400)
+    expect(exportSubscribers).not.toHaveBeenCalled()
+  })
+})
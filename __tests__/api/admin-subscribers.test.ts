@@ -0,0 +1,74 @@
+import { GET as list } from '@/app/api/admin/subscribers/route'
+import { DELETE } from '@/app/api/admin/subscribers/[id]/route'
+import { POST as resend } from '@/app/api/admin/subscribers/[id]/resend-confirmation/route'
+import { deleteSubscriber, listSubscribers, resendConfirmation } from '@/lib/admin'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: () => Promise.resolve(body),
+    }),
+  },
+}))
+
+jest.mock('firebase-admin/app', () => ({
+  initializeApp: jest.fn(),
+  getApps: jest.fn(() => []),
+  cert: jest.fn(),
+}))
+
+jest.mock('firebase-admin/firestore', () => ({
+  getFirestore: jest.fn(() => ({})),
+}))
+
+jest.mock('@/lib/admin', () => ({
+  listSubscribers: jest.fn(),
+  deleteSubscriber: jest.fn(),
+  resendConfirmation: jest.fn(),
+}))
+
+const createMockRequest = (url: string) => ({ url }) as unknown as Request
+
+const context = (id: string) => ({ params: Promise.resolve({ id }) })
+
+describe('/api/admin/subscribers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('lists subscribers with the filters from the query string', async () => {
+    const result = { subscribers: [], total: 0, page: 2, pageCount: 2 }
+    ;(listSubscribers as jest.Mock).mockResolvedValue(result)
+
+    const response = await list(createMockRequest('http://localhost:3000/api/admin/subscribers?status=pending&search=ada&page=2'))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual(result)
+    expect(listSubscribers).toHaveBeenCalledWith({}, { search: 'ada', status: 'pending', source: undefined, page: 2 })
+  })
+
+  it('rejects unknown statuses', async () => {
+    const response = await list(createMockRequest('http://localhost:3000/api/admin/subscribers?status=deleted'))
+
+    expect(response.status).toBe(400)
+    expect(listSubscribers).not.toHaveBeenCalled()
+  })
+
+  it('returns 404 when deleting an unknown subscriber', async () => {
+    ;(deleteSubscriber as jest.Mock).mockResolvedValue('not-found')
+
+    const response = await DELETE(createMockRequest('http://localhost:3000/api/admin/subscribers/x'), context('x'))
+
+    expect(response.status).toBe(404)
+  })
+
+  it('returns 409 when resending confirmation to a confirmed subscriber', async () => {
+    ;(resendConfirmation as jest.Mock).mockResolvedValue('not-allowed')
+
+    const response = await resend(createMockRequest('http://localhost:3000/api/admin/subscribers/x/resend-confirmation'), context('x'))
+
+    expect(response.status).toBe(409)
+    expect(resendConfirmation).toHaveBeenCalledWith({}, 'x')
+  })
+})
@@ -0,0 +1,104 @@
+import { GET } from '@/app/api/cron/dispatch/route'
+import { dispatchDueCampaigns } from '@/lib/campaigns'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: () => Promise.resolve(body),
+    }),
+  },
+}))
+
+jest.mock('firebase-admin/app', () => ({
+  initializeApp: jest.fn(),
+  getApps: jest.fn(() => []),
+  cert: jest.fn(),
+}))
+
+jest.mock('firebase-admin/firestore', () => ({
+  getFirestore: jest.fn(() => ({})),
+}))
+
+jest.mock('@/lib/campaigns', () => ({
+  dispatchDueCampaigns: jest.fn(),
+}))
+
+jest.mock('@/lib/email', () => ({
+  getBroadcastSender: jest.fn(() => 'sender'),
+}))
+
+const createMockRequest = (authorization?: string) => ({
+  url: 'http://localhost:3000/api/cron/dispatch',
+  headers: new Headers(authorization ? { authorization } : {}),
+}) as unknown as Request
+
+describe('/api/cron/dispatch', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env = { ...originalEnv, CRON_SECRET: 'cron-secret' }
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  it('rejects requests without the shared secret', async () => {
+    const response = await GET(createMockRequest())
+
+    expect(response.status).toBe(401)
+    expect(dispatchDueCampaigns).not.toHaveBeenCalled()
+  })
+
+  it('rejects requests with the wrong secret', async () => {
+    const response = await GET(createMockRequest('Bearer guess'))
+
+    expect(response.status).toBe(401)
+    expect(dispatchDueCampaigns).not.toHaveBeenCalled()
+  })
+
+  it('rejects everything while no secret is configured', async () => {
+    delete process.env.CRON_SECRET
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const response = await GET(createMockRequest('Bearer '))
+
+    expect(response.status).toBe(401)
+    expect(dispatchDueCampaigns).not.toHaveBeenCalled()
+  })
+
+  it('dispatches due campaigns and reports the results', async () => {
+    const results = [{ campaignId: 'may', status: 'sending', sent: 1000, failed: 0, skipped: 2, remaining: 500 }]
+    ;(dispatchDueCampaigns as jest.Mock).mockResolvedValue(results)
+
+    const response = await GET(createMockRequest('Bearer cron-secret'))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ campaigns: results })
+    expect(dispatchDueCampaigns).toHaveBeenCalledWith(expect.anything(), {
+      send: 'sender',
+      maxDeliveries: 1000,
+    })
+  })
+
+  it('honours CRON_DISPATCH_LIMIT', async () => {
+    process.env.CRON_DISPATCH_LIMIT = '250'
+    ;(dispatchDueCampaigns as jest.Mock).mockResolvedValue([])
+
+    await GET(createMockRequest('Bearer cron-secret'))
+
+    expect(dispatchDueCampaigns).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ maxDeliveries: 250 }))
+  })
+
+  it('returns 500 when dispatching fails', async () => {
+    ;(dispatchDueCampaigns as jest.Mock).mockRejectedValue(new Error('Firestore unavailable'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const response = await GET(createMockRequest('Bearer cron-secret'))
+
+    expect(response.status).toBe(500)
+    expect(await response.json()).toEqual({ message: 'Failed to dispatch campaigns' })
+  })
+})
@@ -0,0 +1,83 @@
+import { GET } from '@/app/api/cron/sequences/route'
+import { advanceSequences } from '@/lib/sequences'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: () => Promise.resolve(body),
+    }),
+  },
+}))
+
+jest.mock('firebase-admin/app', () => ({
+  initializeApp: jest.fn(),
+  getApps: jest.fn(() => []),
+  cert: jest.fn(),
+}))
+
+jest.mock('firebase-admin/firestore', () => ({
+  getFirestore: jest.fn(() => ({})),
+}))
+
+jest.mock('@/lib/sequences', () => ({
+  advanceSequences: jest.fn(),
+}))
+
+jest.mock('@/lib/email', () => ({
+  getBroadcastSender: jest.fn(() => 'sender'),
+}))
+
+const createMockRequest = (authorization?: string) => ({
+  url: 'http://localhost:3000/api/cron/sequences',
+  headers: new Headers(authorization ? { authorization } : {}),
+}) as unknown as Request
+
+describe('/api/cron/sequences', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env = { ...originalEnv, CRON_SECRET: 'cron-secret' }
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  it('rejects requests without the shared secret', async () => {
+    const response = await GET(createMockRequest('Bearer guess'))
+
+    expect(response.status).toBe(401)
+    expect(advanceSequences).not.toHaveBeenCalled()
+  })
+
+  it('advances the sequences and reports the results', async () => {
+    const results = [{ sequenceId: 'onboarding', sent: 12, failed: 1 }]
+    ;(advanceSequences as jest.Mock).mockResolvedValue(results)
+
+    const response = await GET(createMockRequest('Bearer cron-secret'))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ sequences: results })
+    expect(advanceSequences).toHaveBeenCalledWith(expect.anything(), { send: 'sender', maxDeliveries: 1000 })
+  })
+
+  it('honours CRON_SEQUENCE_LIMIT', async () => {
+    process.env.CRON_SEQUENCE_LIMIT = '50'
+    ;(advanceSequences as jest.Mock).mockResolvedValue([])
+
+    await GET(createMockRequest('Bearer cron-secret'))
+
+    expect(advanceSequences).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ maxDeliveries: 50 }))
+  })
+
+  it('returns 500 when advancing fails', async () => {
+    ;(advanceSequences as jest.Mock).mockRejectedValue(new Error('Firestore unavailable'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    const response = await GET(createMockRequest('Bearer cron-secret'))
+
+    expect(response.status).toBe(500)
+  })
+})
@@ -0,0 +1,181 @@
+import { POST } from '@/app/api/subscribe/route'
+import { issueFormToken } from '@/lib/bot-defense'
+import { signToken } from '@/lib/tokens'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: () => Promise.resolve(body),
+    }),
+  },
+}))
+
+jest.mock('@/lib/email', () => ({
+  getConfirmUrl: (id: string) => `https://orbit.test/api/subscribe/confirm?token=${id}`,
+  sendConfirmationEmail: jest.fn(() => Promise.resolve({ id: 'email-id' })),
+}))
+
+jest.mock('@/lib/analytics', () => ({
+  recordAnalyticsEvent: jest.fn(),
+}))
+
+jest.mock('firebase-admin/app', () => ({
+  initializeApp: jest.fn(),
+  getApps: jest.fn(() => []),
+  cert: jest.fn(),
+}))
+
+jest.mock('firebase-admin/firestore', () => {
+  const collections: Record<string, { doc: jest.Mock; add: jest.Mock }> = {}
+  const getCollection = (name: string) => {
+    if (!collections[name]) {
+      collections[name] = {
+        doc: jest.fn((id: string) => ({ id })),
+        add: jest.fn(() => Promise.resolve({ id: `${name}-doc-id` })),
+      }
+    }
+    return collections[name]
+  }
+
+  const mockTransaction = {
+    get: jest.fn(() => Promise.resolve({ exists: false })),
+    create: jest.fn(),
+    update: jest.fn(),
+    set: jest.fn(),
+  }
+
+  return {
+    FieldValue: {
+      arrayUnion: jest.fn((...elements: unknown[]) => ({ arrayUnion: elements })),
+    },
+    getFirestore: jest.fn(() => ({
+      collection: jest.fn(getCollection),
+      runTransaction: jest.fn((updateFunction: (transaction: unknown) => unknown) => updateFunction(mockTransaction)),
+      mockTransaction,
+    })),
+  }
+})
+
+const createMockRequest = (body: Record<string, unknown>) => ({
+  url: 'http://localhost:3000/api/subscribe',
+  method: 'POST',
+  headers: {
+    get: (name: string) => ({ 'x-forwarded-for': '198.51.100.4', 'user-agent': 'Bot/1.0' } as Record<string, string>)[name.toLowerCase()] || null,
+  },
+  json: () => Promise.resolve(body),
+}) as unknown as Request
+
+const issueTokenAt = (msAgo: number) => {
+  const dateNowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.now() - msAgo)
+  try {
+    return issueFormToken()
+  } finally {
+    dateNowSpy.mockRestore()
+  }
+}
+
+describe('/api/subscribe - bot defense', () => {
+  let subscriberWrites: jest.Mock
+  let rejections: { add: jest.Mock }
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+
+    const { getFirestore } = await import('firebase-admin/firestore')
+    const db = (getFirestore as jest.Mock)()
+    subscriberWrites = db.mockTransaction.create
+    rejections = db.collection('email_rejections')
+  })
+
+  const expectSilentRejection = async (body: Record<string, unknown>, rejectedReason: string) => {
+    const response = await POST(createMockRequest(body))
+    const data = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(data.message).toBe('Successfully subscribed!')
+    expect(subscriberWrites).not.toHaveBeenCalled()
+    expect(rejections.add).toHaveBeenCalledWith({
+      email: 'bot@example.com',
+      source: 'website',
+      rejectedReason,
+      rejectedAt: expect.any(String),
+      ipAddress: '198.51.100.4',
+      userAgent: 'Bot/1.0',
+    })
+  }
+
+  it('should accept a human submission', async () => {
+    const response = await POST(createMockRequest({
+      email: 'human@example.com',
+      website: '',
+      formToken: issueTokenAt(10_000),
+    }))
+
+    expect(response.status).toBe(201)
+    expect(subscriberWrites).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ email: 'human@example.com' }))
+    expect(rejections.add).not.toHaveBeenCalled()
+  })
+
+  it('should discard submissions that fill in the honeypot', async () => {
+    await expectSilentRejection({
+      email: 'bot@example.com',
+      website: 'https://spam.example',
+      formToken: issueTokenAt(10_000),
+    }, 'honeypot')
+  })
+
+  it('should discard submissions without a form token', async () => {
+    await expectSilentRejection({ email: 'bot@example.com' }, 'missing-form-token')
+  })
+
+  it('should discard submissions with a forged form token', async () => {
+    await expectSilentRejection({ email: 'bot@example.com', formToken: 'forged.token' }, 'invalid-form-token')
+  })
+
+  it('should discard submissions with a token issued for another purpose', async () => {
+    const formToken = signToken('subscriber-1', 'unsubscribe')
+
+    await expectSilentRejection({ email: 'bot@example.com', formToken }, 'invalid-form-token')
+  })
+
+  it('should ask people with an expired form token to refresh the page', async () => {
+    const response = await POST(createMockRequest({
+      email: 'human@example.com',
+      formToken: issueTokenAt(2 * 24 * 60 * 60 * 1000),
+    }))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data).toEqual({ message: expect.stringMatching(/refresh the page/), reason: 'expired-form-token' })
+    expect(subscriberWrites).not.toHaveBeenCalled()
+    expect(rejections.add).not.toHaveBeenCalled()
+  })
+
+  it('should discard submissions that replay a form token too often', async () => {
+    const formToken = issueTokenAt(10_000)
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const response = await POST(createMockRequest({ email: `human${attempt}@example.com`, formToken }))
+      expect(response.status).toBe(201)
+    }
+    subscriberWrites.mockClear()
+
+    await expectSilentRejection({ email: 'bot@example.com', formToken }, 'reused-form-token')
+  })
+
+  it('should discard submissions made too quickly after rendering', async () => {
+    await expectSilentRejection({
+      email: 'bot@example.com',
+      formToken: issueTokenAt(0),
+    }, 'too-fast')
+  })
+
+  it('should still respond successfully if recording the rejection fails', async () => {
+    rejections.add.mockRejectedValueOnce(new Error('Database connection failed'))
+
+    const response = await POST(createMockRequest({ email: 'bot@example.com', website: 'filled' }))
+
+    expect(response.status).toBe(201)
+    expect(subscriberWrites).not.toHaveBeenCalled()
+  })
+})
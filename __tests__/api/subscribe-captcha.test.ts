@@ -0,0 +1,144 @@
+import { POST } from '@/app/api/subscribe/route'
+import { issueFormToken } from '@/lib/bot-defense'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: () => Promise.resolve(body),
+    }),
+  },
+}))
+
+jest.mock('@/lib/email', () => ({
+  getConfirmUrl: (id: string) => `https://orbit.test/api/subscribe/confirm?token=${id}`,
+  sendConfirmationEmail: jest.fn(() => Promise.resolve({ id: 'email-id' })),
+}))
+
+jest.mock('@/lib/analytics', () => ({
+  recordAnalyticsEvent: jest.fn(),
+}))
+
+jest.mock('firebase-admin/app', () => ({
+  initializeApp: jest.fn(),
+  getApps: jest.fn(() => []),
+  cert: jest.fn(),
+}))
+
+jest.mock('firebase-admin/firestore', () => {
+  const mockCollection = {
+    doc: jest.fn((id: string) => ({ id })),
+  }
+
+  const mockTransaction = {
+    get: jest.fn(() => Promise.resolve({ exists: false })),
+    create: jest.fn(),
+    update: jest.fn(),
+    set: jest.fn(),
+  }
+
+  return {
+    FieldValue: {
+      arrayUnion: jest.fn((...elements: unknown[]) => ({ arrayUnion: elements })),
+    },
+    getFirestore: jest.fn(() => ({
+      collection: jest.fn(() => mockCollection),
+      runTransaction: jest.fn((updateFunction: (transaction: unknown) => unknown) => updateFunction(mockTransaction)),
+      mockTransaction,
+    })),
+  }
+})
+
+// A fresh token per submission, since each one may only be used a few times
+const formToken = () => {
+  const dateNowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.now() - 60_000)
+  try {
+    return issueFormToken()
+  } finally {
+    dateNowSpy.mockRestore()
+  }
+}
+
+const createMockRequest = (body: Record<string, unknown>) => ({
+  url: 'http://localhost:3000/api/subscribe',
+  method: 'POST',
+  headers: { get: () => null },
+  json: () => Promise.resolve({ formToken: formToken(), ...body }),
+}) as unknown as Request
+
+describe('/api/subscribe - CAPTCHA', () => {
+  let subscriberWrites: jest.Mock
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+
+    const { getFirestore } = await import('firebase-admin/firestore')
+    subscriberWrites = (getFirestore as jest.Mock)().mockTransaction.create
+  })
+
+  afterEach(() => {
+    delete process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER
+    delete process.env.NEXT_PUBLIC_CAPTCHA_SITE_KEY
+    delete process.env.CAPTCHA_SECRET_KEY
+  })
+
+  it('should skip verification when no provider is configured', async () => {
+    const response = await POST(createMockRequest({ email: 'test@example.com' }))
+
+    expect(response.status).toBe(201)
+    expect(subscriberWrites).toHaveBeenCalled()
+  })
+
+  describe('with a provider configured', () => {
+    beforeEach(() => {
+      process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER = 'fake'
+      process.env.CAPTCHA_SECRET_KEY = 'valid-challenge'
+    })
+
+    it('should accept a valid challenge token', async () => {
+      const response = await POST(createMockRequest({
+        email: 'test@example.com',
+        captchaToken: 'valid-challenge',
+      }))
+
+      expect(response.status).toBe(201)
+      expect(subscriberWrites).toHaveBeenCalled()
+    })
+
+    it('should reject an invalid challenge token', async () => {
+      const response = await POST(createMockRequest({
+        email: 'test@example.com',
+        captchaToken: 'wrong-answer',
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.message).toBe('Challenge verification failed. Please try again.')
+      expect(subscriberWrites).not.toHaveBeenCalled()
+    })
+
+    it('should reject a missing challenge token', async () => {
+      const response = await POST(createMockRequest({ email: 'test@example.com' }))
+
+      expect(response.status).toBe(400)
+      expect(subscriberWrites).not.toHaveBeenCalled()
+    })
+  })
+
+  it('should answer 503 when siteverify is unreachable', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+    global.fetch = jest.fn(() => Promise.reject(new TypeError('fetch failed')))
+    process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER = 'turnstile'
+    process.env.NEXT_PUBLIC_CAPTCHA_SITE_KEY = 'site-key'
+    process.env.CAPTCHA_SECRET_KEY = 'turnstile-secret'
+
+    const response = await POST(createMockRequest({
+      email: 'test@example.com',
+      captchaToken: 'widget-token',
+    }))
+
+    expect(response.status).toBe(503)
+    expect(subscriberWrites).not.toHaveBeenCalled()
+    consoleSpy.mockRestore()
+  })
+})
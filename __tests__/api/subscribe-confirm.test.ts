@@ -0,0 +1,258 @@
+import { GET, POST } from '@/app/api/subscribe/confirm/route'
+import { signToken } from '@/lib/tokens'
+import { recordAnalyticsEvent } from '@/lib/analytics'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    redirect: (url: URL, status = 307) => ({
+      status,
+      headers: { get: (name: string) => (name === 'location' ? url.toString() : null) },
+    }),
+  },
+}))
+
+jest.mock('@/lib/analytics', () => ({
+  recordAnalyticsEvent: jest.fn(),
+}))
+
+jest.mock('firebase-admin/app', () => ({
+  initializeApp: jest.fn(),
+  getApps: jest.fn(() => []),
+  cert: jest.fn(),
+}))
+
+jest.mock('firebase-admin/firestore', () => {
+  const mockDoc = {
+    get: jest.fn(),
+    update: jest.fn(),
+  }
+
+  // Lookup by legacy (pre-migration) document ID
+  const mockLegacyQuery = {
+    where: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    get: jest.fn(() => Promise.resolve({ empty: true, docs: [] })),
+  }
+
+  const mockCollection = {
+    doc: jest.fn(() => mockDoc),
+    where: jest.fn(() => mockLegacyQuery),
+  }
+
+  // Reads go through the document mock; writes are recorded on the transaction
+  const mockTransaction = {
+    get: jest.fn((ref: typeof mockDoc) => ref.get()),
+    update: jest.fn(),
+  }
+
+  return {
+    FieldValue: {
+      arrayUnion: jest.fn((...elements: unknown[]) => ({ arrayUnion: elements })),
+      increment: jest.fn((n: number) => ({ increment: n })),
+    },
+    getFirestore: jest.fn(() => ({
+      collection: jest.fn(() => mockCollection),
+      runTransaction: jest.fn((fn: (tx: typeof mockTransaction) => unknown) => fn(mockTransaction)),
+      mockTransaction,
+    })),
+  }
+})
+
+const createMockRequest = (token?: string) => ({
+  url: token
+    ? `http://localhost:3000/api/subscribe/confirm?token=${encodeURIComponent(token)}`
+    : 'http://localhost:3000/api/subscribe/confirm',
+}) as Request
+
+const redirectStatus = (response: { headers: { get: (name: string) => string | null } }) =>
+  new URL(response.headers.get('location')!).searchParams.get('status')
+
+describe('/api/subscribe/confirm', () => {
+  let mockDoc: { get: jest.Mock; update: jest.Mock }
+  let mockCollection: { doc: jest.Mock }
+  let mockTransaction: { get: jest.Mock; update: jest.Mock }
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+
+    const { getFirestore } = await import('firebase-admin/firestore')
+    const firestore = (getFirestore as jest.Mock)()
+    mockCollection = firestore.collection()
+    mockTransaction = firestore.mockTransaction
+    mockDoc = mockCollection.doc()
+    mockDoc.get.mockReset()
+    mockCollection.doc.mockClear()
+  })
+
+  it('should forward GET requests to the confirmation page without changing anything', async () => {
+    const token = signToken('subscriber-1', 'confirm', 60)
+
+    const response = await GET(createMockRequest(token))
+
+    const location = new URL(response.headers.get('location')!)
+    expect(location.pathname).toBe('/subscribe/confirm')
+    expect(location.searchParams.get('token')).toBe(token)
+    expect(mockDoc.get).not.toHaveBeenCalled()
+    expect(mockTransaction.update).not.toHaveBeenCalled()
+  })
+
+  it('should activate a pending subscriber', async () => {
+    mockDoc.get.mockResolvedValue({
+      exists: true,
+      id: 'subscriber-1',
+      ref: mockDoc,
+      data: () => ({ email: 'test@example.com', status: 'pending' }),
+    })
+
+    const response = await POST(createMockRequest(signToken('subscriber-1', 'confirm', 60)))
+
+    expect(mockCollection.doc).toHaveBeenCalledWith('subscriber-1')
+    expect(mockTransaction.update).toHaveBeenCalledWith(mockDoc, {
+      status: 'active',
+      confirmedAt: expect.any(String),
+      history: { arrayUnion: [{ event: 'confirmed', at: expect.any(String) }] },
+    })
+    expect(recordAnalyticsEvent).toHaveBeenCalledWith(expect.anything(), 'confirmation', { referred: false })
+    expect(response.status).toBe(303)
+    expect(redirectStatus(response)).toBe('confirmed')
+  })
+
+  it('should credit the referrer when a referred subscriber confirms', async () => {
+    mockDoc.get.mockResolvedValue({
+      exists: true,
+      id: 'subscriber-1',
+      ref: mockDoc,
+      data: () => ({ email: 'test@example.com', status: 'pending', referredBy: 'referrer-1' }),
+    })
+
+    const response = await POST(createMockRequest(signToken('subscriber-1', 'confirm', 60)))
+
+    expect(mockCollection.doc).toHaveBeenCalledWith('referrer-1')
+    expect(mockTransaction.update).toHaveBeenCalledWith(mockDoc, {
+      referralCount: { increment: 1 },
+      waitlistScore: { increment: -5 },
+    })
+    expect(mockTransaction.update).toHaveBeenCalledWith(mockDoc, expect.objectContaining({ status: 'active', referralCredited: true }))
+    expect(recordAnalyticsEvent).toHaveBeenCalledWith(expect.anything(), 'confirmation', { referred: true })
+    expect(redirectStatus(response)).toBe('confirmed')
+  })
+
+  it('should only credit a referral once', async () => {
+    mockDoc.get.mockResolvedValue({
+      exists: true,
+      id: 'subscriber-1',
+      ref: mockDoc,
+      data: () => ({ status: 'pending', referredBy: 'referrer-1', referralCredited: true }),
+    })
+
+    await POST(createMockRequest(signToken('subscriber-1', 'confirm', 60)))
+
+    expect(mockCollection.doc).not.toHaveBeenCalledWith('referrer-1')
+    expect(mockTransaction.update).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not credit the referral twice when the link is opened twice at once', async () => {
+    const pending = {
+      exists: true,
+      id: 'subscriber-1',
+      ref: mockDoc,
+      data: () => ({ status: 'pending', referredBy: 'referrer-1' }),
+    }
+    // The second request's transaction sees the first one's write
+    mockDoc.get
+      .mockResolvedValueOnce(pending)
+      .mockResolvedValueOnce({ ...pending, data: () => ({ status: 'active', referredBy: 'referrer-1', referralCredited: true }) })
+
+    const response = await POST(createMockRequest(signToken('subscriber-1', 'confirm', 60)))
+
+    expect(mockTransaction.update).not.toHaveBeenCalled()
+    expect(recordAnalyticsEvent).not.toHaveBeenCalled()
+    expect(redirectStatus(response)).toBe('already-confirmed')
+  })
+
+  it('should skip the credit when the referrer no longer exists', async () => {
+    const pending = {
+      exists: true,
+      id: 'subscriber-1',
+      ref: mockDoc,
+      data: () => ({ status: 'pending', referredBy: 'deleted-referrer' }),
+    }
+    mockDoc.get
+      .mockResolvedValueOnce(pending)
+      .mockResolvedValueOnce(pending)
+      .mockResolvedValueOnce({ exists: false })
+
+    const response = await POST(createMockRequest(signToken('subscriber-1', 'confirm', 60)))
+
+    expect(mockTransaction.update).toHaveBeenCalledTimes(1)
+    expect(mockTransaction.update.mock.calls[0][1]).not.toHaveProperty('referralCredited')
+    expect(recordAnalyticsEvent).toHaveBeenCalledWith(expect.anything(), 'confirmation', { referred: false })
+    expect(redirectStatus(response)).toBe('confirmed')
+  })
+
+  it('should not update subscribers that are already active', async () => {
+    mockDoc.get.mockResolvedValue({
+      exists: true,
+      id: 'subscriber-1',
+      ref: mockDoc,
+      data: () => ({ email: 'test@example.com', status: 'active' }),
+    })
+
+    const response = await POST(createMockRequest(signToken('subscriber-1', 'confirm', 60)))
+
+    expect(mockTransaction.update).not.toHaveBeenCalled()
+    expect(redirectStatus(response)).toBe('already-confirmed')
+  })
+
+  it('should not reactivate unsubscribed subscribers', async () => {
+    mockDoc.get.mockResolvedValue({
+      exists: true,
+      id: 'subscriber-1',
+      ref: mockDoc,
+      data: () => ({ email: 'test@example.com', status: 'unsubscribed' }),
+    })
+
+    const response = await POST(createMockRequest(signToken('subscriber-1', 'confirm', 60)))
+
+    expect(mockTransaction.update).not.toHaveBeenCalled()
+    expect(redirectStatus(response)).toBe('invalid')
+  })
+
+  it('should reject a missing token', async () => {
+    const response = await POST(createMockRequest())
+
+    expect(mockDoc.get).not.toHaveBeenCalled()
+    expect(redirectStatus(response)).toBe('invalid')
+  })
+
+  it('should reject a forged token', async () => {
+    const response = await POST(createMockRequest('eyJzdWIiOiJ4In0.forged'))
+
+    expect(mockDoc.get).not.toHaveBeenCalled()
+    expect(redirectStatus(response)).toBe('invalid')
+  })
+
+  it('should report expired tokens', async () => {
+    const response = await POST(createMockRequest(signToken('subscriber-1', 'confirm', -1)))
+
+    expect(mockDoc.get).not.toHaveBeenCalled()
+    expect(redirectStatus(response)).toBe('expired')
+  })
+
+  it('should reject tokens for unknown subscribers', async () => {
+    mockDoc.get.mockResolvedValueOnce({ exists: false })
+
+    const response = await POST(createMockRequest(signToken('deleted-subscriber', 'confirm', 60)))
+
+    expect(mockDoc.update).not.toHaveBeenCalled()
+    expect(redirectStatus(response)).toBe('invalid')
+  })
+
+  it('should handle database errors gracefully', async () => {
+    mockDoc.get.mockRejectedValueOnce(new Error('Database connection failed'))
+
+    const response = await POST(createMockRequest(signToken('subscriber-1', 'confirm', 60)))
+
+    expect(redirectStatus(response)).toBe('error')
+  })
+})
@@ -1,15 +1,40 @@
 import { POST, GET } from '@/app/api/subscribe/route'
+import { issueFormToken } from '@/lib/bot-defense'
+import { sendConfirmationEmail } from '@/lib/email'
+import { verifyToken } from '@/lib/tokens'
+import { getSubscribeRateLimiter } from '@/lib/rate-limit'
+import { getSubscriberId } from '@/lib/subscribers'
+import { recordAnalyticsEvent } from '@/lib/analytics'
 
 // Mock NextResponse
 jest.mock('next/server', () => ({
   NextResponse: {
     json: (body: any, init?: ResponseInit) => ({
       status: init?.status || 200,
+      headers: new Map(Object.entries(init?.headers || {})),
       json: () => Promise.resolve(body),
     }),
   },
 }))
 
+// Signs a form token as if the page had been rendered a minute ago
+const issueAgedFormToken = () => {
+  const dateNowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.now() - 60_000)
+  try {
+    return issueFormToken()
+  } finally {
+    dateNowSpy.mockRestore()
+  }
+}
+
+// The landing page always sends a form token, so add one unless the test set its own
+const withFormToken = (body: Record<string, unknown>) => {
+  if (!body || typeof body !== 'object' || Array.isArray(body) || 'formToken' in body) {
+    return body
+  }
+  return { ...body, formToken: issueAgedFormToken() }
+}
+
 // Create a helper to create NextRequest-like objects
 const createMockRequest = (url: string, options: any = {}) => {
   const headers = new Map(Object.entries(options.headers || {}))
@@ -19,11 +44,27 @@ const createMockRequest = (url: string, options: any = {}) => {
     headers: {
       get: (name: string) => headers.get(name.toLowerCase()) || null,
     },
-    json: () => Promise.resolve(JSON.parse(options.body || '{}')),
+    json: () => Promise.resolve(withFormToken(JSON.parse(options.body || '{}'))),
   } as any
 }
 
+jest.mock('@/lib/email', () => ({
+  getConfirmUrl: jest.requireActual('@/lib/email').getConfirmUrl,
+  sendConfirmationEmail: jest.fn(() => Promise.resolve({ id: 'email-id' })),
+}))
+
+jest.mock('@/lib/rate-limit', () => {
+  const limiter = {
+    consume: jest.fn(() => Promise.resolve({ allowed: true, remaining: 4, retryAfterSeconds: 0 })),
+  }
+  return { getSubscribeRateLimiter: jest.fn(() => limiter), getFormTokenRateLimiter: jest.fn(() => limiter) }
+})
+
 // Mock firebase-admin
+jest.mock('@/lib/analytics', () => ({
+  recordAnalyticsEvent: jest.fn(),
+}))
+
 jest.mock('firebase-admin/app', () => ({
   initializeApp: jest.fn(),
   getApps: jest.fn(() => []),
@@ -32,20 +73,40 @@ jest.mock('firebase-admin/app', () => ({
 
 jest.mock('firebase-admin/firestore', () => {
   const mockAdd = jest.fn()
-  const mockGet = jest.fn()
-  const mockWhere = jest.fn()
-  const mockLimit = jest.fn()
 
-  const mockCollection = {
+  // Referral code lookups and waitlist position counts
+  const mockQuery = {
     where: jest.fn().mockReturnThis(),
     limit: jest.fn().mockReturnThis(),
-    get: mockGet,
+    get: jest.fn(() => Promise.resolve({ empty: true, docs: [] })),
+    count: jest.fn(() => ({
+      get: jest.fn(() => Promise.resolve({ data: () => ({ count: 41 }) })),
+    })),
+  }
+
+  const mockCollection = {
+    doc: jest.fn((id: string) => ({ id })),
     add: mockAdd,
+    where: jest.fn(() => mockQuery),
+  }
+
+  // Subscribers are read, created and updated inside a transaction
+  const mockTransaction = {
+    get: jest.fn(() => Promise.resolve({ exists: false })),
+    create: jest.fn(),
+    update: jest.fn(),
+    set: jest.fn(),
   }
 
   return {
+    FieldValue: {
+      arrayUnion: jest.fn((...elements: unknown[]) => ({ arrayUnion: elements })),
+    },
     getFirestore: jest.fn(() => ({
       collection: jest.fn(() => mockCollection),
+      runTransaction: jest.fn((fn: (tx: typeof mockTransaction) => unknown) => fn(mockTransaction)),
+      mockTransaction,
+      mockQuery,
     })),
   }
 })
@@ -64,9 +125,8 @@ describe('/api/subscribe', () => {
   describe('POST', () => {
     it('should successfully subscribe a new email', async () => {
       // Mock no existing subscriber
-      const mockCollection = mockFirestore.collection()
-      mockCollection.get.mockResolvedValueOnce({ empty: true })
-      mockCollection.add.mockResolvedValueOnce({ id: 'new-subscriber-id' })
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: false })
 
       const request = createMockRequest('http://localhost:3000/api/subscribe', {
         method: 'POST',
@@ -85,23 +145,54 @@ describe('/api/subscribe', () => {
       expect(response.status).toBe(201)
       expect(data.message).toBe('Successfully subscribed!')
       expect(data.email).toBe('test@example.com')
-      expect(mockCollection.add).toHaveBeenCalledWith(
+      expect(mockTransaction.create).toHaveBeenCalledWith(
+        expect.anything(),
         expect.objectContaining({
           email: 'test@example.com',
           source: 'test',
-          status: 'active',
+          status: 'pending',
           subscribedAt: expect.any(String),
         })
       )
+      expect(recordAnalyticsEvent).toHaveBeenCalledWith(expect.anything(), 'signup', { source: 'test', referred: false })
+    })
+
+    it('should email a signed confirmation link to new subscribers', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: false })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'test@example.com',
+        }),
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(data.status).toBe('pending')
+      expect(sendConfirmationEmail).toHaveBeenCalledWith({
+        to: 'test@example.com',
+        subscriberId: getSubscriberId('test@example.com'),
+        confirmUrl: expect.stringContaining('/api/subscribe/confirm?token='),
+      })
+
+      const { confirmUrl } = (sendConfirmationEmail as jest.Mock).mock.calls[0][0]
+      const token = new URL(confirmUrl).searchParams.get('token')!
+      expect(verifyToken(token, 'confirm')).toEqual({
+        ok: true,
+        payload: expect.objectContaining({ sub: getSubscriberId('test@example.com') }),
+      })
     })
 
     it('should reject duplicate email subscriptions', async () => {
       // Mock existing subscriber
-      const mockCollection = mockFirestore.collection()
-      mockCollection.get.mockResolvedValueOnce({
-        empty: false,
-        docs: [{ id: 'existing-subscriber' }]
-      })
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: true, data: () => ({ status: 'active' }) })
 
       const request = createMockRequest('http://localhost:3000/api/subscribe', {
         method: 'POST',
@@ -118,7 +209,277 @@ describe('/api/subscribe', () => {
 
       expect(response.status).toBe(409)
       expect(data.message).toBe('Email already subscribed')
-      expect(mockCollection.add).not.toHaveBeenCalled()
+      expect(mockTransaction.create).not.toHaveBeenCalled()
+    })
+
+    it('should treat Gmail aliases of an existing subscriber as duplicates', async () => {
+      const mockCollection = mockFirestore.collection()
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: true, data: () => ({ status: 'active' }) })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'beat.maker+second@googlemail.com',
+        }),
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(409)
+      expect(mockCollection.doc).toHaveBeenCalledWith(getSubscriberId('beatmaker@gmail.com'))
+      expect(mockTransaction.create).not.toHaveBeenCalled()
+    })
+
+    it('should resend the confirmation link to pending subscribers', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: true, data: () => ({ status: 'pending' }) })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'pending@example.com',
+        }),
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.status).toBe('pending')
+      expect(data.message).toMatch(/new confirmation link/i)
+      expect(mockTransaction.create).not.toHaveBeenCalled()
+      expect(mockTransaction.update).toHaveBeenCalledWith(expect.anything(), {
+        history: { arrayUnion: [expect.objectContaining({ event: 'confirmation-resent' })] },
+      })
+      expect(sendConfirmationEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'pending@example.com' })
+      )
+      expect(recordAnalyticsEvent).not.toHaveBeenCalled()
+    })
+
+    it('should move unsubscribed addresses back to pending and record the re-subscribe', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({
+        exists: true,
+        data: () => ({ status: 'unsubscribed', unsubscribedAt: '2024-01-01T00:00:00.000Z' }),
+      })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'returning@example.com',
+          source: 'footer',
+        }),
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.status).toBe('pending')
+      expect(data.message).toBe('Welcome back! Check your email to confirm your subscription.')
+      expect(mockTransaction.update).toHaveBeenCalledWith(expect.anything(), {
+        status: 'pending',
+        resubscribedAt: expect.any(String),
+        history: {
+          arrayUnion: [expect.objectContaining({ event: 'resubscribed', source: 'footer', at: expect.any(String) })],
+        },
+      })
+      expect(sendConfirmationEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'returning@example.com' })
+      )
+      expect(recordAnalyticsEvent).toHaveBeenCalledWith(expect.anything(), 'signup', { source: 'footer', referred: false })
+    })
+
+    it('should ask addresses that marked an email as spam to confirm again', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: true, data: () => ({ status: 'complained' }) })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'complained@example.com',
+        }),
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.status).toBe('pending')
+      expect(mockTransaction.update).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ status: 'pending' }))
+      expect(sendConfirmationEmail).toHaveBeenCalled()
+    })
+
+    it('should tell bounced addresses to check their email', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: true, data: () => ({ status: 'bounced' }) })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'bounced@example.com',
+        }),
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(409)
+      expect(data.status).toBe('bounced')
+      expect(data.message).toMatch(/couldn't deliver email/i)
+      expect(mockTransaction.update).not.toHaveBeenCalled()
+      expect(sendConfirmationEmail).not.toHaveBeenCalled()
+    })
+
+    it('should record the signup in the subscriber history', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: false })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'test@example.com',
+          source: 'test',
+        }),
+      })
+
+      await POST(request)
+
+      expect(mockTransaction.create).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          history: [{ event: 'subscribed', at: expect.any(String), source: 'test' }],
+        })
+      )
+    })
+
+    it('should return the waitlist position and share link', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get
+        .mockResolvedValueOnce({ exists: false })
+        .mockResolvedValueOnce({ exists: true, data: () => ({ issued: 99 }) })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'test@example.com',
+        }),
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(data.position).toBe(42)
+      expect(data.referralCode).toMatch(/^[a-z0-9]{8}$/)
+      expect(data.shareLink).toBe(`https://hoopaudio.com/?ref=${data.referralCode}`)
+      expect(mockTransaction.create).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          referralCode: data.referralCode,
+          referralCount: 0,
+          signupNumber: 100,
+          waitlistScore: 100,
+        })
+      )
+      expect(mockTransaction.set).toHaveBeenCalledWith({ id: 'waitlist' }, { issued: 100 }, { merge: true })
+      expect(mockFirestore.collection().where).toHaveBeenCalledWith('status', 'in', ['pending', 'active'])
+      expect(mockFirestore.mockQuery.where).toHaveBeenCalledWith('waitlistScore', '<', 100)
+    })
+
+    it('should record who referred a new subscriber', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: false })
+      mockFirestore.mockQuery.get.mockResolvedValueOnce({ empty: false, docs: [{ id: 'referrer-id' }] })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'friend@example.com',
+          ref: 'abcd2345',
+        }),
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(201)
+      expect(mockFirestore.collection().where).toHaveBeenCalledWith('referralCode', '==', 'abcd2345')
+      expect(mockTransaction.create).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ referredBy: 'referrer-id' })
+      )
+    })
+
+    it('should ignore unknown referral codes', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: false })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'friend@example.com',
+          ref: 'nosuchcode',
+        }),
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(201)
+      expect(mockTransaction.create.mock.calls[0][1]).not.toHaveProperty('referredBy')
+    })
+
+    it('should still succeed when the waitlist position lookup fails', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: false })
+      mockFirestore.mockQuery.count.mockImplementationOnce(() => {
+        throw new Error('Aggregation unavailable')
+      })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'test@example.com',
+        }),
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(data.position).toBeUndefined()
+      expect(data.shareLink).toContain('/?ref=')
     })
 
     it('should validate email format', async () => {
@@ -157,9 +518,8 @@ describe('/api/subscribe', () => {
     })
 
     it('should convert email to lowercase', async () => {
-      const mockCollection = mockFirestore.collection()
-      mockCollection.get.mockResolvedValueOnce({ empty: true })
-      mockCollection.add.mockResolvedValueOnce({ id: 'new-subscriber-id' })
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: false })
 
       const request = createMockRequest('http://localhost:3000/api/subscribe', {
         method: 'POST',
@@ -176,7 +536,8 @@ describe('/api/subscribe', () => {
 
       expect(response.status).toBe(201)
       expect(data.email).toBe('test@example.com')
-      expect(mockCollection.add).toHaveBeenCalledWith(
+      expect(mockTransaction.create).toHaveBeenCalledWith(
+        expect.anything(),
         expect.objectContaining({
           email: 'test@example.com',
         })
@@ -184,9 +545,8 @@ describe('/api/subscribe', () => {
     })
 
     it('should include IP address and user agent', async () => {
-      const mockCollection = mockFirestore.collection()
-      mockCollection.get.mockResolvedValueOnce({ empty: true })
-      mockCollection.add.mockResolvedValueOnce({ id: 'new-subscriber-id' })
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: false })
 
       const request = createMockRequest('http://localhost:3000/api/subscribe', {
         method: 'POST',
@@ -203,7 +563,8 @@ describe('/api/subscribe', () => {
       const response = await POST(request)
       await response.json()
 
-      expect(mockCollection.add).toHaveBeenCalledWith(
+      expect(mockTransaction.create).toHaveBeenCalledWith(
+        expect.anything(),
         expect.objectContaining({
           ipAddress: '192.168.1.1',
           userAgent: 'Mozilla/5.0 Test Browser',
@@ -211,9 +572,177 @@ describe('/api/subscribe', () => {
       )
     })
 
-    it('should handle database errors gracefully', async () => {
+    it('should store signup attribution', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: false })
+      const attribution = {
+        utmSource: 'newsletter',
+        utmCampaign: 'launch',
+        referrer: 'https://news.example.org/post/1',
+        landingPath: '/pricing',
+      }
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'test@example.com',
+          attribution: { ...attribution, unknownField: 'dropped' },
+        }),
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(201)
+      expect(mockTransaction.create).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ attribution })
+      )
+    })
+
+    it('should reject malformed attribution', async () => {
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'test@example.com',
+          attribution: { referrer: 'javascript-not-a-url', landingPath: 'pricing' },
+        }),
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(400)
+      expect(mockFirestore.mockTransaction.create).not.toHaveBeenCalled()
+    })
+
+    it('should derive the document ID from the normalized email', async () => {
       const mockCollection = mockFirestore.collection()
-      mockCollection.get.mockRejectedValueOnce(new Error('Database connection failed'))
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: false })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'Beat.Maker+orbit@gmail.com',
+        }),
+      })
+
+      await POST(request)
+
+      const subscriberId = getSubscriberId('beatmaker@gmail.com')
+      expect(mockCollection.doc).toHaveBeenCalledWith(subscriberId)
+      expect(mockTransaction.create).toHaveBeenCalledWith(
+        { id: subscriberId },
+        expect.objectContaining({
+          email: 'beat.maker+orbit@gmail.com',
+          normalizedEmail: 'beatmaker@gmail.com',
+        })
+      )
+    })
+
+    it('should reject disposable email addresses with 422', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'test@mailinator.com',
+        }),
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(422)
+      expect(data.reason).toBe('disposable-domain')
+      expect(data.message).toMatch(/disposable/i)
+      expect(mockTransaction.create).not.toHaveBeenCalled()
+    })
+
+    it('should accept role accounts and flag them', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: false })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({
+          email: 'admin@example.com',
+        }),
+      })
+
+      const response = await POST(request)
+
+      expect(response.status).toBe(201)
+      expect(mockTransaction.create).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ email: 'admin@example.com', roleAccount: true })
+      )
+    })
+
+    it('should rate limit by client IP', async () => {
+      const limiter = (getSubscribeRateLimiter as jest.Mock)()
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockResolvedValueOnce({ exists: false })
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-forwarded-for': '203.0.113.7, 10.0.0.1',
+        },
+        body: JSON.stringify({
+          email: 'test@example.com',
+        }),
+      })
+
+      await POST(request)
+
+      expect(limiter.consume).toHaveBeenCalledWith('203.0.113.7')
+    })
+
+    it('should return 429 with Retry-After when the rate limit is exceeded', async () => {
+      const limiter = (getSubscribeRateLimiter as jest.Mock)()
+      limiter.consume.mockResolvedValueOnce({ allowed: false, remaining: 0, retryAfterSeconds: 120 })
+      const mockTransaction = mockFirestore.mockTransaction
+
+      const request = createMockRequest('http://localhost:3000/api/subscribe', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-real-ip': '203.0.113.7',
+        },
+        body: JSON.stringify({
+          email: 'test@example.com',
+        }),
+      })
+
+      const response = await POST(request)
+      const data = await response.json()
+
+      expect(response.status).toBe(429)
+      expect(response.headers.get('Retry-After')).toBe('120')
+      expect(data.message).toBe('Too many requests. Please try again later.')
+      expect(mockTransaction.create).not.toHaveBeenCalled()
+      expect(sendConfirmationEmail).not.toHaveBeenCalled()
+    })
+
+    it('should handle database errors gracefully', async () => {
+      const mockTransaction = mockFirestore.mockTransaction
+      mockTransaction.get.mockRejectedValueOnce(new Error('Database connection failed'))
 
       const request = createMockRequest('http://localhost:3000/api/subscribe', {
         method: 'POST',
@@ -0,0 +1,197 @@
+import { GET, POST } from '@/app/api/unsubscribe/route'
+import { signToken } from '@/lib/tokens'
+import { recordAnalyticsEvent } from '@/lib/analytics'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: () => Promise.resolve(body),
+    }),
+    redirect: (url: URL) => ({
+      status: 307,
+      headers: { get: (name: string) => (name === 'location' ? url.toString() : null) },
+    }),
+  },
+}))
+
+jest.mock('@/lib/analytics', () => ({
+  recordAnalyticsEvent: jest.fn(),
+}))
+
+jest.mock('firebase-admin/app', () => ({
+  initializeApp: jest.fn(),
+  getApps: jest.fn(() => []),
+  cert: jest.fn(),
+}))
+
+jest.mock('firebase-admin/firestore', () => {
+  const mockDoc = {
+    get: jest.fn(),
+    update: jest.fn(),
+  }
+
+  // Lookup by legacy (pre-migration) document ID
+  const mockLegacyQuery = {
+    where: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    get: jest.fn(() => Promise.resolve({ empty: true, docs: [] })),
+  }
+
+  const mockCollection = {
+    doc: jest.fn(() => mockDoc),
+    where: jest.fn(() => mockLegacyQuery),
+  }
+
+  return {
+    FieldValue: {
+      arrayUnion: jest.fn((...elements: unknown[]) => ({ arrayUnion: elements })),
+    },
+    getFirestore: jest.fn(() => ({
+      collection: jest.fn(() => mockCollection),
+    })),
+  }
+})
+
+const createMockRequest = (token?: string) => ({
+  url: token
+    ? `http://localhost:3000/api/unsubscribe?token=${encodeURIComponent(token)}`
+    : 'http://localhost:3000/api/unsubscribe',
+}) as Request
+
+describe('/api/unsubscribe', () => {
+  let mockDoc: { get: jest.Mock; update: jest.Mock }
+  let mockCollection: { doc: jest.Mock; where: jest.Mock }
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+
+    const { getFirestore } = await import('firebase-admin/firestore')
+    mockCollection = (getFirestore as jest.Mock)().collection()
+    mockDoc = mockCollection.doc()
+    mockCollection.doc.mockClear()
+  })
+
+  describe('GET', () => {
+    it('should forward to the landing page without changing state', async () => {
+      const token = signToken('subscriber-1', 'unsubscribe')
+
+      const response = await GET(createMockRequest(token))
+      const location = new URL(response.headers.get('location')!)
+
+      expect(location.pathname).toBe('/unsubscribe')
+      expect(location.searchParams.get('token')).toBe(token)
+      expect(mockDoc.get).not.toHaveBeenCalled()
+      expect(mockDoc.update).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('POST', () => {
+    it('should unsubscribe an active subscriber', async () => {
+      mockDoc.get.mockResolvedValueOnce({
+        exists: true,
+        id: 'subscriber-1',
+        ref: mockDoc,
+        data: () => ({ email: 'test@example.com', status: 'active' }),
+      })
+
+      const response = await POST(createMockRequest(signToken('subscriber-1', 'unsubscribe')))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.message).toBe('You have been unsubscribed.')
+      expect(mockCollection.doc).toHaveBeenCalledWith('subscriber-1')
+      expect(mockDoc.update).toHaveBeenCalledWith({
+        status: 'unsubscribed',
+        unsubscribedAt: expect.any(String),
+        history: { arrayUnion: [{ event: 'unsubscribed', at: expect.any(String) }] },
+      })
+      expect(recordAnalyticsEvent).toHaveBeenCalledWith(expect.anything(), 'unsubscribe')
+    })
+
+    it('should be idempotent for subscribers who already unsubscribed', async () => {
+      mockDoc.get.mockResolvedValueOnce({
+        exists: true,
+        id: 'subscriber-1',
+        ref: mockDoc,
+        data: () => ({ email: 'test@example.com', status: 'unsubscribed' }),
+      })
+
+      const response = await POST(createMockRequest(signToken('subscriber-1', 'unsubscribe')))
+
+      expect(response.status).toBe(200)
+      expect(mockDoc.update).not.toHaveBeenCalled()
+      expect(recordAnalyticsEvent).not.toHaveBeenCalled()
+    })
+
+    it.each(['bounced', 'complained'])('should leave %s subscribers as they are', async (status) => {
+      mockDoc.get.mockResolvedValueOnce({
+        exists: true,
+        id: 'subscriber-1',
+        ref: mockDoc,
+        data: () => ({ email: 'test@example.com', status }),
+      })
+
+      const response = await POST(createMockRequest(signToken('subscriber-1', 'unsubscribe')))
+
+      expect(response.status).toBe(200)
+      expect(mockDoc.update).not.toHaveBeenCalled()
+      expect(recordAnalyticsEvent).not.toHaveBeenCalled()
+    })
+
+    it('should reject a missing token', async () => {
+      const response = await POST(createMockRequest())
+
+      expect(response.status).toBe(400)
+      expect(mockDoc.get).not.toHaveBeenCalled()
+    })
+
+    it('should reject tokens issued for another purpose', async () => {
+      const response = await POST(createMockRequest(signToken('subscriber-1', 'confirm', 60)))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.message).toBe('Invalid unsubscribe link')
+      expect(mockDoc.get).not.toHaveBeenCalled()
+    })
+
+    it('should find subscribers by their pre-migration document ID', async () => {
+      const migratedDoc = { update: jest.fn() }
+      mockDoc.get.mockResolvedValueOnce({ exists: false })
+      mockCollection.where().get.mockResolvedValueOnce({
+        empty: false,
+        docs: [{
+          exists: true,
+          id: 'email-hash-id',
+          ref: migratedDoc,
+          data: () => ({ email: 'test@example.com', status: 'active', legacyIds: ['auto-id-1'] }),
+        }],
+      })
+
+      const response = await POST(createMockRequest(signToken('auto-id-1', 'unsubscribe')))
+
+      expect(response.status).toBe(200)
+      expect(mockCollection.where).toHaveBeenCalledWith('legacyIds', 'array-contains', 'auto-id-1')
+      expect(migratedDoc.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'unsubscribed' }))
+    })
+
+    it('should return 404 for unknown subscribers', async () => {
+      mockDoc.get.mockResolvedValueOnce({ exists: false })
+
+      const response = await POST(createMockRequest(signToken('deleted-subscriber', 'unsubscribe')))
+
+      expect(response.status).toBe(404)
+      expect(mockDoc.update).not.toHaveBeenCalled()
+    })
+
+    it('should handle database errors gracefully', async () => {
+      mockDoc.get.mockRejectedValueOnce(new Error('Database connection failed'))
+
+      const response = await POST(createMockRequest(signToken('subscriber-1', 'unsubscribe')))
+      const data = await response.json()
+
+      expect(response.status).toBe(500)
+      expect(data.message).toBe('Failed to unsubscribe. Please try again.')
+    })
+  })
+})
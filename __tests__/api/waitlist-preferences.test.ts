@@ -0,0 +1,134 @@
+import { POST } from '@/app/api/waitlist/preferences/route'
+import { signToken } from '@/lib/tokens'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: () => Promise.resolve(body),
+    }),
+  },
+}))
+
+jest.mock('firebase-admin/app', () => ({
+  initializeApp: jest.fn(),
+  getApps: jest.fn(() => []),
+  cert: jest.fn(),
+}))
+
+jest.mock('firebase-admin/firestore', () => {
+  const mockDoc = {
+    get: jest.fn(),
+    update: jest.fn(),
+  }
+
+  // Lookup by legacy (pre-migration) document ID
+  const mockLegacyQuery = {
+    where: jest.fn().mockReturnThis(),
+    limit: jest.fn().mockReturnThis(),
+    get: jest.fn(() => Promise.resolve({ empty: true, docs: [] })),
+  }
+
+  const mockCollection = {
+    doc: jest.fn(() => mockDoc),
+    where: jest.fn(() => mockLegacyQuery),
+  }
+
+  return {
+    getFirestore: jest.fn(() => ({
+      collection: jest.fn(() => mockCollection),
+    })),
+  }
+})
+
+const createMockRequest = (token: string | undefined, body: unknown) => ({
+  url: token
+    ? `http://localhost:3000/api/waitlist/preferences?token=${encodeURIComponent(token)}`
+    : 'http://localhost:3000/api/waitlist/preferences',
+  json: () => Promise.resolve(body),
+}) as unknown as Request
+
+describe('/api/waitlist/preferences', () => {
+  let mockDoc: { get: jest.Mock; update: jest.Mock }
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+
+    const { getFirestore } = await import('firebase-admin/firestore')
+    mockDoc = (getFirestore as jest.Mock)().collection().doc()
+  })
+
+  it('should merge the submitted preferences over the stored ones', async () => {
+    mockDoc.get.mockResolvedValueOnce({
+      exists: true,
+      id: 'subscriber-1',
+      ref: mockDoc,
+      data: () => ({ status: 'active', preferences: { productUpdates: false, betaInvites: false } }),
+    })
+
+    const response = await POST(createMockRequest(signToken('subscriber-1', 'waitlist'), { betaInvites: true }))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.preferences).toEqual({ productUpdates: false, betaInvites: true })
+    expect(mockDoc.update).toHaveBeenCalledWith({
+      preferences: { productUpdates: false, betaInvites: true },
+      preferencesUpdatedAt: expect.any(String),
+    })
+  })
+
+  it('should fill in defaults for subscribers without stored preferences', async () => {
+    mockDoc.get.mockResolvedValueOnce({
+      exists: true,
+      id: 'subscriber-1',
+      ref: mockDoc,
+      data: () => ({ status: 'active' }),
+    })
+
+    const response = await POST(createMockRequest(signToken('subscriber-1', 'waitlist'), { productUpdates: false }))
+    const data = await response.json()
+
+    expect(data.preferences).toEqual({ productUpdates: false, betaInvites: false })
+  })
+
+  it('should reject a missing token', async () => {
+    const response = await POST(createMockRequest(undefined, { betaInvites: true }))
+
+    expect(response.status).toBe(400)
+    expect(mockDoc.get).not.toHaveBeenCalled()
+  })
+
+  it('should reject tokens issued for another purpose', async () => {
+    const response = await POST(createMockRequest(signToken('subscriber-1', 'unsubscribe'), { betaInvites: true }))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.message).toBe('Invalid waitlist link')
+    expect(mockDoc.update).not.toHaveBeenCalled()
+  })
+
+  it('should reject non-boolean preferences', async () => {
+    const response = await POST(createMockRequest(signToken('subscriber-1', 'waitlist'), { betaInvites: 'yes' }))
+
+    expect(response.status).toBe(400)
+    expect(mockDoc.update).not.toHaveBeenCalled()
+  })
+
+  it('should return 404 for unknown subscribers', async () => {
+    mockDoc.get.mockResolvedValueOnce({ exists: false })
+
+    const response = await POST(createMockRequest(signToken('deleted-subscriber', 'waitlist'), { betaInvites: true }))
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should handle database errors gracefully', async () => {
+    mockDoc.get.mockRejectedValueOnce(new Error('Database connection failed'))
+
+    const response = await POST(createMockRequest(signToken('subscriber-1', 'waitlist'), { betaInvites: true }))
+    const data = await response.json()
+
+    expect(response.status).toBe(500)
+    expect(data.message).toBe('Failed to save preferences. Please try again.')
+  })
+})
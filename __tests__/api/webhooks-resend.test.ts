@@ -0,0 +1,100 @@
+import { createHmac } from 'crypto'
+import { POST } from '@/app/api/webhooks/resend/route'
+import { recordEmailEvent } from '@/lib/email-events'
+
+jest.mock('next/server', () => ({
+  NextResponse: {
+    json: (body: unknown, init?: ResponseInit) => ({
+      status: init?.status || 200,
+      json: () => Promise.resolve(body),
+    }),
+  },
+}))
+
+jest.mock('firebase-admin/app', () => ({
+  initializeApp: jest.fn(),
+  getApps: jest.fn(() => []),
+  cert: jest.fn(),
+}))
+
+jest.mock('firebase-admin/firestore', () => ({
+  getFirestore: jest.fn(() => ({})),
+}))
+
+jest.mock('@/lib/email-events', () => ({
+  recordEmailEvent: jest.fn(),
+}))
+
+const secret = `whsec_${Buffer.from('webhook-signing-key').toString('base64')}`
+const event = { type: 'email.bounced', created_at: '2026-04-15T12:00:00.000Z', data: { email_id: 'msg-1' } }
+
+const createMockRequest = (body: string, { signed = true } = {}) => {
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  const signature = createHmac('sha256', Buffer.from(secret.replace('whsec_', ''), 'base64'))
+    .update(`evt_1.${timestamp}.${body}`)
+    .digest('base64')
+
+  return {
+    url: 'http://localhost:3000/api/webhooks/resend',
+    headers: new Headers({
+      'svix-id': 'evt_1',
+      'svix-timestamp': timestamp,
+      'svix-signature': signed ? `v1,${signature}` : 'v1,forged',
+    }),
+    text: () => Promise.resolve(body),
+  } as unknown as Request
+}
+
+describe('/api/webhooks/resend', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    process.env = { ...originalEnv, RESEND_WEBHOOK_SECRET: secret }
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  it('records signed events under their Svix message ID', async () => {
+    jest.mocked(recordEmailEvent).mockResolvedValue('recorded')
+
+    const response = await POST(createMockRequest(JSON.stringify(event)))
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ received: true })
+    expect(recordEmailEvent).toHaveBeenCalledWith(expect.anything(), 'evt_1', event)
+  })
+
+  it('rejects events with an invalid signature', async () => {
+    const response = await POST(createMockRequest(JSON.stringify(event), { signed: false }))
+
+    expect(response.status).toBe(401)
+    expect(recordEmailEvent).not.toHaveBeenCalled()
+  })
+
+  it('rejects signed bodies that are not JSON without asking for a retry', async () => {
+    const response = await POST(createMockRequest('{"type": "email.delivered"'))
+
+    expect(response.status).toBe(400)
+    expect(recordEmailEvent).not.toHaveBeenCalled()
+  })
+
+  it('refuses every event while the secret is unset', async () => {
+    delete process.env.RESEND_WEBHOOK_SECRET
+
+    const response = await POST(createMockRequest(JSON.stringify(event)))
+
+    expect(response.status).toBe(500)
+    expect(recordEmailEvent).not.toHaveBeenCalled()
+  })
+
+  it('asks Resend to retry when the event could not be stored', async () => {
+    jest.mocked(recordEmailEvent).mockRejectedValue(new Error('Firestore unavailable'))
+
+    const response = await POST(createMockRequest(JSON.stringify(event)))
+
+    expect(response.status).toBe(500)
+  })
+})
@@ -0,0 +1,87 @@
+import React from 'react'
+import { render, screen, waitFor } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { EmailSignupForm } from '@/components/email-signup-form'
+
+// Stand-in for the third-party widget: a button that "solves" the challenge
+jest.mock('@/components/captcha-widget', () => ({
+  CaptchaWidget: ({ onToken, resetKey }: { onToken: (token: string | null) => void; resetKey?: number }) => (
+    <button type="button" data-reset-key={resetKey} onClick={() => onToken('solved-token')}>
+      Solve challenge
+    </button>
+  ),
+}))
+
+global.fetch = jest.fn()
+
+describe('EmailSignupForm - CAPTCHA', () => {
+  const captcha = { provider: 'turnstile' as const, siteKey: 'site-key' }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('does not render a challenge by default', () => {
+    render(<EmailSignupForm />)
+
+    expect(screen.queryByRole('button', { name: /solve challenge/i })).not.toBeInTheDocument()
+  })
+
+  it('requires the challenge before submitting', async () => {
+    const user = userEvent.setup()
+    render(<EmailSignupForm captcha={captcha} />)
+
+    await user.type(screen.getByPlaceholderText('Enter your email'), 'test@example.com')
+    await user.click(screen.getByRole('button', { name: /join waitlist/i }))
+
+    await waitFor(() => {
+      expect(screen.getByText(/please complete the challenge/i)).toBeInTheDocument()
+    })
+    expect(global.fetch).not.toHaveBeenCalled()
+  })
+
+  it('sends the challenge token with the signup', async () => {
+    const user = userEvent.setup()
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      status: 201,
+      json: async () => ({ message: 'Successfully subscribed!', email: 'test@example.com' }),
+    })
+    render(<EmailSignupForm captcha={captcha} formToken="form-token" />)
+
+    await user.type(screen.getByPlaceholderText('Enter your email'), 'test@example.com')
+    await user.click(screen.getByRole('button', { name: /solve challenge/i }))
+    await user.click(screen.getByRole('button', { name: /join waitlist/i }))
+
+    await waitFor(() => {
+      expect(screen.getByText(/thank you for subscribing/i)).toBeInTheDocument()
+    })
+    expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)).toEqual({
+      email: 'test@example.com',
+      source: 'landing-page',
+      website: '',
+      formToken: 'form-token',
+      captchaToken: 'solved-token',
+      attribution: { landingPath: '/' },
+    })
+  })
+
+  it('resets the challenge after a failed submission', async () => {
+    const user = userEvent.setup()
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 400,
+      json: async () => ({ message: 'Challenge verification failed. Please try again.' }),
+    })
+    render(<EmailSignupForm captcha={captcha} />)
+
+    await user.type(screen.getByPlaceholderText('Enter your email'), 'test@example.com')
+    await user.click(screen.getByRole('button', { name: /solve challenge/i }))
+    await user.click(screen.getByRole('button', { name: /join waitlist/i }))
+
+    await waitFor(() => {
+      expect(screen.getByText(/challenge verification failed/i)).toBeInTheDocument()
+    })
+    expect(screen.getByRole('button', { name: /solve challenge/i })).toHaveAttribute('data-reset-key', '1')
+  })
+})
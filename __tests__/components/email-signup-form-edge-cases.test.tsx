@@ -130,6 +130,8 @@ describe('EmailSignupForm - Edge Cases & Security Tests', () => {
           body: JSON.stringify({
             email: email,
             source: 'landing-page',
+            website: '',
+            attribution: { landingPath: '/' },
           })
         })
       })
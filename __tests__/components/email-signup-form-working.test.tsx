@@ -51,6 +51,8 @@ describe('EmailSignupForm - Working Tests', () => {
       body: JSON.stringify({
         email: 'test@example.com',
         source: 'landing-page',
+        website: '',
+        attribution: { landingPath: '/' },
       })
     })
 
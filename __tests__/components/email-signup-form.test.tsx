@@ -70,6 +70,8 @@ describe('EmailSignupForm', () => {
       body: JSON.stringify({
         email: 'test@example.com',
         source: 'landing-page',
+        website: '',
+        attribution: { landingPath: '/' },
       })
     })
 
@@ -77,6 +79,51 @@ describe('EmailSignupForm', () => {
     expect(input).toHaveValue('')
   })
 
+  it('shows the waitlist position and share link after signing up', async () => {
+    const user = userEvent.setup()
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      status: 201,
+      json: async () => ({
+        message: 'Successfully subscribed!',
+        email: 'test@example.com',
+        position: 42,
+        referralCode: 'abcd2345',
+        shareLink: 'https://hoopaudio.com/?ref=abcd2345'
+      })
+    })
+
+    render(<EmailSignupForm />)
+
+    await user.type(screen.getByPlaceholderText('Enter your email'), 'test@example.com')
+    await user.click(screen.getByRole('button', { name: /join waitlist/i }))
+
+    await waitFor(() => {
+      expect(screen.getByText('#42')).toBeInTheDocument()
+    })
+    expect(screen.getByLabelText(/your referral link/i)).toHaveValue('https://hoopaudio.com/?ref=abcd2345')
+  })
+
+  it('sends the referral code with the signup', async () => {
+    const user = userEvent.setup()
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      status: 201,
+      json: async () => ({ message: 'Successfully subscribed!' })
+    })
+
+    render(<EmailSignupForm referralCode="abcd2345" />)
+
+    await user.type(screen.getByPlaceholderText('Enter your email'), 'friend@example.com')
+    await user.click(screen.getByRole('button', { name: /join waitlist/i }))
+
+    await waitFor(() => {
+      expect(global.fetch).toHaveBeenCalled()
+    })
+    const body = JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body)
+    expect(body.ref).toBe('abcd2345')
+  })
+
   it('handles duplicate email error', async () => {
     const user = userEvent.setup()
     ;(global.fetch as jest.Mock).mockResolvedValueOnce({
@@ -103,6 +150,105 @@ describe('EmailSignupForm', () => {
     expect(input).toHaveValue('existing@example.com')
   })
 
+  it('shows the server message for returning subscribers', async () => {
+    const user = userEvent.setup()
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        message: 'Welcome back! Check your email to confirm your subscription.',
+        status: 'pending'
+      })
+    })
+
+    render(<EmailSignupForm />)
+
+    const input = screen.getByPlaceholderText('Enter your email')
+    const submitButton = screen.getByRole('button', { name: /join waitlist/i })
+
+    await user.type(input, 'returning@example.com')
+    await user.click(submitButton)
+
+    await waitFor(() => {
+      expect(screen.getByText(/welcome back/i)).toBeInTheDocument()
+    })
+  })
+
+  it('explains when an address previously bounced', async () => {
+    const user = userEvent.setup()
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 409,
+      json: async () => ({
+        message: "We couldn't deliver email to this address before. Please check it for typos or use a different one.",
+        status: 'bounced'
+      })
+    })
+
+    render(<EmailSignupForm />)
+
+    const input = screen.getByPlaceholderText('Enter your email')
+    const submitButton = screen.getByRole('button', { name: /join waitlist/i })
+
+    await user.type(input, 'bounced@example.com')
+    await user.click(submitButton)
+
+    await waitFor(() => {
+      expect(screen.getByText(/couldn't deliver email/i)).toBeInTheDocument()
+    })
+
+    expect(input).toHaveValue('bounced@example.com')
+  })
+
+  it('shows the reason an address was rejected', async () => {
+    const user = userEvent.setup()
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 422,
+      json: async () => ({
+        message: 'Disposable email addresses are not allowed. Please use your regular email.',
+        reason: 'disposable-domain'
+      })
+    })
+
+    render(<EmailSignupForm />)
+
+    const input = screen.getByPlaceholderText('Enter your email')
+    const submitButton = screen.getByRole('button', { name: /join waitlist/i })
+
+    await user.type(input, 'test@mailinator.com')
+    await user.click(submitButton)
+
+    await waitFor(() => {
+      expect(screen.getByText(/disposable email addresses are not allowed/i)).toBeInTheDocument()
+    })
+  })
+
+  it('handles rate limit error', async () => {
+    const user = userEvent.setup()
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 429,
+      json: async () => ({
+        message: 'Too many requests. Please try again later.'
+      })
+    })
+
+    render(<EmailSignupForm />)
+
+    const input = screen.getByPlaceholderText('Enter your email')
+    const submitButton = screen.getByRole('button', { name: /join waitlist/i })
+
+    await user.type(input, 'test@example.com')
+    await user.click(submitButton)
+
+    await waitFor(() => {
+      expect(screen.getByText(/too many signup attempts/i)).toBeInTheDocument()
+    })
+
+    expect(input).toHaveValue('test@example.com')
+  })
+
   it('handles server error gracefully', async () => {
     const user = userEvent.setup()
     ;(global.fetch as jest.Mock).mockResolvedValueOnce({
@@ -251,4 +397,31 @@ describe('EmailSignupForm', () => {
       expect(screen.queryByText(/please enter a valid email address/i)).not.toBeInTheDocument()
     })
   })
+
+  it('sends the attribution from the first page view', async () => {
+    const user = userEvent.setup()
+    window.localStorage.clear()
+    window.history.replaceState(null, '', '/launch?utm_source=newsletter&utm_campaign=spring')
+    ;(global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      status: 201,
+      json: async () => ({ message: 'Successfully subscribed!' })
+    })
+
+    render(<EmailSignupForm />)
+    window.history.replaceState(null, '', '/')
+
+    await user.type(screen.getByPlaceholderText('Enter your email'), 'test@example.com')
+    await user.click(screen.getByRole('button', { name: /join waitlist/i }))
+
+    await waitFor(() => {
+      expect(global.fetch).toHaveBeenCalled()
+    })
+    expect(JSON.parse((global.fetch as jest.Mock).mock.calls[0][1].body).attribution).toEqual({
+      utmSource: 'newsletter',
+      utmCampaign: 'spring',
+      landingPath: '/launch',
+    })
+    window.localStorage.clear()
+  })
 })
\ No newline at end of file
@@ -0,0 +1,216 @@
+import type { Firestore } from 'firebase-admin/firestore'
+
+export type Doc = Record<string, unknown>
+
+// Stand-ins for the FieldValue sentinels the libs write. Tests mock
+// `firebase-admin/firestore` with these so the fake can apply them.
+export const fakeFieldValue = {
+  increment: (n: number) => ({ increment: n }),
+  delete: () => ({ delete: true }),
+  arrayUnion: (...items: unknown[]) => ({ arrayUnion: items }),
+}
+
+type WhereOp = '==' | 'in' | 'array-contains' | '<' | '<=' | '>' | '>='
+type SetOptions = { merge?: boolean }
+
+export interface FakeDocumentSnapshot {
+  id: string
+  ref: FakeDocumentReference
+  exists: boolean
+  data(): Doc | undefined
+}
+
+export interface FakeDocumentReference {
+  id: string
+  path: string
+  collection(name: string): FakeCollectionReference
+  get(): Promise<FakeDocumentSnapshot>
+  set(data: Doc, options?: SetOptions): Promise<void>
+  update(data: Doc): Promise<void>
+  delete(): Promise<void>
+}
+
+export interface FakeQuery {
+  where(field: string, op: WhereOp, value: unknown): FakeQuery
+  select(...fields: string[]): FakeQuery
+  limit(n: number): FakeQuery
+  get(): Promise<{ empty: boolean; size: number; docs: FakeDocumentSnapshot[] }>
+  count(): { get(): Promise<{ data(): { count: number } }> }
+}
+
+export interface FakeCollectionReference extends FakeQuery {
+  id: string
+  path: string
+  doc(id: string): FakeDocumentReference
+}
+
+export interface FakeWriteBatch {
+  create(ref: FakeDocumentReference, data: Doc): FakeWriteBatch
+  set(ref: FakeDocumentReference, data: Doc, options?: SetOptions): FakeWriteBatch
+  update(ref: FakeDocumentReference, data: Doc): FakeWriteBatch
+  delete(ref: FakeDocumentReference): FakeWriteBatch
+  commit(): Promise<void>
+}
+
+export interface FakeTransaction {
+  get(ref: FakeDocumentReference): Promise<FakeDocumentSnapshot>
+  create(ref: FakeDocumentReference, data: Doc): FakeTransaction
+  set(ref: FakeDocumentReference, data: Doc, options?: SetOptions): FakeTransaction
+  update(ref: FakeDocumentReference, data: Doc): FakeTransaction
+  delete(ref: FakeDocumentReference): FakeTransaction
+}
+
+// The part of Firestore the lib modules use
+export interface FakeFirestore {
+  collection(name: string): FakeCollectionReference
+  getAll(...refs: FakeDocumentReference[]): Promise<FakeDocumentSnapshot[]>
+  batch(): FakeWriteBatch
+  runTransaction<T>(fn: (transaction: FakeTransaction) => Promise<T>): Promise<T>
+}
+
+const isMap = (value: unknown): value is Doc =>
+  typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+
+// Which FieldValue stand-in `value` is, if any
+const sentinelOf = (value: unknown) => {
+  const keys = isMap(value) ? Object.keys(value) : []
+  return keys.length === 1 && keys[0] in fakeFieldValue ? keys[0] as keyof typeof fakeFieldValue : undefined
+}
+
+// Writes `value` at a dotted field path, applying any sentinel to what was there
+const writeField = (data: Doc, [field, ...rest]: string[], value: unknown): Doc => {
+  const next = { ...data }
+  const sentinel = sentinelOf(value)
+  const operand = sentinel && (value as Doc)[sentinel]
+  if (rest.length > 0) {
+    next[field] = writeField(isMap(data[field]) ? data[field] : {}, rest, value)
+  } else if (sentinel === 'delete') {
+    delete next[field]
+  } else if (sentinel === 'increment') {
+    next[field] = Number(data[field] ?? 0) + Number(operand)
+  } else if (sentinel === 'arrayUnion') {
+    next[field] = [...((data[field] as unknown[]) ?? []), ...(operand as unknown[])]
+  } else {
+    next[field] = value
+  }
+  return next
+}
+
+// `set` with merge descends into maps; anything else replaces the field
+const mergeFields = (data: Doc, update: Doc): Doc =>
+  Object.entries(update).reduce<Doc>((merged, [field, value]) => (
+    isMap(value) && !sentinelOf(value)
+      ? { ...merged, [field]: mergeFields(isMap(merged[field]) ? merged[field] : {}, value) }
+      : writeField(merged, [field], value)
+  ), data)
+
+const readField = (data: Doc, field: string) =>
+  field.split('.').reduce<unknown>((value, part) => (isMap(value) ? value[part] : undefined), data)
+
+const matches = (actual: unknown, op: WhereOp, expected: unknown) => {
+  switch (op) {
+    case '==': return actual === expected
+    case 'in': return (expected as unknown[]).includes(actual)
+    case 'array-contains': return Array.isArray(actual) && actual.includes(expected)
+    default: {
+      if (typeof actual !== typeof expected) return false
+      const [a, b] = [actual as number | string, expected as number | string]
+      return op === '<' ? a < b : op === '<=' ? a <= b : op === '>' ? a > b : a >= b
+    }
+  }
+}
+
+/**
+ * An in-memory Firestore backed by a document path -> data map, for testing
+ * the lib modules against. Tests seed and inspect `store` directly.
+ */
+export function createFakeFirestore(initial: Record<string, Doc> = {}) {
+  const store = new Map(Object.entries(initial))
+
+  const create = (path: string, data: Doc) => {
+    if (store.has(path)) throw new Error(`Document already exists: ${path}`)
+    store.set(path, mergeFields({}, data))
+  }
+  const set = (path: string, data: Doc, options: SetOptions = {}) => {
+    store.set(path, mergeFields(options.merge ? store.get(path) ?? {} : {}, data))
+  }
+  const update = (path: string, data: Doc) => {
+    const existing = store.get(path)
+    if (!existing) throw new Error(`No document to update: ${path}`)
+    store.set(path, Object.entries(data).reduce((updated, [field, value]) => writeField(updated, field.split('.'), value), existing))
+  }
+
+  const snapshot = (path: string, fields?: string[]): FakeDocumentSnapshot => ({
+    id: path.split('/').pop()!,
+    ref: docRef(path),
+    exists: store.has(path),
+    data: () => {
+      const data = store.get(path)
+      return data && fields ? Object.fromEntries(fields.filter(field => field in data).map(field => [field, data[field]])) : data
+    },
+  })
+
+  const docRef = (path: string): FakeDocumentReference => ({
+    id: path.split('/').pop()!,
+    path,
+    collection: name => collectionRef(`${path}/${name}`),
+    get: async () => snapshot(path),
+    set: async (data, options) => set(path, data, options),
+    update: async data => update(path, data),
+    delete: async () => { store.delete(path) },
+  })
+
+  const query = (path: string, filters: [string, WhereOp, unknown][], fields?: string[], max = Infinity): FakeQuery => {
+    const run = () => [...store.keys()]
+      .filter(key => key.startsWith(`${path}/`) && !key.slice(path.length + 1).includes('/'))
+      .filter(key => filters.every(([field, op, value]) => matches(readField(store.get(key)!, field), op, value)))
+      .slice(0, max)
+    return {
+      where: (field, op, value) => query(path, [...filters, [field, op, value]], fields, max),
+      select: (...selected) => query(path, filters, selected, max),
+      limit: n => query(path, filters, fields, n),
+      get: async () => {
+        const docs = run().map(key => snapshot(key, fields))
+        return { empty: docs.length === 0, size: docs.length, docs }
+      },
+      count: () => ({ get: async () => ({ data: () => ({ count: run().length }) }) }),
+    }
+  }
+
+  const collectionRef = (path: string): FakeCollectionReference => ({
+    ...query(path, []),
+    id: path.split('/').pop()!,
+    path,
+    doc: id => docRef(`${path}/${id}`),
+  })
+
+  const fake: FakeFirestore = {
+    collection: name => collectionRef(name),
+    getAll: async (...refs) => refs.map(ref => snapshot(ref.path)),
+    batch: () => {
+      const writes: (() => void)[] = []
+      const batch: FakeWriteBatch = {
+        create: (ref, data) => { writes.push(() => create(ref.path, data)); return batch },
+        set: (ref, data, options) => { writes.push(() => set(ref.path, data, options)); return batch },
+        update: (ref, data) => { writes.push(() => update(ref.path, data)); return batch },
+        delete: ref => { writes.push(() => store.delete(ref.path)); return batch },
+        commit: async () => writes.forEach(write => write()),
+      }
+      return batch
+    },
+    runTransaction: async fn => {
+      const transaction: FakeTransaction = {
+        get: async ref => snapshot(ref.path),
+        create: (ref, data) => { create(ref.path, data); return transaction },
+        set: (ref, data, options) => { set(ref.path, data, options); return transaction },
+        update: (ref, data) => { update(ref.path, data); return transaction },
+        delete: ref => { store.delete(ref.path); return transaction },
+      }
+      return fn(transaction)
+    },
+  }
+
+  // The libs are typed against the full Firestore, of which the fake only
+  // implements the part they use
+  return { db: fake as unknown as Firestore, store }
+}
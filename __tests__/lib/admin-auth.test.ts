@@ -0,0 +1,137 @@
+import {
+  createAdminLoginToken,
+  createAdminSessionToken,
+  getAdminAllowlist,
+  getAdminRedirectPath,
+  getAdminSession,
+  getRequiredRole,
+  hasAdminRole,
+  redeemAdminLoginToken,
+} from '@/lib/admin-auth'
+import { createFakeFirestore } from '@/__tests__/helpers/fake-firestore'
+
+describe('lib/admin-auth', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      SUBSCRIPTION_TOKEN_SECRET: 'test-secret',
+      ADMIN_EMAILS: 'Ada@Example.com:sender, bob@example.com',
+    }
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+    jest.restoreAllMocks()
+  })
+
+  describe('getAdminAllowlist', () => {
+    it('parses emails with optional roles, defaulting to viewer', () => {
+      expect([...getAdminAllowlist()]).toEqual([
+        ['ada@example.com', 'sender'],
+        ['bob@example.com', 'viewer'],
+      ])
+    })
+
+    it('ignores entries with unknown roles', () => {
+      process.env.ADMIN_EMAILS = 'ada@example.com:owner,bob@example.com:viewer,'
+
+      expect([...getAdminAllowlist()]).toEqual([['bob@example.com', 'viewer']])
+    })
+
+    it('is empty when ADMIN_EMAILS is unset', () => {
+      delete process.env.ADMIN_EMAILS
+
+      expect(getAdminAllowlist().size).toBe(0)
+    })
+  })
+
+  describe('roles', () => {
+    it('lets senders do everything viewers can', () => {
+      expect(hasAdminRole({ email: 'ada@example.com', role: 'sender' }, 'viewer')).toBe(true)
+      expect(hasAdminRole({ email: 'bob@example.com', role: 'viewer' }, 'sender')).toBe(false)
+    })
+
+    it('requires a sender for anything but reads', () => {
+      expect(getRequiredRole('GET')).toBe('viewer')
+      expect(getRequiredRole('POST')).toBe('sender')
+      expect(getRequiredRole('DELETE')).toBe('sender')
+    })
+  })
+
+  describe('sign-in links', () => {
+    it('resolve to the allowlisted email', async () => {
+      const { db } = createFakeFirestore()
+
+      await expect(redeemAdminLoginToken(db, createAdminLoginToken('ADA@example.com'))).resolves.toBe('ada@example.com')
+    })
+
+    it('only work once', async () => {
+      const { db, store } = createFakeFirestore()
+      const token = createAdminLoginToken('ada@example.com')
+
+      await expect(redeemAdminLoginToken(db, token)).resolves.toBe('ada@example.com')
+      await expect(redeemAdminLoginToken(db, token)).resolves.toBeNull()
+      expect([...store.values()]).toEqual([
+        { email: 'ada@example.com', usedAt: expect.any(String), expiresAt: expect.any(String) },
+      ])
+    })
+
+    it('are each usable once, even for the same address', async () => {
+      const { db } = createFakeFirestore()
+      const first = createAdminLoginToken('ada@example.com')
+      const second = createAdminLoginToken('ada@example.com')
+
+      expect(second).not.toBe(first)
+      await redeemAdminLoginToken(db, first)
+      await expect(redeemAdminLoginToken(db, second)).resolves.toBe('ada@example.com')
+    })
+
+    it('are rejected once the address leaves the allowlist', async () => {
+      const { db, store } = createFakeFirestore()
+      const token = createAdminLoginToken('bob@example.com')
+      process.env.ADMIN_EMAILS = 'ada@example.com:sender'
+
+      await expect(redeemAdminLoginToken(db, token)).resolves.toBeNull()
+      expect(store.size).toBe(0)
+    })
+
+    it('cannot be used as session cookies', () => {
+      expect(getAdminSession(createAdminLoginToken('ada@example.com'))).toBeNull()
+    })
+  })
+
+  describe('getAdminSession', () => {
+    it('looks up the current role for the session email', () => {
+      const token = createAdminSessionToken('bob@example.com')
+      expect(getAdminSession(token)).toEqual({ email: 'bob@example.com', role: 'viewer' })
+
+      process.env.ADMIN_EMAILS = 'bob@example.com:sender'
+      expect(getAdminSession(token)).toEqual({ email: 'bob@example.com', role: 'sender' })
+    })
+
+    it('rejects missing, forged and revoked sessions', () => {
+      const token = createAdminSessionToken('bob@example.com')
+
+      expect(getAdminSession(undefined)).toBeNull()
+      expect(getAdminSession(`${token}x`)).toBeNull()
+
+      process.env.ADMIN_EMAILS = 'ada@example.com:sender'
+      expect(getAdminSession(token)).toBeNull()
+    })
+  })
+
+  describe('getAdminRedirectPath', () => {
+    it('only follows paths inside the admin area', () => {
+      expect(getAdminRedirectPath('/admin/subscribers/abc')).toBe('/admin/subscribers/abc')
+      expect(getAdminRedirectPath('/admin?status=pending')).toBe('/admin?status=pending')
+      expect(getAdminRedirectPath('https://evil.example/admin')).toBe('/admin')
+      expect(getAdminRedirectPath('//evil.example')).toBe('/admin')
+      expect(getAdminRedirectPath('/administrator')).toBe('/admin')
+      expect(getAdminRedirectPath(null)).toBe('/admin')
+    })
+  })
+})
@@ -0,0 +1,174 @@
+import {
+  deleteSubscriber,
+  getSubscriberDetail,
+  listSubscribers,
+  resendConfirmation,
+  unsubscribeSubscriber,
+} from '@/lib/admin'
+import { sendConfirmationEmail } from '@/lib/email'
+import { createFakeFirestore, type Doc } from '@/__tests__/helpers/fake-firestore'
+
+jest.mock('firebase-admin/firestore', () => ({
+  FieldValue: jest.requireActual('@/__tests__/helpers/fake-firestore').fakeFieldValue,
+}))
+
+jest.mock('@/lib/email', () => ({
+  getConfirmUrl: (id: string) => `https://orbit.test/api/subscribe/confirm?token=${id}`,
+  sendConfirmationEmail: jest.fn(),
+}))
+
+jest.mock('@/lib/analytics', () => ({
+  recordAnalyticsEvent: jest.fn(),
+}))
+
+const subscriber = (email: string, subscribedAt: string, data: Doc = {}) => ({
+  email,
+  subscribedAt,
+  status: 'active',
+  source: 'landing-page',
+  ...data,
+})
+
+describe('lib/admin', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('listSubscribers', () => {
+    const { db } = createFakeFirestore({
+      'email_subscribers/a': subscriber('ada@example.com', '2026-01-01T00:00:00.000Z', { referralCode: 'ADA123' }),
+      'email_subscribers/b': subscriber('bob@example.com', '2026-02-01T00:00:00.000Z', { status: 'pending' }),
+      'email_subscribers/sub-3': subscriber('cy@example.org', '2026-03-01T00:00:00.000Z', { source: 'twitter', referralCount: 2 }),
+    })
+
+    it('lists newest signups first', async () => {
+      const list = await listSubscribers(db, {})
+
+      expect(list.subscribers.map(s => s.id)).toEqual(['sub-3', 'b', 'a'])
+      expect(list).toMatchObject({ total: 3, page: 1, pageCount: 1 })
+      expect(list.subscribers[0]).toEqual({
+        id: 'sub-3',
+        email: 'cy@example.org',
+        status: 'active',
+        source: 'twitter',
+        subscribedAt: '2026-03-01T00:00:00.000Z',
+        confirmedAt: undefined,
+        referralCount: 2,
+      })
+    })
+
+    it('filters by status and source', async () => {
+      expect((await listSubscribers(db, { status: 'pending' })).subscribers.map(s => s.id)).toEqual(['b'])
+      expect((await listSubscribers(db, { source: 'twitter' })).subscribers.map(s => s.id)).toEqual(['sub-3'])
+      expect((await listSubscribers(db, { status: 'pending', source: 'twitter' })).total).toBe(0)
+    })
+
+    it('searches email addresses, subscriber IDs and referral codes', async () => {
+      expect((await listSubscribers(db, { search: 'EXAMPLE.COM' })).subscribers.map(s => s.id)).toEqual(['b', 'a'])
+      expect((await listSubscribers(db, { search: 'sub-3' })).subscribers.map(s => s.id)).toEqual(['sub-3'])
+      expect((await listSubscribers(db, { search: 'ada123' })).subscribers.map(s => s.id)).toEqual(['a'])
+    })
+
+    it('paginates and clamps out-of-range pages', async () => {
+      expect(await listSubscribers(db, { page: 2 }, 2)).toMatchObject({ page: 2, pageCount: 2, total: 3 })
+      expect((await listSubscribers(db, { page: 2 }, 2)).subscribers.map(s => s.id)).toEqual(['a'])
+      expect((await listSubscribers(db, { page: 9 }, 2)).page).toBe(2)
+      expect((await listSubscribers(db, { page: 0 }, 2)).page).toBe(1)
+    })
+  })
+
+  describe('getSubscriberDetail', () => {
+    it('includes request metadata and history, newest first', async () => {
+      const { db } = createFakeFirestore({
+        'email_subscribers/a': subscriber('ada@example.com', '2026-01-01T00:00:00.000Z', {
+          ipAddress: '203.0.113.7',
+          userAgent: 'Browser',
+          history: [
+            { event: 'subscribed', at: '2026-01-01T00:00:00.000Z' },
+            { event: 'confirmed', at: '2026-01-02T00:00:00.000Z' },
+          ],
+        }),
+      })
+
+      const detail = await getSubscriberDetail(db, 'a')
+
+      expect(detail).toMatchObject({ id: 'a', ipAddress: '203.0.113.7', userAgent: 'Browser', tags: [] })
+      expect(detail?.history.map(entry => entry.event)).toEqual(['confirmed', 'subscribed'])
+    })
+
+    it('returns null for unknown subscribers', async () => {
+      const { db } = createFakeFirestore({})
+
+      expect(await getSubscriberDetail(db, 'missing')).toBeNull()
+    })
+  })
+
+  describe('actions', () => {
+    it('unsubscribes and records that an admin did it', async () => {
+      const { db, store } = createFakeFirestore({ 'email_subscribers/a': subscriber('ada@example.com', '2026-01-01T00:00:00.000Z') })
+
+      expect(await unsubscribeSubscriber(db, 'a')).toBe('done')
+      expect(store.get('email_subscribers/a')).toMatchObject({
+        status: 'unsubscribed',
+        history: [expect.objectContaining({ event: 'unsubscribed', by: 'admin' })],
+      })
+    })
+
+    it('does not turn bounced subscribers into unsubscribed ones', async () => {
+      const { db, store } = createFakeFirestore({ 'email_subscribers/a': subscriber('ada@example.com', '2026-01-01T00:00:00.000Z', { status: 'bounced' }) })
+
+      expect(await unsubscribeSubscriber(db, 'a')).toBe('done')
+      expect(store.get('email_subscribers/a')).toMatchObject({ status: 'bounced' })
+      expect(store.get('email_subscribers/a')).not.toHaveProperty('history')
+    })
+
+    it('erases the subscriber and the records that mention them', async () => {
+      const { db, store } = createFakeFirestore({
+        'email_subscribers/a': subscriber('ada@example.com', '2026-01-01T00:00:00.000Z'),
+        'campaigns/may': { subject: 'May' },
+        'campaigns/may/deliveries/a': { email: 'ada@example.com', status: 'sent' },
+        'campaigns/june': { subject: 'June' },
+        'email_events/evt-1': { type: 'opened', subscriberId: 'a' },
+        'email_events/evt-2': { type: 'opened', subscriberId: 'b' },
+        'email_rejections/rej-1': { email: 'ada@example.com', rejectedReason: 'too-fast' },
+      })
+
+      expect(await deleteSubscriber(db, 'a')).toBe('done')
+      expect(store.has('email_subscribers/a')).toBe(false)
+      expect(store.get('campaigns/may/deliveries/a')).toEqual({ status: 'sent' })
+      expect(store.has('campaigns/june/deliveries/a')).toBe(false)
+      expect([...store.keys()].filter(path => !path.startsWith('campaigns/'))).toEqual(['email_events/evt-2'])
+    })
+
+    it('resends the confirmation email to pending subscribers', async () => {
+      const { db, store } = createFakeFirestore({
+        'email_subscribers/a': subscriber('ada@example.com', '2026-01-01T00:00:00.000Z', { status: 'pending' }),
+      })
+
+      expect(await resendConfirmation(db, 'a')).toBe('done')
+      expect(sendConfirmationEmail).toHaveBeenCalledWith({
+        to: 'ada@example.com',
+        subscriberId: 'a',
+        confirmUrl: 'https://orbit.test/api/subscribe/confirm?token=a',
+      })
+      expect(store.get('email_subscribers/a')?.history).toEqual([
+        expect.objectContaining({ event: 'confirmation-resent', by: 'admin' }),
+      ])
+    })
+
+    it('does not resend confirmation to confirmed subscribers', async () => {
+      const { db } = createFakeFirestore({ 'email_subscribers/a': subscriber('ada@example.com', '2026-01-01T00:00:00.000Z') })
+
+      expect(await resendConfirmation(db, 'a')).toBe('not-allowed')
+      expect(sendConfirmationEmail).not.toHaveBeenCalled()
+    })
+
+    it('reports unknown subscribers', async () => {
+      const { db } = createFakeFirestore({})
+
+      expect(await unsubscribeSubscriber(db, 'missing')).toBe('not-found')
+      expect(await deleteSubscriber(db, 'missing')).toBe('not-found')
+      expect(await resendConfirmation(db, 'missing')).toBe('not-found')
+    })
+  })
+})
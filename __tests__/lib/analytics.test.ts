@@ -0,0 +1,112 @@
+import { getAnalyticsReport, getSourceKey, rebuildAnalytics, recordAnalyticsEvent } from '@/lib/analytics'
+import { createFakeFirestore } from '@/__tests__/helpers/fake-firestore'
+
+jest.mock('firebase-admin/firestore', () => ({
+  FieldValue: jest.requireActual('@/__tests__/helpers/fake-firestore').fakeFieldValue,
+}))
+
+describe('lib/analytics', () => {
+  describe('recordAnalyticsEvent', () => {
+    it('counts a signup for its day, source and the totals', async () => {
+      const { db, store } = createFakeFirestore()
+
+      await recordAnalyticsEvent(db, 'signup', { source: 'twitter', referred: true, at: new Date('2026-05-01T23:30:00Z') })
+
+      const counts = { signups: 1, sources: { twitter: 1 }, referredSignups: 1 }
+      expect(store.get('analytics_daily/2026-05-01')).toEqual({ date: '2026-05-01', ...counts })
+      expect(store.get('analytics/totals')).toEqual(counts)
+    })
+
+    it('counts confirmations and unsubscribes', async () => {
+      const { db, store } = createFakeFirestore({ 'analytics/totals': { signups: 1, sources: { twitter: 1 } } })
+
+      await recordAnalyticsEvent(db, 'confirmation', { referred: false })
+      await recordAnalyticsEvent(db, 'unsubscribe')
+
+      expect(store.get('analytics/totals')).toEqual({ signups: 1, sources: { twitter: 1 }, confirmations: 1, unsubscribes: 1 })
+    })
+
+    it('logs failures instead of throwing', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      const { db } = createFakeFirestore()
+      jest.spyOn(db, 'batch').mockImplementation(() => { throw new Error('unavailable') })
+
+      await expect(recordAnalyticsEvent(db, 'unsubscribe')).resolves.toBeUndefined()
+      expect(console.error).toHaveBeenCalledWith('Failed to record unsubscribe analytics:', expect.any(Error))
+    })
+  })
+
+  describe('getSourceKey', () => {
+    it('keeps simple sources and groups the rest as other', () => {
+      expect(getSourceKey('landing-page')).toBe('landing-page')
+      expect(getSourceKey(undefined)).toBe('other')
+      expect(getSourceKey('a source with spaces')).toBe('other')
+      expect(getSourceKey('x'.repeat(65))).toBe('other')
+    })
+  })
+
+  describe('getAnalyticsReport', () => {
+    it('fills in quiet days and adds up the period', async () => {
+      const { db } = createFakeFirestore({
+        'analytics_daily/2026-05-01': { signups: 4, confirmations: 2, referredSignups: 1, sources: { twitter: 3, website: 1 } },
+        'analytics_daily/2026-05-03': { signups: 6, confirmations: 4, unsubscribes: 1, sources: { website: 6 } },
+        'analytics/totals': { signups: 100, confirmations: 50, unsubscribes: 5, sources: { website: 100 } },
+      })
+
+      const report = await getAnalyticsReport(db, 3, new Date('2026-05-03T12:00:00Z'))
+
+      expect(report.days.map(day => [day.date, day.signups])).toEqual([['2026-05-01', 4], ['2026-05-02', 0], ['2026-05-03', 6]])
+      expect(report.period).toMatchObject({
+        signups: 10,
+        confirmations: 6,
+        unsubscribes: 1,
+        referredSignups: 1,
+        confirmationRate: 0.6,
+        referralShare: 0.1,
+      })
+      expect(report.period.unsubscribeRate).toBeCloseTo(1 / 6)
+      expect(report.sources).toEqual([{ source: 'website', signups: 7 }, { source: 'twitter', signups: 3 }])
+      expect(report.totals).toMatchObject({ signups: 100, confirmationRate: 0.5, unsubscribeRate: 0.1 })
+    })
+
+    it('reports rates as null when there is nothing to divide by', async () => {
+      const { db } = createFakeFirestore()
+
+      const report = await getAnalyticsReport(db, 7, new Date('2026-05-03T12:00:00Z'))
+
+      expect(report.days).toHaveLength(7)
+      expect(report.period).toMatchObject({ signups: 0, confirmationRate: null, unsubscribeRate: null, referralShare: null })
+    })
+  })
+
+  describe('rebuildAnalytics', () => {
+    it('counts history events on the day they happened', () => {
+      const { days, totals } = rebuildAnalytics([
+        {
+          source: 'twitter',
+          referredBy: 'referrer-1',
+          referralCredited: true,
+          history: [
+            { event: 'subscribed', at: '2026-05-01T10:00:00Z', source: 'twitter' },
+            { event: 'confirmed', at: '2026-05-02T10:00:00Z' },
+            { event: 'unsubscribed', at: '2026-05-03T10:00:00Z' },
+            { event: 'resubscribed', at: '2026-05-04T10:00:00Z', source: 'website' },
+            { event: 'confirmed', at: '2026-05-04T11:00:00Z' },
+          ],
+        },
+        { source: 'website', subscribedAt: '2026-05-01T12:00:00Z', confirmedAt: '2026-05-01T13:00:00Z' },
+      ])
+
+      expect(totals).toEqual({
+        signups: 3,
+        confirmations: 3,
+        unsubscribes: 1,
+        referredSignups: 1,
+        referredConfirmations: 1,
+        sources: { twitter: 1, website: 2 },
+      })
+      expect(days.get('2026-05-01')).toMatchObject({ signups: 2, confirmations: 1 })
+      expect(days.get('2026-05-04')).toMatchObject({ signups: 1, confirmations: 1, referredConfirmations: 0 })
+    })
+  })
+})
@@ -0,0 +1,61 @@
+import { ATTRIBUTION_STORAGE_KEY, captureAttribution, readAttribution } from '@/lib/attribution'
+
+describe('lib/attribution', () => {
+  describe('readAttribution', () => {
+    it('reads utm parameters, the referrer and the landing path', () => {
+      const url = new URL('https://orbit.example.com/pricing?utm_source=twitter&utm_medium=social&utm_campaign=launch&utm_term=%20&other=1')
+
+      expect(readAttribution(url, 'https://news.example.org/post/1')).toEqual({
+        utmSource: 'twitter',
+        utmMedium: 'social',
+        utmCampaign: 'launch',
+        referrer: 'https://news.example.org/post/1',
+        landingPath: '/pricing',
+      })
+    })
+
+    it('leaves out referrers from the same site and ones that are not URLs', () => {
+      const url = new URL('https://orbit.example.com/')
+
+      expect(readAttribution(url, 'https://orbit.example.com/blog')).toEqual({ landingPath: '/' })
+      expect(readAttribution(url, 'not a url')).toEqual({ landingPath: '/' })
+    })
+
+    it('shortens long utm values', () => {
+      const url = new URL(`https://orbit.example.com/?utm_campaign=${'x'.repeat(300)}`)
+
+      expect(readAttribution(url, '').utmCampaign).toHaveLength(200)
+    })
+  })
+
+  describe('captureAttribution', () => {
+    beforeEach(() => {
+      window.localStorage.clear()
+      window.history.replaceState(null, '', '/')
+    })
+
+    it('keeps the first page view across navigation', () => {
+      window.history.replaceState(null, '', '/launch?utm_source=newsletter')
+      expect(captureAttribution()).toEqual({ utmSource: 'newsletter', landingPath: '/launch' })
+
+      window.history.replaceState(null, '', '/about')
+      expect(captureAttribution()).toEqual({ utmSource: 'newsletter', landingPath: '/launch' })
+    })
+
+    it('replaces stored attribution that is no longer valid', () => {
+      window.localStorage.setItem(ATTRIBUTION_STORAGE_KEY, JSON.stringify({ landingPath: 'not-a-path' }))
+
+      expect(captureAttribution()).toEqual({ landingPath: '/' })
+      expect(JSON.parse(window.localStorage.getItem(ATTRIBUTION_STORAGE_KEY)!)).toEqual({ landingPath: '/' })
+    })
+
+    it('falls back to the current page view when storage is blocked', () => {
+      const getItem = jest.spyOn(Storage.prototype, 'getItem').mockImplementation(() => {
+        throw new Error('SecurityError')
+      })
+
+      expect(captureAttribution()).toEqual({ landingPath: '/' })
+      getItem.mockRestore()
+    })
+  })
+})
@@ -0,0 +1,293 @@
+import {
+  DEFAULT_SEND_LIMITS,
+  chunk,
+  createResendBatchSender,
+  createTokenBucket,
+  getSendLimits,
+  sendBatches,
+  type BatchResponse,
+  type Clock,
+  type EmailBatch,
+} from '@/lib/batch-send'
+
+// Sleeping advances a virtual clock instantly, so timing can be asserted exactly
+const createClock = () => {
+  let now = 0
+  const sleeps: number[] = []
+  const clock: Clock = {
+    now: () => now,
+    sleep: async ms => {
+      sleeps.push(ms)
+      now += ms
+    },
+  }
+  return { clock, sleeps, elapsed: () => now }
+}
+
+const email = (to: string) => ({ to, subject: 'Hi', html: '<p>Hi</p>', text: 'Hi', headers: {} })
+
+const batch = (key: string, ...recipients: string[]): EmailBatch => ({
+  idempotencyKey: key,
+  emails: recipients.map(email),
+})
+
+const accepted = ({ emails }: EmailBatch): BatchResponse => ({
+  ok: true,
+  results: emails.map(({ to }) => ({ id: `msg-${to}` })),
+})
+
+const limits = { requestsPerSecond: 2, batchSize: 100, concurrency: 1, maxRetries: 3 }
+
+describe('lib/batch-send', () => {
+  describe('chunk', () => {
+    it('splits items into groups of at most the given size', () => {
+      expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]])
+      expect(chunk([], 2)).toEqual([])
+    })
+  })
+
+  describe('getSendLimits', () => {
+    const originalEnv = process.env
+
+    afterEach(() => {
+      process.env = originalEnv
+    })
+
+    it('uses the defaults when nothing is configured', () => {
+      expect(getSendLimits()).toEqual(DEFAULT_SEND_LIMITS)
+    })
+
+    it('reads plan limits from the environment and caps the batch size', () => {
+      process.env = {
+        ...originalEnv,
+        RESEND_REQUESTS_PER_SECOND: '10',
+        RESEND_BATCH_SIZE: '500',
+        RESEND_CONCURRENCY: '4',
+        RESEND_MAX_RETRIES: '2',
+      }
+      expect(getSendLimits()).toEqual({ requestsPerSecond: 10, batchSize: 100, concurrency: 4, maxRetries: 2 })
+    })
+  })
+
+  describe('createTokenBucket', () => {
+    it('allows a burst of one second and then paces requests', async () => {
+      const { clock, elapsed } = createClock()
+      const bucket = createTokenBucket(2, clock)
+
+      await bucket.take()
+      await bucket.take()
+      expect(elapsed()).toBe(0)
+
+      await bucket.take()
+      expect(elapsed()).toBe(500)
+    })
+
+    it('pauses and slows down after a backoff, then recovers', async () => {
+      const { clock, elapsed } = createClock()
+      const bucket = createTokenBucket(2, clock)
+
+      bucket.backOff(3000)
+      expect(bucket.rate).toBe(1)
+
+      await bucket.take()
+      expect(elapsed()).toBeGreaterThanOrEqual(3000)
+
+      for (let i = 0; i < 20; i++) bucket.recordSuccess()
+      expect(bucket.rate).toBe(2)
+    })
+
+    it('never drops below a sixteenth of the configured rate', () => {
+      const bucket = createTokenBucket(16, createClock().clock)
+      for (let i = 0; i < 10; i++) bucket.backOff(0)
+      expect(bucket.rate).toBe(1)
+    })
+  })
+
+  describe('sendBatches', () => {
+    it('returns one result per email in input order', async () => {
+      const { clock } = createClock()
+      const send = jest.fn(async (b: EmailBatch) => accepted(b))
+
+      const results = await sendBatches(
+        [batch('a', 'one@example.com', 'two@example.com'), batch('b', 'three@example.com')],
+        send,
+        { limits: { ...limits, concurrency: 2 }, clock }
+      )
+
+      expect(results).toEqual([
+        { to: 'one@example.com', id: 'msg-one@example.com' },
+        { to: 'two@example.com', id: 'msg-two@example.com' },
+        { to: 'three@example.com', id: 'msg-three@example.com' },
+      ])
+    })
+
+    it('keeps per-recipient errors from a partially accepted batch', async () => {
+      const { clock } = createClock()
+      const send = jest.fn(async (): Promise<BatchResponse> => ({
+        ok: true,
+        results: [{ id: 'msg-1' }, { error: 'Invalid `to` field' }],
+      }))
+
+      const results = await sendBatches([batch('a', 'one@example.com', 'bad@')], send, { limits, clock })
+
+      expect(results).toEqual([
+        { to: 'one@example.com', id: 'msg-1' },
+        { to: 'bad@', error: 'Invalid `to` field' },
+      ])
+    })
+
+    it('counts a batch whose idempotency key was already used as sent', async () => {
+      const { clock } = createClock()
+      const send = jest.fn(async (): Promise<BatchResponse> => ({
+        ok: false,
+        status: 409,
+        message: 'Same idempotency key used with a different request payload',
+      }))
+
+      const results = await sendBatches([batch('a', 'one@example.com', 'two@example.com')], send, { limits, clock })
+
+      expect(send).toHaveBeenCalledTimes(1)
+      expect(results).toEqual([
+        { to: 'one@example.com', alreadySent: true },
+        { to: 'two@example.com', alreadySent: true },
+      ])
+    })
+
+    it('waits for Retry-After on a 429 and retries with the same key', async () => {
+      const { clock, elapsed } = createClock()
+      const send = jest.fn(async (b: EmailBatch) => accepted(b))
+        .mockResolvedValueOnce({ ok: false, status: 429, message: 'Too many requests', retryAfterMs: 2000 })
+
+      const results = await sendBatches([batch('a', 'one@example.com')], send, { limits, clock })
+
+      expect(send).toHaveBeenCalledTimes(2)
+      expect(send.mock.calls[1][0].idempotencyKey).toBe('a')
+      expect(elapsed()).toBeGreaterThanOrEqual(2000)
+      expect(results[0].id).toBe('msg-one@example.com')
+    })
+
+    it('backs off exponentially on server errors', async () => {
+      const { clock, sleeps } = createClock()
+      const send = jest.fn(async (b: EmailBatch) => accepted(b))
+        .mockResolvedValueOnce({ ok: false, status: 500, message: 'Internal server error' })
+        .mockRejectedValueOnce(new Error('socket hang up'))
+
+      await sendBatches([batch('a', 'one@example.com')], send, { limits, clock })
+
+      expect(send).toHaveBeenCalledTimes(3)
+      expect(sleeps).toEqual(expect.arrayContaining([1000, 2000]))
+    })
+
+    it('fails every recipient once retries run out', async () => {
+      const { clock } = createClock()
+      const send = jest.fn(async (): Promise<BatchResponse> => ({ ok: false, status: 503, message: 'Unavailable' }))
+
+      const results = await sendBatches([batch('a', 'one@example.com', 'two@example.com')], send, { limits, clock })
+
+      expect(send).toHaveBeenCalledTimes(limits.maxRetries + 1)
+      expect(results.every(result => result.error === 'Unavailable')).toBe(true)
+    })
+
+    it('does not retry errors that will not go away', async () => {
+      const { clock } = createClock()
+      const send = jest.fn(async (): Promise<BatchResponse> => ({ ok: false, status: 422, message: 'Invalid from address' }))
+
+      const results = await sendBatches([batch('a', 'one@example.com')], send, { limits, clock })
+
+      expect(send).toHaveBeenCalledTimes(1)
+      expect(results).toEqual([{ to: 'one@example.com', error: 'Invalid from address' }])
+    })
+
+    it('keeps at most `concurrency` batches in flight', async () => {
+      let inFlight = 0
+      let peak = 0
+      const send = jest.fn(async (b: EmailBatch) => {
+        inFlight++
+        peak = Math.max(peak, inFlight)
+        await new Promise(resolve => setTimeout(resolve, 1))
+        inFlight--
+        return accepted(b)
+      })
+
+      await sendBatches(
+        ['a', 'b', 'c', 'd', 'e'].map(key => batch(key, `${key}@example.com`)),
+        send,
+        { limits: { ...limits, requestsPerSecond: 1000, concurrency: 2 } }
+      )
+
+      expect(send).toHaveBeenCalledTimes(5)
+      expect(peak).toBe(2)
+    })
+
+    it('reports each batch as it settles', async () => {
+      const { clock } = createClock()
+      const onBatch = jest.fn()
+
+      await sendBatches([batch('a', 'one@example.com'), batch('b', 'two@example.com')], async b => accepted(b), {
+        limits,
+        clock,
+        onBatch,
+      })
+
+      expect(onBatch).toHaveBeenCalledTimes(2)
+      expect(onBatch).toHaveBeenCalledWith(expect.objectContaining({ idempotencyKey: 'b' }), [
+        { to: 'two@example.com', id: 'msg-two@example.com' },
+      ])
+    })
+  })
+
+  describe('createResendBatchSender', () => {
+    const createResend = (response: unknown) => {
+      const send = jest.fn().mockResolvedValue(response)
+      return { resend: { batch: { send } } as never, send }
+    }
+
+    it('sends the batch with its idempotency key and maps IDs back to recipients', async () => {
+      const { resend, send } = createResend({
+        data: { data: [{ id: 'msg-1' }, { id: 'msg-3' }], errors: [{ index: 1, message: 'Invalid `to` field' }] },
+        error: null,
+        headers: {},
+      })
+      const sendBatch = createResendBatchSender(resend, 'Orbit <hello@example.com>')
+
+      const response = await sendBatch(batch('key-1', 'one@example.com', 'bad@', 'three@example.com'))
+
+      expect(send).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ from: 'Orbit <hello@example.com>', to: 'one@example.com' }),
+          expect.objectContaining({ to: 'bad@' }),
+          expect.objectContaining({ to: 'three@example.com' }),
+        ],
+        { idempotencyKey: 'key-1', batchValidation: 'permissive' }
+      )
+      expect(response).toEqual({
+        ok: true,
+        results: [{ id: 'msg-1' }, { error: 'Invalid `to` field' }, { id: 'msg-3' }],
+      })
+    })
+
+    it('reports rate limiting with the Retry-After delay', async () => {
+      const { resend } = createResend({
+        data: null,
+        error: { name: 'rate_limit_exceeded', statusCode: 429, message: 'Too many requests' },
+        headers: { 'retry-after': '2' },
+      })
+
+      const response = await createResendBatchSender(resend, 'Orbit <hello@example.com>')(batch('key-1', 'one@example.com'))
+
+      expect(response).toEqual({ ok: false, status: 429, message: 'Too many requests', retryAfterMs: 2000 })
+    })
+
+    it('reports a reused idempotency key as a conflict', async () => {
+      const { resend } = createResend({
+        data: null,
+        error: { name: 'invalid_idempotent_request', statusCode: null, message: 'Same idempotency key used with a different request payload' },
+        headers: {},
+      })
+
+      const response = await createResendBatchSender(resend, 'Orbit <hello@example.com>')(batch('key-1', 'one@example.com'))
+
+      expect(response).toMatchObject({ ok: false, status: 409 })
+    })
+  })
+})
@@ -0,0 +1,82 @@
+import { composeBroadcastEmail, parseBroadcast, renderMarkdown } from '@/lib/broadcast'
+
+const broadcast = (frontMatter: string, body = 'Hello **world**') => `---\n${frontMatter}\n---\n${body}\n`
+
+describe('lib/broadcast', () => {
+  describe('parseBroadcast', () => {
+    it('reads the front matter and renders the body', () => {
+      const parsed = parseBroadcast(broadcast([
+        'subject: Big news',
+        'title: Orbit beta',
+        'preheader: Spots are limited',
+        'segment: beta',
+      ].join('\n')))
+
+      expect(parsed).toEqual({
+        subject: 'Big news',
+        title: 'Orbit beta',
+        preheader: 'Spots are limited',
+        segment: 'beta',
+        html: '<p style="margin: 0 0 16px 0;">Hello <strong style="color: #ffffff;">world</strong></p>',
+        text: 'Hello world',
+      })
+    })
+
+    it('defaults the title to the subject and the segment to everyone', () => {
+      const parsed = parseBroadcast(broadcast('subject: Big news'))
+
+      expect(parsed.title).toBe('Big news')
+      expect(parsed.segment).toBe('all')
+      expect(parsed.preheader).toBeUndefined()
+    })
+
+    it('requires front matter with a subject', () => {
+      expect(() => parseBroadcast('Hello world')).toThrow(/missing its YAML front matter/)
+      expect(() => parseBroadcast(broadcast('title: No subject'))).toThrow('Invalid front matter: subject')
+    })
+
+    it('accepts segment queries', () => {
+      const parsed = parseBroadcast(broadcast('subject: Hi\nsegment: prefers:betaInvites tag:producer'))
+      expect(parsed.segment).toBe('prefers:betaInvites tag:producer')
+    })
+
+    it('rejects unknown segments', () => {
+      expect(() => parseBroadcast(broadcast('subject: Hi\nsegment: everyone'))).toThrow('Invalid front matter: segment')
+    })
+
+    it('rejects malformed YAML', () => {
+      expect(() => parseBroadcast(broadcast('subject: [unclosed'))).toThrow(/not valid YAML/)
+    })
+
+    it('rejects an empty body', () => {
+      expect(() => parseBroadcast(broadcast('subject: Hi', '  '))).toThrow('Broadcast body is empty')
+    })
+  })
+
+  describe('renderMarkdown', () => {
+    it('escapes raw HTML instead of passing it through', () => {
+      expect(renderMarkdown('<script>alert(1)</script>')).toContain('&lt;script&gt;')
+    })
+
+    it('inlines styles on links, lists and code blocks', () => {
+      const html = renderMarkdown('- [Orbit](https://hoopaudio.com)\n\n```\nplay()\n```')
+
+      expect(html).toContain('<a href="https://hoopaudio.com" style="color: #fb923c; text-decoration: underline;">Orbit</a>')
+      expect(html).toContain('<ul style="margin: 0 0 16px 0; padding-left: 24px;">')
+      expect(html).toMatch(/<pre style="[^"]+"><code style="[^"]+">play\(\)\n<\/code><\/pre>/)
+    })
+  })
+
+  describe('composeBroadcastEmail', () => {
+    it('wraps the broadcast in the broadcast template', () => {
+      const parsed = parseBroadcast(broadcast('subject: Big news\npreheader: Read this'))
+      const email = composeBroadcastEmail(parsed, 'https://hoopaudio.com/api/unsubscribe?token=abc')
+
+      expect(email.subject).toBe('Big news')
+      expect(email.html).toContain(parsed.html)
+      expect(email.html).toContain('Read this')
+      expect(email.text).toContain('Hello world')
+      expect(email.text).toContain('Unsubscribe: https://hoopaudio.com/api/unsubscribe?token=abc')
+    })
+  })
+})
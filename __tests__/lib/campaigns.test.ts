@@ -0,0 +1,318 @@
+import {
+  createCampaign,
+  deliverCampaign,
+  dispatchDueCampaigns,
+  getCampaign,
+  getCampaignStats,
+  scheduleCampaign,
+} from '@/lib/campaigns'
+import type { BatchResponse, EmailBatch, SendLimits } from '@/lib/batch-send'
+import type { Broadcast } from '@/lib/broadcast'
+import type { Firestore } from 'firebase-admin/firestore'
+import { createFakeFirestore, type Doc } from '@/__tests__/helpers/fake-firestore'
+
+jest.mock('firebase-admin/firestore', () => ({
+  FieldValue: jest.requireActual('@/__tests__/helpers/fake-firestore').fakeFieldValue,
+}))
+
+const broadcast: Broadcast = {
+  subject: 'Big news',
+  title: 'Orbit beta',
+  segment: 'all',
+  html: '<p>Hello</p>',
+  text: 'Hello',
+}
+
+const limits: SendLimits = { requestsPerSecond: 1000, batchSize: 2, concurrency: 1, maxRetries: 0 }
+
+// Accepts every email except those listed in `failures`
+const createSend = (failures: Record<string, string> = {}) =>
+  jest.fn(async ({ emails }: EmailBatch): Promise<BatchResponse> => ({
+    ok: true,
+    results: emails.map(({ to }) => (failures[to] ? { error: failures[to] } : { id: `msg-${to}` })),
+  }))
+
+const sentTo = (send: ReturnType<typeof createSend>) =>
+  send.mock.calls.flatMap(([batch]) => batch.emails.map(email => email.to))
+
+const recipients = [
+  { id: 'sub-1', email: 'one@example.com' },
+  { id: 'sub-2', email: 'two@example.com' },
+  { id: 'sub-3', email: 'three@example.com' },
+]
+
+describe('lib/campaigns', () => {
+  let db: Firestore
+  let store: Map<string, Doc>
+
+  beforeEach(() => {
+    ({ db, store } = createFakeFirestore())
+    for (const recipient of recipients) {
+      store.set(`email_subscribers/${recipient.id}`, { email: recipient.email, status: 'active' })
+    }
+  })
+
+  describe('createCampaign', () => {
+    it('stores the content and a pending delivery per recipient', async () => {
+      expect(await createCampaign(db, 'launch', broadcast, recipients)).toBe(true)
+
+      const campaign = await getCampaign(db, 'launch')
+      expect(campaign).toMatchObject({
+        id: 'launch',
+        subject: 'Big news',
+        html: '<p>Hello</p>',
+        status: 'sending',
+        recipientCount: 3,
+        recipientsRecorded: true,
+      })
+      expect(store.get('campaigns/launch/deliveries/sub-2')).toMatchObject({
+        email: 'two@example.com',
+        status: 'pending',
+        attempts: 0,
+      })
+    })
+
+    it('leaves an existing campaign alone', async () => {
+      await createCampaign(db, 'launch', broadcast, recipients)
+      store.set('campaigns/launch/deliveries/sub-1', { email: 'one@example.com', status: 'sent' })
+
+      expect(await createCampaign(db, 'launch', { ...broadcast, subject: 'Edited' }, recipients.slice(0, 1))).toBe(false)
+      expect((await getCampaign(db, 'launch'))?.subject).toBe('Big news')
+      expect(store.get('campaigns/launch/deliveries/sub-1')?.status).toBe('sent')
+    })
+
+    it('rejects IDs that cannot be sent as a Resend tag', async () => {
+      await expect(createCampaign(db, 'spring launch', broadcast, recipients)).rejects.toThrow('Invalid campaign ID')
+      expect(store.has('campaigns/spring launch')).toBe(false)
+    })
+
+    it('records recipients again if an earlier run stopped before finishing', async () => {
+      store.set('campaigns/launch', { ...broadcast, status: 'sending', recipientCount: 3, recipientsRecorded: false })
+
+      expect(await createCampaign(db, 'launch', broadcast, recipients)).toBe(false)
+      expect((await getCampaignStats(db, 'launch')).pending).toBe(3)
+      expect((await getCampaign(db, 'launch'))?.recipientsRecorded).toBe(true)
+    })
+  })
+
+  describe('deliverCampaign', () => {
+    it('sends every pending delivery in batches', async () => {
+      await createCampaign(db, 'launch', broadcast, recipients)
+      const send = createSend()
+
+      const stats = await deliverCampaign(db, 'launch', { send, limits })
+
+      expect(send).toHaveBeenCalledTimes(2)
+      const [[first], [second]] = send.mock.calls
+      expect(first.emails).toHaveLength(2)
+      expect(first.emails[0]).toMatchObject({
+        to: 'one@example.com',
+        subject: 'Big news',
+        headers: expect.objectContaining({ 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }),
+        tags: [{ name: 'subscriber_id', value: 'sub-1' }, { name: 'campaign_id', value: 'launch' }],
+      })
+      expect(first.idempotencyKey).toMatch(/^campaign\/launch\//)
+      expect(second.idempotencyKey).not.toBe(first.idempotencyKey)
+      expect(stats).toMatchObject({ sent: 3, failed: 0, pending: 0 })
+      expect(store.get('campaigns/launch/deliveries/sub-1')).toMatchObject({
+        status: 'sent',
+        messageId: 'msg-one@example.com',
+        batchKey: first.idempotencyKey,
+        attempts: 1,
+      })
+      expect(store.get('campaigns/launch')).toMatchObject({ status: 'completed', completedAt: expect.any(String) })
+    })
+
+    it('skips recipients who are no longer active', async () => {
+      await createCampaign(db, 'launch', broadcast, recipients)
+      store.set('email_subscribers/sub-2', { email: 'two@example.com', status: 'unsubscribed' })
+      const send = createSend()
+
+      const stats = await deliverCampaign(db, 'launch', { send, limits })
+
+      expect(sentTo(send)).toEqual(['one@example.com', 'three@example.com'])
+      expect(stats).toMatchObject({ sent: 2, skipped: 1 })
+      expect(store.get('campaigns/launch/deliveries/sub-2')?.status).toBe('skipped')
+    })
+
+    it('records per-recipient failures and leaves the campaign incomplete', async () => {
+      await createCampaign(db, 'launch', broadcast, recipients)
+      const send = createSend({ 'two@example.com': 'Invalid `to` field' })
+
+      const stats = await deliverCampaign(db, 'launch', { send, limits })
+
+      expect(stats).toMatchObject({ sent: 2, failed: 1 })
+      expect(store.get('campaigns/launch/deliveries/sub-2')).toMatchObject({ status: 'failed', error: 'Invalid `to` field' })
+      expect(store.get('campaigns/launch')?.status).toBe('incomplete')
+    })
+
+    it('fails the whole batch when the request fails', async () => {
+      await createCampaign(db, 'launch', broadcast, recipients)
+      const send = jest.fn(async (): Promise<BatchResponse> => ({ ok: false, status: 422, message: 'Invalid from address' }))
+
+      const stats = await deliverCampaign(db, 'launch', { send, limits })
+
+      expect(stats).toMatchObject({ sent: 0, failed: 3 })
+      expect(store.get('campaigns/launch/deliveries/sub-3')?.error).toBe('Invalid from address')
+    })
+
+    it('resends an interrupted batch under its original key without resending sent deliveries', async () => {
+      await createCampaign(db, 'launch', broadcast, recipients)
+      store.set('campaigns/launch/deliveries/sub-1', { email: 'one@example.com', status: 'sent' })
+      store.set('campaigns/launch/deliveries/sub-2', { email: 'two@example.com', status: 'sending', batchKey: 'campaign/launch/crashed', attempts: 1 })
+      const send = createSend()
+
+      await deliverCampaign(db, 'launch', { send, limits })
+
+      expect(send.mock.calls.map(([batch]) => [batch.idempotencyKey, batch.emails.map(email => email.to)])).toEqual([
+        ['campaign/launch/crashed', ['two@example.com']],
+        [expect.stringMatching(/^campaign\/launch\//), ['three@example.com']],
+      ])
+      expect(store.get('campaigns/launch/deliveries/sub-2')?.attempts).toBe(2)
+    })
+
+    it('resends an interrupted batch byte for byte, to every original recipient', async () => {
+      await createCampaign(db, 'launch', broadcast, recipients)
+      // Crash while recording the first batch's outcome, after it went out
+      const batch = jest.spyOn(db, 'batch')
+      const crashed = jest.fn(async ({ emails }: EmailBatch): Promise<BatchResponse> => {
+        batch.mockImplementation(() => { throw new Error('Crashed') })
+        return { ok: true, results: emails.map(({ to }) => ({ id: `msg-${to}` })) }
+      })
+      await expect(deliverCampaign(db, 'launch', { send: crashed, limits })).rejects.toThrow('Crashed')
+      batch.mockRestore()
+      store.set('email_subscribers/sub-2', { email: 'two@example.com', status: 'unsubscribed' })
+      const send = createSend()
+
+      // Resumed a minute later, so anything time-based in the emails would differ
+      const dateNowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60_000)
+      try {
+        await deliverCampaign(db, 'launch', { send, limits })
+      } finally {
+        dateNowSpy.mockRestore()
+      }
+
+      expect(JSON.stringify(send.mock.calls[0][0])).toBe(JSON.stringify(crashed.mock.calls[0][0]))
+      expect(store.get('campaigns/launch/deliveries/sub-1')?.status).toBe('sent')
+      expect(store.get('campaigns/launch/deliveries/sub-2')?.status).toBe('skipped')
+      expect(sentTo(send)).toEqual(['one@example.com', 'two@example.com', 'three@example.com'])
+    })
+
+    it('records a batch Resend had already accepted under its key as sent', async () => {
+      await createCampaign(db, 'launch', broadcast, recipients)
+      store.set('campaigns/launch/deliveries/sub-1', { email: 'one@example.com', status: 'sending', batchKey: 'campaign/launch/crashed', attempts: 1 })
+      const send = jest.fn(async (batch: EmailBatch): Promise<BatchResponse> => (
+        batch.idempotencyKey === 'campaign/launch/crashed'
+          ? { ok: false, status: 409, message: 'Same idempotency key used with a different request payload' }
+          : { ok: true, results: batch.emails.map(({ to }) => ({ id: `msg-${to}` })) }
+      ))
+
+      await deliverCampaign(db, 'launch', { send, limits })
+      const stats = await deliverCampaign(db, 'launch', { send, limits, retryFailed: true })
+
+      expect(store.get('campaigns/launch/deliveries/sub-1')).toMatchObject({ status: 'sent' })
+      expect(store.get('campaigns/launch/deliveries/sub-1')).not.toHaveProperty('messageId')
+      expect(stats).toMatchObject({ sent: 3, failed: 0 })
+      expect(send).toHaveBeenCalledTimes(2)
+    })
+
+    it('only retries failed deliveries when asked to', async () => {
+      await createCampaign(db, 'launch', broadcast, recipients)
+      for (const recipient of recipients) {
+        store.set(`campaigns/launch/deliveries/${recipient.id}`, { email: recipient.email, status: 'failed', error: 'Timeout' })
+      }
+      const send = createSend()
+
+      await deliverCampaign(db, 'launch', { send, limits })
+      expect(send).not.toHaveBeenCalled()
+
+      const stats = await deliverCampaign(db, 'launch', { send, limits, retryFailed: true })
+      expect(sentTo(send)).toHaveLength(3)
+      expect(stats).toMatchObject({ sent: 3, failed: 0 })
+      expect(store.get('campaigns/launch/deliveries/sub-1')?.error).toBeUndefined()
+    })
+
+    it('refuses to send a campaign that does not exist', async () => {
+      await expect(deliverCampaign(db, 'missing', { send: createSend(), limits })).rejects.toThrow('Campaign missing not found')
+    })
+  })
+  describe('scheduled campaigns', () => {
+    const now = new Date('2026-05-01T09:05:00.000Z')
+
+    it('stores the schedule without resolving recipients', async () => {
+      expect(await scheduleCampaign(db, 'may', broadcast, new Date('2026-05-01T09:00:00Z'))).toBe(true)
+      expect(await scheduleCampaign(db, 'may', broadcast, new Date('2026-06-01T09:00:00Z'))).toBe(false)
+
+      expect(await getCampaign(db, 'may')).toMatchObject({
+        status: 'scheduled',
+        sendAt: '2026-05-01T09:00:00.000Z',
+        recipientsRecorded: false,
+      })
+      expect((await getCampaignStats(db, 'may')).pending).toBe(0)
+    })
+
+    it('sends due campaigns to the segment as it is when they become due', async () => {
+      await scheduleCampaign(db, 'may', { ...broadcast, segment: 'prefers:productUpdates' }, new Date('2026-05-01T09:00:00Z'))
+      await scheduleCampaign(db, 'june', broadcast, new Date('2026-06-01T09:00:00Z'))
+      store.set('email_subscribers/sub-4', { email: 'four@example.com', status: 'active' })
+      store.set('email_subscribers/sub-5', { email: 'five@example.com', status: 'active', preferences: { productUpdates: false } })
+      const send = createSend()
+
+      const results = await dispatchDueCampaigns(db, { send, limits, maxDeliveries: 100, now })
+
+      expect(results).toEqual([{ campaignId: 'may', status: 'completed', sent: 4, failed: 0, skipped: 0, remaining: 0 }])
+      expect(sentTo(send)).toHaveLength(4)
+      expect(sentTo(send)).not.toContain('five@example.com')
+      expect(store.get('campaigns/june')?.status).toBe('scheduled')
+      expect(store.get('campaigns/may')?.lockedUntil).toBeUndefined()
+    })
+
+    it('spreads a campaign over several runs', async () => {
+      await scheduleCampaign(db, 'may', broadcast, new Date('2026-05-01T09:00:00Z'))
+      const send = createSend()
+
+      const [first] = await dispatchDueCampaigns(db, { send, limits, maxDeliveries: 2, now })
+      expect(first).toMatchObject({ status: 'sending', sent: 2, remaining: 1 })
+
+      const [second] = await dispatchDueCampaigns(db, { send, limits, maxDeliveries: 2, now })
+      expect(second).toMatchObject({ status: 'completed', sent: 1, remaining: 0 })
+      expect(new Set(sentTo(send)).size).toBe(3)
+
+      expect(await dispatchDueCampaigns(db, { send, limits, maxDeliveries: 2, now })).toEqual([])
+    })
+
+    it('records a failing campaign and still sends the ones after it', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {})
+      await scheduleCampaign(db, 'april', broadcast, new Date('2026-04-01T09:00:00Z'))
+      store.set('campaigns/april', { ...store.get('campaigns/april'), segment: 'nonsense:query' })
+      await scheduleCampaign(db, 'may', broadcast, new Date('2026-05-01T09:00:00Z'))
+      const send = createSend()
+
+      const results = await dispatchDueCampaigns(db, { send, limits, maxDeliveries: 100, now })
+
+      expect(results).toEqual([
+        { campaignId: 'april', status: 'scheduled', sent: 0, failed: 0, skipped: 0, error: expect.any(String) },
+        { campaignId: 'may', status: 'completed', sent: 3, failed: 0, skipped: 0, remaining: 0 },
+      ])
+      expect(store.get('campaigns/april')).toMatchObject({ status: 'scheduled', lastError: expect.any(String), lastErrorAt: now.toISOString() })
+      expect(store.get('campaigns/april')?.lockedUntil).toBeUndefined()
+    })
+
+    it('skips campaigns another run is working on', async () => {
+      await scheduleCampaign(db, 'may', broadcast, new Date('2026-05-01T09:00:00Z'))
+      store.set('campaigns/may', { ...store.get('campaigns/may'), lockedUntil: '2026-05-01T09:10:00.000Z' })
+      const send = createSend()
+
+      expect(await dispatchDueCampaigns(db, { send, limits, maxDeliveries: 100, now })).toEqual([])
+      expect(send).not.toHaveBeenCalled()
+    })
+
+    it('leaves campaigns started from the CLI alone', async () => {
+      await createCampaign(db, 'launch', broadcast, recipients)
+      const send = createSend()
+
+      expect(await dispatchDueCampaigns(db, { send, limits, maxDeliveries: 100, now })).toEqual([])
+      expect(send).not.toHaveBeenCalled()
+    })
+  })
+})
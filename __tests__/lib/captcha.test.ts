@@ -0,0 +1,129 @@
+import {
+  createFakeCaptchaVerifier,
+  createHCaptchaVerifier,
+  createTurnstileVerifier,
+  getCaptchaVerifier,
+} from '@/lib/captcha'
+
+const mockFetch = (body: unknown, status = 200) =>
+  jest.fn(() => Promise.resolve({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+  })) as unknown as jest.Mock & typeof fetch
+
+describe('lib/captcha', () => {
+  const originalEnv = { ...process.env }
+
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  describe('createTurnstileVerifier', () => {
+    it('posts the token to Cloudflare siteverify', async () => {
+      const fetchImpl = mockFetch({ success: true })
+      const verifier = createTurnstileVerifier('turnstile-secret', fetchImpl)
+
+      const result = await verifier.verify('widget-token', '203.0.113.7')
+
+      expect(result).toEqual({ success: true, errorCodes: [] })
+      const [url, init] = fetchImpl.mock.calls[0]
+      expect(url).toBe('https://challenges.cloudflare.com/turnstile/v0/siteverify')
+      expect(Object.fromEntries(new URLSearchParams(init.body))).toEqual({
+        secret: 'turnstile-secret',
+        response: 'widget-token',
+        remoteip: '203.0.113.7',
+      })
+    })
+
+    it('reports provider error codes', async () => {
+      const fetchImpl = mockFetch({ success: false, 'error-codes': ['timeout-or-duplicate'] })
+      const verifier = createTurnstileVerifier('turnstile-secret', fetchImpl)
+
+      expect(await verifier.verify('used-token')).toEqual({
+        success: false,
+        errorCodes: ['timeout-or-duplicate'],
+      })
+    })
+
+    it('omits unknown client IPs', async () => {
+      const fetchImpl = mockFetch({ success: true })
+      const verifier = createTurnstileVerifier('turnstile-secret', fetchImpl)
+
+      await verifier.verify('widget-token', 'unknown')
+
+      const [, init] = fetchImpl.mock.calls[0]
+      expect(new URLSearchParams(init.body).has('remoteip')).toBe(false)
+    })
+
+    it('throws when siteverify is unavailable', async () => {
+      const verifier = createTurnstileVerifier('turnstile-secret', mockFetch({}, 503))
+
+      await expect(verifier.verify('widget-token')).rejects.toThrow('turnstile siteverify failed with status 503')
+    })
+  })
+
+  describe('createHCaptchaVerifier', () => {
+    it('posts the token to hCaptcha siteverify', async () => {
+      const fetchImpl = mockFetch({ success: true })
+      const verifier = createHCaptchaVerifier('hcaptcha-secret', fetchImpl)
+
+      await verifier.verify('widget-token')
+
+      expect(fetchImpl.mock.calls[0][0]).toBe('https://api.hcaptcha.com/siteverify')
+    })
+  })
+
+  describe('createFakeCaptchaVerifier', () => {
+    it('accepts only the configured token', async () => {
+      const verifier = createFakeCaptchaVerifier('let-me-in')
+
+      expect((await verifier.verify('let-me-in')).success).toBe(true)
+      expect((await verifier.verify('pass')).success).toBe(false)
+    })
+  })
+
+  describe('getCaptchaVerifier', () => {
+    it('returns null when no provider is configured', () => {
+      delete process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER
+
+      expect(getCaptchaVerifier()).toBeNull()
+    })
+
+    it('builds the configured provider', () => {
+      process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER = 'hcaptcha'
+      process.env.NEXT_PUBLIC_CAPTCHA_SITE_KEY = 'hcaptcha-site-key'
+      process.env.CAPTCHA_SECRET_KEY = 'hcaptcha-secret'
+
+      expect(getCaptchaVerifier()?.provider).toBe('hcaptcha')
+    })
+
+    it('skips verification when the page has no site key to render the widget with', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+      process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER = 'hcaptcha'
+      process.env.CAPTCHA_SECRET_KEY = 'hcaptcha-secret'
+      delete process.env.NEXT_PUBLIC_CAPTCHA_SITE_KEY
+
+      expect(getCaptchaVerifier()).toBeNull()
+      consoleSpy.mockRestore()
+    })
+
+    it('skips verification when the secret is missing', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+      process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER = 'turnstile'
+      delete process.env.CAPTCHA_SECRET_KEY
+
+      expect(getCaptchaVerifier()).toBeNull()
+      consoleSpy.mockRestore()
+    })
+
+    it('never uses the fake provider in production', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+      process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER = 'fake'
+      Object.assign(process.env, { NODE_ENV: 'production' })
+
+      expect(getCaptchaVerifier()).toBeNull()
+      consoleSpy.mockRestore()
+    })
+  })
+})
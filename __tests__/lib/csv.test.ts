@@ -0,0 +1,37 @@
+import { parseCsv, toCsvLine } from '@/lib/csv'
+
+describe('lib/csv', () => {
+  it('quotes cells with commas, quotes and line breaks', () => {
+    expect(toCsvLine(['plain', 'a,b', 'say "hi"', 'two\nlines', undefined, 3])).toBe(
+      'plain,"a,b","say ""hi""","two\nlines",,3\r\n'
+    )
+  })
+
+  it('neutralizes cells that spreadsheets would run as formulas', () => {
+    expect(toCsvLine(['=HYPERLINK("x")', '+1', '@cmd'])).toBe(`"'=HYPERLINK(""x"")",'+1,'@cmd\r\n`)
+  })
+
+  it('parses rows into objects keyed by the header', () => {
+    const csv = 'email,source\r\nada@example.com,"landing, page"\nbob@example.com,"say ""hi"""\n\n'
+
+    expect(parseCsv(csv)).toEqual([
+      { email: 'ada@example.com', source: 'landing, page' },
+      { email: 'bob@example.com', source: 'say "hi"' },
+    ])
+  })
+
+  it('round-trips its own output', () => {
+    const values = ['=SUM(A1)', 'multi\r\nline', '"quoted"', '']
+    const csv = toCsvLine(['a', 'b', 'c', 'd']) + toCsvLine(values)
+
+    expect(parseCsv(csv)).toEqual([{ a: '=SUM(A1)', b: 'multi\r\nline', c: '"quoted"', d: '' }])
+  })
+
+  it('ignores a byte order mark and fills in missing cells', () => {
+    expect(parseCsv('\uFEFFemail,source\nada@example.com')).toEqual([{ email: 'ada@example.com', source: '' }])
+  })
+
+  it('rejects unterminated quotes', () => {
+    expect(() => parseCsv('email\n"ada@example.com')).toThrow('Unterminated quoted field')
+  })
+})
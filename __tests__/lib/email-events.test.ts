@@ -0,0 +1,125 @@
+import { getEmailTags, recordEmailEvent } from '@/lib/email-events'
+import { getSubscriberId } from '@/lib/subscribers'
+import type { Firestore } from 'firebase-admin/firestore'
+import { createFakeFirestore, type Doc } from '@/__tests__/helpers/fake-firestore'
+
+jest.mock('firebase-admin/firestore', () => ({
+  FieldValue: jest.requireActual('@/__tests__/helpers/fake-firestore').fakeFieldValue,
+}))
+
+const event = (type: string, data: Doc = {}, createdAt = '2026-04-15T12:00:00.000Z') => ({
+  type,
+  created_at: createdAt,
+  data: {
+    email_id: 'msg-1',
+    to: ['one@example.com'],
+    tags: { subscriber_id: 'sub-1', campaign_id: 'launch' },
+    ...data,
+  },
+})
+
+describe('lib/email-events', () => {
+  let db: Firestore
+  let store: Map<string, Doc>
+
+  beforeEach(() => {
+    ({ db, store } = createFakeFirestore())
+    store.set('email_subscribers/sub-1', { email: 'one@example.com', status: 'active' })
+    store.set('campaigns/launch', { subject: 'Big news' })
+    store.set('campaigns/launch/deliveries/sub-1', { email: 'one@example.com', status: 'sent' })
+  })
+
+  describe('getEmailTags', () => {
+    it('tags the subscriber and, when it is a valid tag value, the campaign', () => {
+      expect(getEmailTags({ subscriberId: 'sub-1', campaignId: 'launch' })).toEqual([
+        { name: 'subscriber_id', value: 'sub-1' },
+        { name: 'campaign_id', value: 'launch' },
+      ])
+      expect(getEmailTags({ subscriberId: 'sub-1', campaignId: 'spring.launch' })).toEqual([
+        { name: 'subscriber_id', value: 'sub-1' },
+      ])
+    })
+  })
+
+  describe('recordEmailEvent', () => {
+    it('logs the event and counts the first one per delivery on the campaign', async () => {
+      expect(await recordEmailEvent(db, 'evt-1', event('email.delivered'))).toBe('recorded')
+      expect(await recordEmailEvent(db, 'evt-2', event('email.delivered'))).toBe('recorded')
+
+      expect(store.get('email_events/evt-1')).toMatchObject({
+        type: 'delivered',
+        emailId: 'msg-1',
+        subscriberId: 'sub-1',
+        campaignId: 'launch',
+      })
+      expect(store.get('campaigns/launch/deliveries/sub-1')).toMatchObject({ deliveredAt: '2026-04-15T12:00:00.000Z' })
+      expect(store.get('campaigns/launch')).toMatchObject({ events: { delivered: 1 } })
+    })
+
+    it('ignores a retried event with the same ID', async () => {
+      await recordEmailEvent(db, 'evt-1', event('email.clicked', { click: { link: 'https://example.com' } }))
+
+      expect(await recordEmailEvent(db, 'evt-1', event('email.clicked'))).toBe('duplicate')
+      expect(store.get('campaigns/launch')).toMatchObject({ events: { clicked: 1 } })
+    })
+
+    it('tracks the latest open and click on the subscriber', async () => {
+      await recordEmailEvent(db, 'evt-1', event('email.opened', {}, '2026-04-15T12:00:00.000Z'))
+      await recordEmailEvent(db, 'evt-2', event('email.opened', {}, '2026-04-14T12:00:00.000Z'))
+      await recordEmailEvent(db, 'evt-3', event('email.clicked'))
+
+      expect(store.get('email_subscribers/sub-1')).toMatchObject({
+        status: 'active',
+        lastOpenedAt: '2026-04-15T12:00:00.000Z',
+        lastClickedAt: '2026-04-15T12:00:00.000Z',
+      })
+    })
+
+    it('marks the subscriber bounced after a permanent bounce', async () => {
+      await recordEmailEvent(db, 'evt-1', event('email.bounced', { bounce: { type: 'Permanent', message: 'No such user' } }))
+
+      expect(store.get('email_subscribers/sub-1')).toMatchObject({
+        status: 'bounced',
+        bouncedAt: '2026-04-15T12:00:00.000Z',
+        history: [expect.objectContaining({ event: 'bounced' })],
+      })
+      expect(store.get('campaigns/launch')).toMatchObject({ events: { bounced: 1 } })
+    })
+
+    it('keeps the subscriber active after a transient bounce', async () => {
+      await recordEmailEvent(db, 'evt-1', event('email.bounced', { bounce: { type: 'Transient' } }))
+
+      expect(store.get('email_subscribers/sub-1')).toMatchObject({ status: 'active' })
+      expect(store.get('email_events/evt-1')).toMatchObject({ bounceType: 'Transient' })
+    })
+
+    it('marks the subscriber complained, which outranks every other status', async () => {
+      store.set('email_subscribers/sub-1', { email: 'one@example.com', status: 'unsubscribed' })
+
+      await recordEmailEvent(db, 'evt-1', event('email.complained'))
+      await recordEmailEvent(db, 'evt-2', event('email.bounced', { bounce: { type: 'Permanent' } }))
+
+      expect(store.get('email_subscribers/sub-1')).toMatchObject({ status: 'complained' })
+      expect(store.get('email_subscribers/sub-1')?.history).toHaveLength(1)
+    })
+
+    it('finds untagged emails by the recipient address', async () => {
+      const subscriberId = getSubscriberId('two@example.com')
+      store.set(`email_subscribers/${subscriberId}`, { email: 'Two@Example.com', status: 'pending' })
+
+      await recordEmailEvent(db, 'evt-1', event('email.complained', { to: ['Two@Example.com'], tags: undefined }))
+
+      expect(store.get(`email_subscribers/${subscriberId}`)).toMatchObject({ status: 'complained' })
+      expect(store.get('email_events/evt-1')).not.toHaveProperty('campaignId')
+    })
+
+    it('skips event types it does not track', async () => {
+      expect(await recordEmailEvent(db, 'evt-1', { type: 'contact.created', data: {} })).toBe('ignored')
+      expect(store.has('email_events/evt-1')).toBe(false)
+    })
+
+    it('rejects malformed email events', async () => {
+      await expect(recordEmailEvent(db, 'evt-1', { type: 'email.bounced', data: {} })).rejects.toThrow()
+    })
+  })
+})
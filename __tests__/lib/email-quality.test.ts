@@ -0,0 +1,120 @@
+import { assessEmail, isDisposableDomain, isRoleAccount, normalizeEmail } from '@/lib/email-quality'
+
+describe('lib/email-quality', () => {
+  describe('normalizeEmail', () => {
+    it('lowercases and trims addresses', () => {
+      expect(normalizeEmail('  Producer@Example.COM ')).toBe('producer@example.com')
+    })
+
+    it('removes dots and plus tags from Gmail addresses', () => {
+      expect(normalizeEmail('J.Doe+music@gmail.com')).toBe('jdoe@gmail.com')
+    })
+
+    it('treats googlemail.com as gmail.com', () => {
+      expect(normalizeEmail('j.doe@googlemail.com')).toBe('jdoe@gmail.com')
+    })
+
+    it('leaves other providers untouched', () => {
+      expect(normalizeEmail('j.doe+music@example.com')).toBe('j.doe+music@example.com')
+    })
+  })
+
+  describe('isDisposableDomain', () => {
+    it('matches bundled disposable domains', () => {
+      expect(isDisposableDomain('mailinator.com')).toBe(true)
+      expect(isDisposableDomain('YOPMAIL.COM')).toBe(true)
+    })
+
+    it('matches subdomains of disposable domains', () => {
+      expect(isDisposableDomain('inbox.mailinator.com')).toBe(true)
+    })
+
+    it('does not match regular domains', () => {
+      expect(isDisposableDomain('gmail.com')).toBe(false)
+      expect(isDisposableDomain('notmailinator.com')).toBe(false)
+    })
+  })
+
+  describe('isRoleAccount', () => {
+    it('flags shared mailboxes', () => {
+      expect(isRoleAccount('admin@example.com')).toBe(true)
+      expect(isRoleAccount('Info@example.com')).toBe(true)
+      expect(isRoleAccount('noreply+bounce@example.com')).toBe(true)
+    })
+
+    it('does not flag personal addresses', () => {
+      expect(isRoleAccount('adminah@example.com')).toBe(false)
+      expect(isRoleAccount('jane@example.com')).toBe(false)
+    })
+  })
+
+  describe('assessEmail', () => {
+    it('accepts good addresses and returns the normalized form', async () => {
+      expect(await assessEmail('J.Doe@Gmail.com')).toEqual({
+        ok: true,
+        email: 'j.doe@gmail.com',
+        normalizedEmail: 'jdoe@gmail.com',
+        roleAccount: false,
+      })
+    })
+
+    it('rejects disposable addresses', async () => {
+      expect(await assessEmail('test@mailinator.com')).toEqual({
+        ok: false,
+        reason: 'disposable-domain',
+        message: expect.stringMatching(/disposable/i),
+      })
+    })
+
+    it('accepts role accounts and flags them', async () => {
+      expect(await assessEmail('noreply@example.com')).toMatchObject({ ok: true, roleAccount: true })
+    })
+
+    it('skips the MX lookup unless asked', async () => {
+      const resolveMx = jest.fn()
+
+      await assessEmail('jane@example.com', { resolveMx })
+
+      expect(resolveMx).not.toHaveBeenCalled()
+    })
+
+    it('accepts domains with MX records', async () => {
+      const resolveMx = jest.fn().mockResolvedValue([{ exchange: 'mx.example.com', priority: 10 }])
+
+      expect(await assessEmail('jane@example.com', { checkMx: true, resolveMx })).toMatchObject({ ok: true })
+      expect(resolveMx).toHaveBeenCalledWith('example.com')
+    })
+
+    it('rejects domains that do not exist', async () => {
+      const resolveMx = jest.fn().mockRejectedValue(Object.assign(new Error('queryMx ENOTFOUND'), { code: 'ENOTFOUND' }))
+
+      expect(await assessEmail('jane@exmaple.con', { checkMx: true, resolveMx })).toMatchObject({
+        ok: false,
+        reason: 'no-mx-record',
+      })
+    })
+
+    it('rejects domains without MX records', async () => {
+      const resolveMx = jest.fn().mockResolvedValue([])
+
+      expect(await assessEmail('jane@example.com', { checkMx: true, resolveMx })).toMatchObject({
+        ok: false,
+        reason: 'no-mx-record',
+      })
+    })
+
+    it('fails open when DNS errors out', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+      const resolveMx = jest.fn().mockRejectedValue(Object.assign(new Error('queryMx ESERVFAIL'), { code: 'ESERVFAIL' }))
+
+      expect(await assessEmail('jane@example.com', { checkMx: true, resolveMx })).toMatchObject({ ok: true })
+      consoleSpy.mockRestore()
+    })
+
+    it('fails open when DNS is slow', async () => {
+      const resolveMx = jest.fn(() => new Promise<never>(() => {}))
+
+      expect(await assessEmail('jane@example.com', { checkMx: true, resolveMx, mxTimeoutMs: 10 })).toMatchObject({ ok: true })
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import { escapeHtml, htmlToText, renderEmail } from '@/lib/email-templates'
+import { CONFIRM_TOKEN_TTL_SECONDS } from '@/lib/tokens'
+
+describe('lib/email-templates', () => {
+  describe('escapeHtml', () => {
+    it('escapes markup and quotes', () => {
+      expect(escapeHtml(`<script>alert("x")</script> & 'y'`)).toBe(
+        '&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &#39;y&#39;'
+      )
+    })
+  })
+
+  describe('htmlToText', () => {
+    it('keeps paragraphs, line breaks and link targets', () => {
+      const text = htmlToText('<p>Hello <strong>there</strong></p><p>Line one<br>Line two</p><p><a href="https://example.com">Read more</a></p>')
+
+      expect(text).toBe('Hello there\n\nLine one\nLine two\n\nRead more [https://example.com]')
+    })
+
+    it('decodes entities', () => {
+      expect(htmlToText('Tom &amp; Jerry &lt;3')).toBe('Tom & Jerry <3')
+    })
+  })
+
+  describe('renderEmail', () => {
+    const unsubscribeUrl = 'https://hoopaudio.com/api/unsubscribe?token=abc'
+
+    it('renders the confirmation email with both links', () => {
+      const email = renderEmail('confirm', {
+        confirmUrl: 'https://hoopaudio.com/api/subscribe/confirm?token=a&b',
+        waitlistUrl: 'https://hoopaudio.com/waitlist/xyz',
+        unsubscribeUrl,
+      })
+
+      expect(email.subject).toBe('Confirm your Orbit subscription')
+      expect(email.html).toContain('href="https://hoopaudio.com/api/subscribe/confirm?token=a&amp;b"')
+      expect(email.html).toContain('href="https://hoopaudio.com/waitlist/xyz"')
+      expect(email.html).toContain(`href="${unsubscribeUrl}"`)
+      expect(email.text).toContain('Confirm subscription: https://hoopaudio.com/api/subscribe/confirm?token=a&b')
+      expect(email.text).toContain(`This link expires in ${CONFIRM_TOKEN_TTL_SECONDS / (24 * 60 * 60)} days.`)
+      expect(email.text).toContain(`Unsubscribe: ${unsubscribeUrl}`)
+      expect(email.text).not.toContain('<')
+    })
+
+    it('shares the dark Orbit layout between templates', () => {
+      const welcome = renderEmail('welcome', { unsubscribeUrl })
+      const launch = renderEmail('launch', { launchUrl: 'https://hoopaudio.com/app', unsubscribeUrl })
+
+      for (const email of [welcome, launch]) {
+        expect(email.html).toContain('background-color: #0a0a0a')
+        expect(email.html).toContain('https://hoopaudio.com/ORBIT-WIREFRAME-LOGO.png')
+      }
+      expect(welcome.subject).toBe('Welcome to Orbit!')
+      expect(welcome.text).toContain("You're on the list!")
+      expect(launch.text).toContain('Get started: https://hoopaudio.com/app')
+    })
+
+    it('escapes broadcast variables but keeps the trusted body', () => {
+      const email = renderEmail('broadcast', {
+        subject: 'News & updates',
+        title: '<b>Big</b> news',
+        bodyHtml: '<p>We <em>shipped</em> it.</p>',
+        preheader: 'A quick "update"',
+        unsubscribeUrl,
+      })
+
+      expect(email.subject).toBe('News & updates')
+      expect(email.html).toContain('<title>News &amp; updates</title>')
+      expect(email.html).toContain('&lt;b&gt;Big&lt;/b&gt; news')
+      expect(email.html).toContain('<p>We <em>shipped</em> it.</p>')
+      expect(email.html).toContain('A quick &quot;update&quot;')
+      expect(email.text).toContain('<b>Big</b> news\n\nWe shipped it.')
+    })
+
+    it('renders the onboarding sequence emails', () => {
+      const producers = renderEmail('producers', { siteUrl: 'https://hoopaudio.com', unsubscribeUrl })
+      const survey = renderEmail('survey', { unsubscribeUrl })
+
+      expect(producers.subject).toBe('What Orbit does for producers')
+      expect(producers.text).toContain('Take a look at Orbit: https://hoopaudio.com')
+      expect(survey.text).toContain('reply to this email')
+      expect(survey.text).toContain(`Unsubscribe: ${unsubscribeUrl}`)
+    })
+
+    it('leaves the unsubscribe link out of admin sign-in emails', () => {
+      const email = renderEmail('adminLogin', { loginUrl: 'https://hoopaudio.com/api/admin/auth/verify?token=abc', expiresInMinutes: 15 })
+
+      expect(email.text).toContain('Sign in: https://hoopaudio.com/api/admin/auth/verify?token=abc')
+      expect(email.text).toContain('expires in 15 minutes')
+      expect(email.text).not.toContain('Unsubscribe')
+      expect(email.html).not.toContain('Unsubscribe')
+    })
+  })
+})
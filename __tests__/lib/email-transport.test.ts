@@ -0,0 +1,154 @@
+/**
+ * @jest-environment node
+ */
+// nodemailer relies on Node globals such as setImmediate, which jsdom lacks
+
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import * as path from 'path'
+import {
+  createEmailTransport,
+  createFileTransport,
+  createResendTransport,
+  createSmtpTransport,
+  getFromAddress,
+} from '@/lib/email-transport'
+
+const email = (to: string) => ({
+  to,
+  subject: 'Hi there',
+  html: '<p>Hi</p>',
+  text: 'Hi',
+  headers: { 'List-Unsubscribe': '<https://example.com/unsubscribe>' },
+  tags: [{ name: 'subscriber_id', value: 'sub-1' }],
+})
+
+describe('lib/email-transport', () => {
+  const originalEnv = process.env
+
+  beforeEach(() => {
+    process.env = { ...originalEnv }
+    delete process.env.EMAIL_TRANSPORT
+    delete process.env.RESEND_API_KEY
+  })
+
+  afterEach(() => {
+    process.env = originalEnv
+  })
+
+  describe('createEmailTransport', () => {
+    it('writes files unless Resend credentials are configured', () => {
+      expect(createEmailTransport().name).toBe('file')
+
+      process.env.RESEND_API_KEY = 're_test'
+      expect(createEmailTransport().name).toBe('resend')
+    })
+
+    it('refuses to fall back to files in production', () => {
+      Object.assign(process.env, { NODE_ENV: 'production' })
+      expect(() => createEmailTransport()).toThrow('Set EMAIL_TRANSPORT or RESEND_API_KEY')
+
+      process.env.EMAIL_TRANSPORT = 'file'
+      expect(createEmailTransport().name).toBe('file')
+    })
+
+    it('uses the transport named by EMAIL_TRANSPORT', () => {
+      process.env.RESEND_API_KEY = 're_test'
+      process.env.EMAIL_TRANSPORT = 'file'
+      expect(createEmailTransport().name).toBe('file')
+
+      process.env.EMAIL_TRANSPORT = 'smtp'
+      process.env.SMTP_URL = 'smtp://localhost:1025'
+      expect(createEmailTransport().name).toBe('smtp')
+    })
+
+    it('rejects unknown transports and SMTP without a URL', () => {
+      process.env.EMAIL_TRANSPORT = 'pigeon'
+      expect(() => createEmailTransport()).toThrow('Unknown EMAIL_TRANSPORT "pigeon"')
+
+      process.env.EMAIL_TRANSPORT = 'smtp'
+      delete process.env.SMTP_URL
+      expect(() => createEmailTransport()).toThrow('SMTP_URL must be set')
+    })
+  })
+
+  describe('getFromAddress', () => {
+    it('prefers EMAIL_FROM over the older RESEND_FROM_EMAIL', () => {
+      process.env.RESEND_FROM_EMAIL = 'Resend <resend@example.com>'
+      expect(getFromAddress()).toBe('Resend <resend@example.com>')
+
+      process.env.EMAIL_FROM = 'Orbit <hello@example.com>'
+      expect(getFromAddress()).toBe('Orbit <hello@example.com>')
+    })
+  })
+
+  describe('createResendTransport', () => {
+    it('sends through the Resend API and throws on errors', async () => {
+      const send = jest.fn()
+        .mockResolvedValueOnce({ data: { id: 'msg-1' }, error: null })
+        .mockResolvedValueOnce({ data: null, error: { message: 'Invalid `to` field' } })
+      const transport = createResendTransport({ emails: { send } } as never, 'Orbit <hello@example.com>')
+
+      expect(await transport.send(email('one@example.com'))).toBe('msg-1')
+      expect(send).toHaveBeenCalledWith(expect.objectContaining({ from: 'Orbit <hello@example.com>', tags: email('').tags }))
+      await expect(transport.send(email('bad@'))).rejects.toThrow('Invalid `to` field')
+    })
+  })
+
+  describe('createSmtpTransport', () => {
+    it('sends each email of a batch and reports failures per recipient', async () => {
+      const sendMail = jest.fn(async ({ to }: { to: string }) => {
+        if (to === 'bad@example.com') throw new Error('550 Mailbox unavailable')
+        return { messageId: `<${to}>` }
+      })
+      const transport = createSmtpTransport({ sendMail } as never, 'Orbit <hello@example.com>')
+
+      const response = await transport.sendBatch({
+        idempotencyKey: 'key-1',
+        emails: [email('one@example.com'), email('bad@example.com')],
+      })
+
+      expect(response).toEqual({
+        ok: true,
+        results: [{ id: '<one@example.com>' }, { error: '550 Mailbox unavailable' }],
+      })
+      expect(sendMail.mock.calls[0][0]).toEqual({
+        from: 'Orbit <hello@example.com>',
+        to: 'one@example.com',
+        subject: 'Hi there',
+        html: '<p>Hi</p>',
+        text: 'Hi',
+        headers: { 'List-Unsubscribe': '<https://example.com/unsubscribe>' },
+      })
+    })
+  })
+
+  describe('createFileTransport', () => {
+    let outputDir: string
+
+    beforeEach(() => {
+      outputDir = mkdtempSync(path.join(tmpdir(), 'orbit-emails-'))
+      jest.spyOn(console, 'log').mockImplementation(() => {})
+    })
+
+    afterEach(() => {
+      rmSync(outputDir, { recursive: true, force: true })
+      jest.restoreAllMocks()
+    })
+
+    it('writes each email as an .eml file', async () => {
+      const transport = createFileTransport(outputDir, 'Orbit <hello@example.com>')
+
+      const id = await transport.send(email('one@example.com'))
+
+      const files = readdirSync(outputDir)
+      expect(files).toEqual([expect.stringMatching(/one@example\.com\.eml$/)])
+      const message = readFileSync(path.join(outputDir, files[0]), 'utf8')
+      expect(message).toContain('From: Orbit <hello@example.com>')
+      expect(message).toContain('To: one@example.com')
+      expect(message).toContain('Subject: Hi there')
+      expect(message).toContain('List-Unsubscribe: <https://example.com/unsubscribe>')
+      expect(message).toContain(`Message-ID: ${id}`)
+    })
+  })
+})
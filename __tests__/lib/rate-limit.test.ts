@@ -0,0 +1,107 @@
+import { createFirestoreRateLimiter, createMemoryRateLimiter } from '@/lib/rate-limit'
+import type { Firestore } from 'firebase-admin/firestore'
+
+describe('lib/rate-limit', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('createMemoryRateLimiter', () => {
+    it('allows requests up to the limit', async () => {
+      const limiter = createMemoryRateLimiter({ limit: 3, windowMs: 60_000 })
+
+      expect(await limiter.consume('1.2.3.4')).toEqual({ allowed: true, remaining: 2, retryAfterSeconds: 0 })
+      expect(await limiter.consume('1.2.3.4')).toEqual({ allowed: true, remaining: 1, retryAfterSeconds: 0 })
+      expect(await limiter.consume('1.2.3.4')).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 })
+    })
+
+    it('rejects requests over the limit with a retry delay', async () => {
+      const limiter = createMemoryRateLimiter({ limit: 2, windowMs: 60_000 })
+
+      await limiter.consume('1.2.3.4')
+      await limiter.consume('1.2.3.4')
+      jest.advanceTimersByTime(15_000)
+
+      expect(await limiter.consume('1.2.3.4')).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 45 })
+    })
+
+    it('tracks keys independently', async () => {
+      const limiter = createMemoryRateLimiter({ limit: 1, windowMs: 60_000 })
+
+      await limiter.consume('1.2.3.4')
+
+      expect((await limiter.consume('1.2.3.4')).allowed).toBe(false)
+      expect((await limiter.consume('5.6.7.8')).allowed).toBe(true)
+    })
+
+    it('starts a new window once the previous one expires', async () => {
+      const limiter = createMemoryRateLimiter({ limit: 1, windowMs: 60_000 })
+
+      await limiter.consume('1.2.3.4')
+      jest.advanceTimersByTime(60_000)
+
+      expect(await limiter.consume('1.2.3.4')).toEqual({ allowed: true, remaining: 0, retryAfterSeconds: 0 })
+    })
+  })
+
+  describe('createFirestoreRateLimiter', () => {
+    const createMockDb = () => {
+      const documents = new Map<string, Record<string, unknown>>()
+      const transaction = {
+        get: jest.fn(async (ref: { id: string }) => ({
+          exists: documents.has(ref.id),
+          data: () => documents.get(ref.id),
+        })),
+        set: jest.fn((ref: { id: string }, data: Record<string, unknown>) => {
+          documents.set(ref.id, data)
+        }),
+      }
+      const db = {
+        collection: jest.fn(() => ({
+          doc: jest.fn((id: string) => ({ id })),
+        })),
+        runTransaction: jest.fn((fn: (t: typeof transaction) => unknown) => fn(transaction)),
+      }
+      return { db: db as unknown as Firestore, documents, transaction }
+    }
+
+    it('persists counters in the rate_limits collection', async () => {
+      const { db, documents } = createMockDb()
+      const limiter = createFirestoreRateLimiter(db, { limit: 2, windowMs: 60_000, namespace: 'subscribe' })
+
+      await limiter.consume('1.2.3.4')
+      await limiter.consume('1.2.3.4')
+
+      expect(db.collection).toHaveBeenCalledWith('rate_limits')
+      expect([...documents.values()]).toEqual([
+        expect.objectContaining({ namespace: 'subscribe', count: 2, expiresAt: new Date('2025-01-01T00:01:00Z') }),
+      ])
+    })
+
+    it('does not use the raw key as the document ID', async () => {
+      const { db, documents } = createMockDb()
+      const limiter = createFirestoreRateLimiter(db, { limit: 2, windowMs: 60_000, namespace: 'subscribe' })
+
+      await limiter.consume('1.2.3.4')
+
+      const [docId] = documents.keys()
+      expect(docId).toMatch(/^[0-9a-f]{64}$/)
+    })
+
+    it('rejects requests over the limit without writing', async () => {
+      const { db, transaction } = createMockDb()
+      const limiter = createFirestoreRateLimiter(db, { limit: 1, windowMs: 60_000, namespace: 'subscribe' })
+
+      await limiter.consume('1.2.3.4')
+      transaction.set.mockClear()
+
+      expect(await limiter.consume('1.2.3.4')).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 60 })
+      expect(transaction.set).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,120 @@
+import { NAMED_SEGMENTS, findSegmentMembers, isValidSegment, parseSegment } from '@/lib/segments'
+
+const now = new Date('2026-04-15T12:00:00Z')
+
+const subscriber = (overrides: Record<string, unknown> = {}) => ({
+  email: 'test@example.com',
+  status: 'active',
+  source: 'website',
+  subscribedAt: '2026-03-10T09:00:00.000Z',
+  confirmedAt: '2026-03-10T09:05:00.000Z',
+  referralCount: 0,
+  ...overrides,
+})
+
+const matches = (query: string, overrides: Record<string, unknown> = {}) =>
+  parseSegment(query).matches(subscriber(overrides), now)
+
+describe('lib/segments', () => {
+  describe('named segments', () => {
+    it('respect subscriber preferences', () => {
+      expect(matches('all')).toBe(true)
+      expect(matches('all', { preferences: { productUpdates: false } })).toBe(false)
+      expect(matches('beta')).toBe(false)
+      expect(matches('beta', { preferences: { betaInvites: true } })).toBe(true)
+      expect(parseSegment('beta').query).toBe(NAMED_SEGMENTS.beta)
+    })
+  })
+
+  describe('parseSegment', () => {
+    it('requires product updates unless the query names a preference', () => {
+      expect(matches('source:website', { preferences: { productUpdates: false } })).toBe(false)
+      expect(matches('prefers:betaInvites source:website', {
+        preferences: { productUpdates: false, betaInvites: true },
+      })).toBe(true)
+    })
+
+    it('matches source, with commas for alternatives and quotes for spaces', () => {
+      expect(matches('source:website')).toBe(true)
+      expect(matches('source:twitter')).toBe(false)
+      expect(matches('source:twitter,website')).toBe(true)
+      expect(matches('source:"spring launch"', { source: 'spring launch' })).toBe(true)
+    })
+
+    it('matches tags', () => {
+      expect(matches('tag:producer', { tags: ['producer', 'beta'] })).toBe(true)
+      expect(matches('tag:producer')).toBe(false)
+      expect(matches('-tag:producer')).toBe(true)
+    })
+
+    it('matches inclusive signup date ranges', () => {
+      expect(matches('signedup:2026-03-01..2026-03-10')).toBe(true)
+      expect(matches('signedup:2026-03-11..')).toBe(false)
+      expect(matches('signedup:..2026-03-09')).toBe(false)
+      expect(matches('signedup:2026-03-10')).toBe(true)
+      expect(matches('signedup:2026-03-01..', { subscribedAt: undefined })).toBe(false)
+    })
+
+    it('matches confirmed state', () => {
+      expect(matches('confirmed:true')).toBe(true)
+      expect(matches('confirmed:no', { confirmedAt: undefined })).toBe(true)
+    })
+
+    it('matches shared mailboxes', () => {
+      expect(matches('roleaccount:true', { roleAccount: true })).toBe(true)
+      expect(matches('roleaccount:false', { roleAccount: true })).toBe(false)
+      expect(matches('roleaccount:false')).toBe(true)
+    })
+
+    it('compares referral counts', () => {
+      expect(matches('referrals:>=3', { referralCount: 3 })).toBe(true)
+      expect(matches('referrals:>3', { referralCount: 3 })).toBe(false)
+      expect(matches('referrals:0', { referralCount: undefined })).toBe(true)
+      expect(matches('referrals:<2', { referralCount: 1 })).toBe(true)
+    })
+
+    it('matches engagement within a window', () => {
+      expect(matches('opened:30d', { lastOpenedAt: '2026-04-01T00:00:00.000Z' })).toBe(true)
+      expect(matches('opened:7d', { lastOpenedAt: '2026-04-01T00:00:00.000Z' })).toBe(false)
+      expect(matches('opened:never')).toBe(true)
+      expect(matches('-clicked:90d', { lastClickedAt: '2026-04-14T00:00:00.000Z' })).toBe(false)
+    })
+
+    it('requires every term to match', () => {
+      const query = 'prefers:betaInvites tag:producer source:spring-launch signedup:2026-03-01..'
+      const producer = { tags: ['producer'], source: 'spring-launch', preferences: { betaInvites: true } }
+
+      expect(matches(query, producer)).toBe(true)
+      expect(matches(query, { ...producer, source: 'website' })).toBe(false)
+      expect(matches(query, { ...producer, preferences: {} })).toBe(false)
+    })
+
+    it('rejects unknown fields and invalid values', () => {
+      expect(() => parseSegment('country:nl')).toThrow('Unknown segment field "country"')
+      expect(() => parseSegment('everyone')).toThrow('Invalid segment term "everyone"')
+      expect(() => parseSegment('signedup:March')).toThrow('Invalid date "March"')
+      expect(() => parseSegment('referrals:many')).toThrow(/Invalid value "many" for referrals/)
+      expect(() => parseSegment('opened:recently')).toThrow(/Invalid value "recently" for opened/)
+      expect(() => parseSegment('prefers:everything')).toThrow('Unknown preference "everything"')
+      expect(() => parseSegment('source:')).toThrow('Missing value for source')
+      expect(isValidSegment('confirmed:maybe')).toBe(false)
+      expect(isValidSegment('all')).toBe(true)
+    })
+  })
+
+  describe('findSegmentMembers', () => {
+    it('filters active subscribers by the segment', async () => {
+      const docs = [
+        { id: 'a', data: () => subscriber({ email: 'a@example.com', tags: ['producer'] }) },
+        { id: 'b', data: () => subscriber({ email: 'b@example.com' }) },
+      ]
+      const where = jest.fn(() => ({ get: () => Promise.resolve({ docs }) }))
+      const db = { collection: () => ({ where }) } as never
+
+      const members = await findSegmentMembers(db, parseSegment('tag:producer'))
+
+      expect(where).toHaveBeenCalledWith('status', '==', 'active')
+      expect(members.map(member => member.email)).toEqual(['a@example.com'])
+    })
+  })
+})
@@ -0,0 +1,207 @@
+import { SEQUENCES, advanceSequence, advanceSequences, getDueStep, type Sequence } from '@/lib/sequences'
+import type { BatchResponse, EmailBatch, SendLimits } from '@/lib/batch-send'
+import type { Firestore } from 'firebase-admin/firestore'
+import { createFakeFirestore, type Doc } from '@/__tests__/helpers/fake-firestore'
+
+jest.mock('firebase-admin/firestore', () => ({
+  FieldValue: jest.requireActual('@/__tests__/helpers/fake-firestore').fakeFieldValue,
+}))
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const now = new Date('2026-04-15T12:00:00Z')
+const daysAgo = (days: number) => new Date(now.getTime() - days * DAY_MS).toISOString()
+
+const step = (id: string, delayDays: number) => ({
+  id,
+  delayDays,
+  render: () => ({ subject: `Step ${id}`, html: `<p>${id}</p>`, text: id }),
+})
+
+const sequence: Sequence = {
+  id: 'onboarding',
+  segment: 'all',
+  catchUpDays: 3,
+  steps: [step('welcome', 0), step('producers', 3), step('survey', 10)],
+}
+
+const limits: SendLimits = { requestsPerSecond: 1000, batchSize: 2, concurrency: 1, maxRetries: 0 }
+
+// Accepts every email except those listed in `failures`
+const createSend = (failures: Record<string, string> = {}) =>
+  jest.fn(async ({ emails }: EmailBatch): Promise<BatchResponse> => ({
+    ok: true,
+    results: emails.map(({ to }) => (failures[to] ? { error: failures[to] } : { id: `msg-${to}` })),
+  }))
+
+const sentTo = (send: ReturnType<typeof createSend>) =>
+  send.mock.calls.flatMap(([batch]) => batch.emails.map(email => `${email.to}: ${email.subject}`))
+
+describe('lib/sequences', () => {
+  let db: Firestore
+  let store: Map<string, Doc>
+
+  const addSubscriber = (id: string, days: number, extra: Doc = {}) =>
+    store.set(`email_subscribers/${id}`, { email: `${id}@example.com`, status: 'active', subscribedAt: daysAgo(days), ...extra })
+
+  const stateOf = (id: string) => (store.get(`email_subscribers/${id}`)?.sequences as Doc | undefined)?.onboarding
+
+  beforeEach(() => {
+    ({ db, store } = createFakeFirestore())
+  })
+
+  describe('getDueStep', () => {
+    const due = (days: number, next = 0) => getDueStep(sequence, { next }, daysAgo(days), now)
+
+    it('returns the step whose delay has passed', () => {
+      expect(due(0)).toBe(0)
+      expect(due(3.5, 1)).toBe(1)
+      expect(due(2, 1)).toBeUndefined()
+      expect(due(11, 3)).toBeUndefined()
+    })
+
+    it('skips to the latest due step instead of sending a burst', () => {
+      expect(due(4)).toBe(1)
+    })
+
+    it('does not send steps that are more than catchUpDays late', () => {
+      expect(due(12.5, 2)).toBe(2)
+      expect(due(13.5, 2)).toBeUndefined()
+      expect(due(60)).toBeUndefined()
+      expect(getDueStep(sequence, { next: 0 }, undefined, now)).toBeUndefined()
+    })
+  })
+
+  describe('advanceSequence', () => {
+    it('sends due steps and records each subscriber\'s progress', async () => {
+      addSubscriber('new', 0)
+      addSubscriber('day-four', 4, { sequences: { onboarding: { next: 1 } } })
+      addSubscriber('waiting', 1, { sequences: { onboarding: { next: 1 } } })
+      addSubscriber('old', 90)
+      addSubscriber('pending', 0, { status: 'pending' })
+      const send = createSend()
+
+      const result = await advanceSequence(db, sequence, { send, limits, now })
+
+      expect(result).toEqual({ sequenceId: 'onboarding', sent: 2, failed: 0 })
+      expect(sentTo(send).sort()).toEqual(['day-four@example.com: Step producers', 'new@example.com: Step welcome'])
+      expect(send.mock.calls[0][0].emails[0]).toMatchObject({
+        headers: expect.objectContaining({ 'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click' }),
+        tags: [{ name: 'subscriber_id', value: expect.any(String) }],
+      })
+      expect(stateOf('new')).toEqual({ next: 1, lastSentAt: expect.any(String) })
+      expect(stateOf('day-four')).toEqual({ next: 2, lastSentAt: expect.any(String) })
+    })
+
+    it('is safe to run repeatedly', async () => {
+      addSubscriber('new', 0)
+      const send = createSend()
+
+      await advanceSequence(db, sequence, { send, limits, now })
+      await advanceSequence(db, sequence, { send, limits, now })
+
+      expect(send).toHaveBeenCalledTimes(1)
+    })
+
+    it('marks the sequence complete after the last step', async () => {
+      addSubscriber('veteran', 10.5, { sequences: { onboarding: { next: 2 } } })
+
+      await advanceSequence(db, sequence, { send: createSend(), limits, now })
+
+      expect(stateOf('veteran')).toMatchObject({ next: 3, completedAt: expect.any(String) })
+    })
+
+    it('resends an interrupted batch under its original key', async () => {
+      addSubscriber('a', 4, { sequences: { onboarding: { next: 1, sending: { step: 1, batchKey: 'sequence/onboarding/old' } } } })
+      addSubscriber('b', 0)
+      const send = createSend()
+
+      await advanceSequence(db, sequence, { send, limits, now })
+
+      expect(send.mock.calls[0][0]).toMatchObject({ idempotencyKey: 'sequence/onboarding/old' })
+      expect(sentTo(send)).toEqual(['a@example.com: Step producers', 'b@example.com: Step welcome'])
+      expect(stateOf('a')).toEqual({ next: 2, lastSentAt: expect.any(String) })
+    })
+
+    it('resends an interrupted batch byte for byte, to every original recipient', async () => {
+      addSubscriber('a', 0)
+      addSubscriber('b', 0)
+      // Crash while recording the batch's outcome, after it went out
+      const batch = jest.spyOn(db, 'batch')
+      const crashed = jest.fn(async ({ emails }: EmailBatch): Promise<BatchResponse> => {
+        batch.mockImplementation(() => { throw new Error('Crashed') })
+        return { ok: true, results: emails.map(({ to }) => ({ id: `msg-${to}` })) }
+      })
+      await expect(advanceSequence(db, SEQUENCES[0], { send: crashed, limits, now })).rejects.toThrow('Crashed')
+      batch.mockRestore()
+      store.set('email_subscribers/b', { ...store.get('email_subscribers/b'), status: 'unsubscribed' })
+      const send = createSend()
+
+      // Resumed a minute later, so anything time-based in the emails would differ
+      const dateNowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 60_000)
+      try {
+        await advanceSequence(db, SEQUENCES[0], { send, limits, now })
+      } finally {
+        dateNowSpy.mockRestore()
+      }
+
+      expect(send).toHaveBeenCalledTimes(1)
+      expect(JSON.stringify(send.mock.calls[0][0])).toBe(JSON.stringify(crashed.mock.calls[0][0]))
+      expect(stateOf('a')).toEqual({ next: 1, lastSentAt: expect.any(String) })
+      expect(stateOf('b')).toEqual({ next: 1, lastSentAt: expect.any(String) })
+    })
+
+    it('retries failed steps on later runs and gives up after three attempts', async () => {
+      addSubscriber('bad', 0)
+      const send = createSend({ 'bad@example.com': 'Invalid `to` field' })
+
+      await advanceSequence(db, sequence, { send, limits, now })
+      expect(stateOf('bad')).toEqual({ next: 0, failures: 1, lastError: 'Invalid `to` field' })
+
+      await advanceSequence(db, sequence, { send, limits, now })
+      await advanceSequence(db, sequence, { send, limits, now })
+      await advanceSequence(db, sequence, { send, limits, now })
+
+      expect(send).toHaveBeenCalledTimes(3)
+      expect(stateOf('bad')).toEqual({ next: 1, lastError: 'Invalid `to` field' })
+    })
+
+    it('stops at maxDeliveries', async () => {
+      for (const id of ['a', 'b', 'c']) addSubscriber(id, 0)
+      const send = createSend()
+
+      const result = await advanceSequence(db, sequence, { send, limits, now, maxDeliveries: 2 })
+
+      expect(result.sent).toBe(2)
+      expect(await advanceSequence(db, sequence, { send, limits, now })).toMatchObject({ sent: 1 })
+    })
+
+    it('renders the onboarding emails', async () => {
+      addSubscriber('new', 0)
+      const send = createSend()
+
+      await advanceSequence(db, SEQUENCES[0], { send, limits, now })
+
+      expect(sentTo(send)).toEqual(['new@example.com: Welcome to Orbit!'])
+    })
+  })
+
+  describe('advanceSequences', () => {
+    it('skips sequences another run is working on', async () => {
+      addSubscriber('new', 0)
+      store.set('sequences/onboarding', { lockedUntil: new Date(now.getTime() + 60_000).toISOString() })
+      const send = createSend()
+
+      expect(await advanceSequences(db, { send, limits, now, maxDeliveries: 100 }, [sequence])).toEqual([])
+      expect(send).not.toHaveBeenCalled()
+    })
+
+    it('releases the lease when it is done', async () => {
+      addSubscriber('new', 0)
+
+      const results = await advanceSequences(db, { send: createSend(), limits, now, maxDeliveries: 100 }, [sequence])
+
+      expect(results).toEqual([{ sequenceId: 'onboarding', sent: 1, failed: 0 }])
+      expect(store.get('sequences/onboarding')).not.toHaveProperty('lockedUntil')
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { exportSubscribers, readSubscribers } from '@/lib/subscriber-export'
+
+jest.mock('firebase-admin/firestore', () => ({
+  FieldPath: { documentId: () => '__name__' },
+}))
+
+type Doc = Record<string, unknown>
+
+// Serves `email_subscribers` in ID order with equality filters, limit and
+// startAfter, recording every page that was requested
+const createFakeDb = (docs: Record<string, Doc>) => {
+  const pages: string[][] = []
+
+  const query = (filters: [string, unknown][], limit = Infinity, after?: string) => ({
+    where: (field: string, _op: string, value: unknown) => query([...filters, [field, value]], limit, after),
+    orderBy: () => query(filters, limit, after),
+    limit: (n: number) => query(filters, n, after),
+    startAfter: (doc: { id: string }) => query(filters, limit, doc.id),
+    get: async () => {
+      const matches = Object.keys(docs)
+        .sort()
+        .filter(id => (after === undefined || id > after) && filters.every(([field, value]) => docs[id][field] === value))
+        .slice(0, limit)
+      pages.push(matches)
+      return { docs: matches.map(id => ({ id, data: () => docs[id] })) }
+    },
+  })
+
+  return { db: { collection: () => query([]) } as never, pages }
+}
+
+const collect = async <T>(items: AsyncIterable<T>) => {
+  const result: T[] = []
+  for await (const item of items) result.push(item)
+  return result
+}
+
+describe('lib/subscriber-export', () => {
+  const docs = {
+    a: { email: 'ada@example.com', status: 'active', source: 'landing-page', subscribedAt: '2026-01-15T00:00:00.000Z', tags: ['beta', 'vip'], ipAddress: '203.0.113.7' },
+    b: { email: 'bob@example.com', status: 'pending', source: 'twitter', subscribedAt: '2026-02-15T00:00:00.000Z' },
+    c: { email: 'cy@example.com', status: 'active', source: 'twitter', subscribedAt: '2026-03-15T00:00:00.000Z', referralCount: 2 },
+  }
+
+  it('reads every subscriber a page at a time', async () => {
+    const { db, pages } = createFakeDb(docs)
+
+    const records = await collect(readSubscribers(db, {}, 2))
+
+    expect(records.map(record => record.id)).toEqual(['a', 'b', 'c'])
+    expect(pages).toEqual([['a', 'b'], ['c']])
+  })
+
+  it('filters by status, source and signup date', async () => {
+    const { db } = createFakeDb(docs)
+
+    expect((await collect(readSubscribers(db, { status: 'active' }))).map(r => r.id)).toEqual(['a', 'c'])
+    expect((await collect(readSubscribers(db, { source: 'twitter', status: 'active' }))).map(r => r.id)).toEqual(['c'])
+    expect((await collect(readSubscribers(db, {
+      since: new Date('2026-02-01'),
+      until: new Date('2026-03-15T00:00:00.000Z'),
+    }))).map(r => r.id)).toEqual(['b'])
+  })
+
+  it('writes CSV with a header row and leaves out request metadata', async () => {
+    const { db } = createFakeDb({ a: docs.a })
+
+    const csv = (await collect(exportSubscribers(db, {}, 'csv'))).join('')
+
+    expect(csv).toBe(
+      'id,email,status,source,subscribedAt,confirmedAt,unsubscribedAt,referralCode,referredBy,referralCount,tags\r\n' +
+      'a,ada@example.com,active,landing-page,2026-01-15T00:00:00.000Z,,,,,,beta;vip\r\n'
+    )
+  })
+
+  it('writes a JSON array', async () => {
+    const { db } = createFakeDb(docs)
+
+    const json = JSON.parse((await collect(exportSubscribers(db, { status: 'active' }, 'json'))).join(''))
+
+    expect(json.map((record: { email: string }) => record.email)).toEqual(['ada@example.com', 'cy@example.com'])
+    expect(json[0]).not.toHaveProperty('ipAddress')
+  })
+
+  it('writes an empty JSON array when nothing matches', async () => {
+    const { db } = createFakeDb({})
+
+    expect(JSON.parse((await collect(exportSubscribers(db, {}, 'json'))).join(''))).toEqual([])
+  })
+})
@@ -0,0 +1,144 @@
+import { applyImport, parseImportFile, planImport } from '@/lib/subscriber-import'
+import { getSubscriberId } from '@/lib/subscribers'
+import { createFakeFirestore } from '@/__tests__/helpers/fake-firestore'
+
+const now = new Date('2026-06-01T00:00:00.000Z')
+
+describe('lib/subscriber-import', () => {
+  describe('parseImportFile', () => {
+    it('reads CSV and JSON', () => {
+      expect(parseImportFile('email,status\nada@example.com,pending\n', 'csv')).toEqual([{ email: 'ada@example.com', status: 'pending' }])
+      expect(parseImportFile('[{"email":"ada@example.com"}]', 'json')).toEqual([{ email: 'ada@example.com' }])
+    })
+
+    it('rejects JSON that is not a list of objects', () => {
+      expect(() => parseImportFile('{"email":"ada@example.com"}', 'json')).toThrow('array of subscriber objects')
+      expect(() => parseImportFile('["ada@example.com"]', 'json')).toThrow('array of subscriber objects')
+    })
+  })
+
+  describe('planImport', () => {
+    it('keeps the original signup date and defaults to a confirmed import', async () => {
+      const { db } = createFakeFirestore()
+
+      const plan = await planImport(db, [{ email: 'Ada@Example.com', subscribedAt: '2025-03-01', tags: 'beta; vip' }], now)
+
+      expect(plan.skipped).toEqual([])
+      expect(plan.create).toEqual([{
+        row: 1,
+        subscriberId: getSubscriberId('ada@example.com'),
+        data: expect.objectContaining({
+          email: 'ada@example.com',
+          normalizedEmail: 'ada@example.com',
+          source: 'import',
+          subscribedAt: '2025-03-01T00:00:00.000Z',
+          status: 'active',
+          confirmedAt: '2025-03-01T00:00:00.000Z',
+          tags: ['beta', 'vip'],
+          importedAt: '2026-06-01T00:00:00.000Z',
+          history: [expect.objectContaining({ event: 'imported', source: 'import' })],
+        }),
+      }])
+    })
+
+    it('reports invalid rows with the reason', async () => {
+      const { db } = createFakeFirestore()
+
+      const plan = await planImport(db, [
+        { email: 'not-an-email' },
+        { email: 'ada@example.com', status: 'vip' },
+        { email: 'bob@example.com', subscribedAt: 'last tuesday' },
+        { email: 'cy@example.com', referralCount: '-2' },
+        {},
+      ], now)
+
+      expect(plan.create).toEqual([])
+      expect(plan.skipped).toEqual([
+        { row: 1, email: 'not-an-email', reason: 'invalid', message: 'Invalid email address' },
+        { row: 2, email: 'ada@example.com', reason: 'invalid', message: 'Unknown status: vip' },
+        { row: 3, email: 'bob@example.com', reason: 'invalid', message: 'subscribedAt is not a valid date: last tuesday' },
+        { row: 4, email: 'cy@example.com', reason: 'invalid', message: 'referralCount is not a whole number: -2' },
+        { row: 5, email: '', reason: 'invalid', message: expect.any(String) },
+      ])
+    })
+
+    it('skips inboxes that are already subscribed or repeated in the file', async () => {
+      const { db } = createFakeFirestore({ [`email_subscribers/${getSubscriberId('ada@example.com')}`]: { email: 'ada@example.com' } })
+
+      const plan = await planImport(db, [
+        { email: 'a.da@gmail.com' },
+        { email: 'ada@example.com' },
+        { email: 'ADA@gmail.com' },
+      ], now)
+
+      expect(plan.create.map(subscriber => subscriber.row)).toEqual([1])
+      expect(plan.skipped).toEqual([
+        { row: 2, email: 'ada@example.com', reason: 'exists' },
+        { row: 3, email: 'ADA@gmail.com', reason: 'duplicate' },
+      ])
+    })
+  })
+
+  describe('referrals', () => {
+    const referrerId = getSubscriberId('referrer@example.com')
+
+    it('keeps imported referral codes and referrers', async () => {
+      const { db } = createFakeFirestore({ [`email_subscribers/${referrerId}`]: { email: 'referrer@example.com' } })
+
+      const plan = await planImport(db, [
+        { email: 'ada@example.com', referralCode: 'ADA23456', referredBy: referrerId, referralCount: '1' },
+        { email: 'bob@example.com', status: 'pending', referralCode: 'BOB23456', referredBy: getSubscriberId('ada@example.com') },
+      ], now)
+
+      expect(plan.create.map(({ data }) => data)).toEqual([
+        expect.objectContaining({ referralCode: 'ADA23456', referredBy: referrerId, referralCredited: true, referralCount: 1 }),
+        expect.objectContaining({ referralCode: 'BOB23456', referredBy: getSubscriberId('ada@example.com') }),
+      ])
+      expect(plan.create[1].data).not.toHaveProperty('referralCredited')
+    })
+
+    it('replaces codes that are taken or malformed and drops unknown referrers', async () => {
+      const { db } = createFakeFirestore({ 'email_subscribers/someone': { referralCode: 'TAKEN234' } })
+
+      const plan = await planImport(db, [
+        { email: 'ada@example.com', referralCode: 'TAKEN234', referredBy: 'no-such-subscriber' },
+        { email: 'bob@example.com', referralCode: 'not a code!' },
+        { email: 'cy@example.com', referralCode: 'SAME2345' },
+        { email: 'dee@example.com', referralCode: 'SAME2345' },
+      ], now)
+
+      const codes = plan.create.map(({ data }) => data.referralCode)
+      expect(codes[0]).not.toBe('TAKEN234')
+      expect(codes[1]).not.toBe('not a code!')
+      expect(codes.slice(2)).toContain('SAME2345')
+      expect(new Set(codes).size).toBe(4)
+      expect(plan.create[0].data).not.toHaveProperty('referredBy')
+      expect(codes.every(code => typeof code === 'string')).toBe(true)
+    })
+  })
+
+  describe('applyImport', () => {
+    it('adds subscribers to the end of the waitlist in signup order', async () => {
+      const { db, store } = createFakeFirestore({ 'counters/waitlist': { issued: 10 } })
+      const plan = await planImport(db, [
+        { email: 'later@example.com', subscribedAt: '2025-05-01' },
+        { email: 'earlier@example.com', subscribedAt: '2025-01-01' },
+      ], now)
+
+      expect(await applyImport(db, plan)).toBe(2)
+
+      expect(store.get(`email_subscribers/${getSubscriberId('earlier@example.com')}`)).toMatchObject({ signupNumber: 11, waitlistScore: 11 })
+      expect(store.get(`email_subscribers/${getSubscriberId('later@example.com')}`)).toMatchObject({ signupNumber: 12, waitlistScore: 12 })
+      expect(store.get('counters/waitlist')).toEqual({ issued: 12 })
+    })
+
+    it('never overwrites a subscriber created after planning', async () => {
+      const { db, store } = createFakeFirestore()
+      const plan = await planImport(db, [{ email: 'ada@example.com' }], now)
+      store.set(`email_subscribers/${getSubscriberId('ada@example.com')}`, { email: 'ada@example.com', status: 'pending' })
+
+      await expect(applyImport(db, plan)).rejects.toThrow('Document already exists')
+      expect(store.get(`email_subscribers/${getSubscriberId('ada@example.com')}`)).toEqual({ email: 'ada@example.com', status: 'pending' })
+    })
+  })
+})
@@ -0,0 +1,72 @@
+import { getSubscriberId, mergeSubscribers } from '@/lib/subscribers'
+
+describe('lib/subscribers', () => {
+  describe('getSubscriberId', () => {
+    it('is deterministic for the same normalized email', () => {
+      expect(getSubscriberId('jdoe@gmail.com')).toBe(getSubscriberId('jdoe@gmail.com'))
+      expect(getSubscriberId('jdoe@gmail.com')).toMatch(/^[0-9a-f]{64}$/)
+    })
+
+    it('differs between addresses', () => {
+      expect(getSubscriberId('jdoe@gmail.com')).not.toBe(getSubscriberId('jane@gmail.com'))
+    })
+  })
+
+  describe('mergeSubscribers', () => {
+    const subscriberId = getSubscriberId('jdoe@gmail.com')
+
+    it('keeps the earliest signup as the base record', () => {
+      const merged = mergeSubscribers(subscriberId, 'jdoe@gmail.com', [
+        { id: 'b', data: { email: 'j.doe@gmail.com', source: 'twitter', subscribedAt: '2025-03-01T00:00:00.000Z', status: 'pending' } },
+        { id: 'a', data: { email: 'jdoe@gmail.com', source: 'landing-page', subscribedAt: '2025-01-01T00:00:00.000Z', status: 'pending', userAgent: 'Browser' } },
+      ])
+
+      expect(merged).toEqual({
+        email: 'jdoe@gmail.com',
+        source: 'landing-page',
+        subscribedAt: '2025-01-01T00:00:00.000Z',
+        status: 'pending',
+        userAgent: 'Browser',
+        normalizedEmail: 'jdoe@gmail.com',
+        legacyIds: ['a', 'b'],
+      })
+    })
+
+    it('prefers active over pending', () => {
+      const merged = mergeSubscribers(subscriberId, 'jdoe@gmail.com', [
+        { id: 'a', data: { subscribedAt: '2025-01-01T00:00:00.000Z', status: 'pending' } },
+        { id: 'b', data: { subscribedAt: '2025-02-01T00:00:00.000Z', status: 'active', confirmedAt: '2025-02-02T00:00:00.000Z' } },
+      ])
+
+      expect(merged.status).toBe('active')
+      expect(merged.confirmedAt).toBe('2025-02-02T00:00:00.000Z')
+    })
+
+    it('lets an opt-out win over a subscription', () => {
+      const merged = mergeSubscribers(subscriberId, 'jdoe@gmail.com', [
+        { id: 'a', data: { subscribedAt: '2025-01-01T00:00:00.000Z', status: 'active' } },
+        { id: 'b', data: { subscribedAt: '2025-02-01T00:00:00.000Z', status: 'unsubscribed', unsubscribedAt: '2025-03-01T00:00:00.000Z' } },
+      ])
+
+      expect(merged.status).toBe('unsubscribed')
+      expect(merged.unsubscribedAt).toBe('2025-03-01T00:00:00.000Z')
+    })
+
+    it('does not list the canonical ID as a legacy ID', () => {
+      const merged = mergeSubscribers(subscriberId, 'jdoe@gmail.com', [
+        { id: subscriberId, data: { subscribedAt: '2025-01-01T00:00:00.000Z', status: 'active', legacyIds: ['old'] } },
+        { id: 'newer', data: { subscribedAt: '2025-02-01T00:00:00.000Z', status: 'pending' } },
+      ])
+
+      expect(merged.legacyIds).toEqual(['newer', 'old'])
+    })
+
+    it('omits legacyIds when a single document is already canonical', () => {
+      const merged = mergeSubscribers(subscriberId, 'jdoe@gmail.com', [
+        { id: subscriberId, data: { subscribedAt: '2025-01-01T00:00:00.000Z', status: 'active' } },
+      ])
+
+      expect(merged).not.toHaveProperty('legacyIds')
+    })
+  })
+})
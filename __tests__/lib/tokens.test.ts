@@ -0,0 +1,112 @@
+import { signToken, verifyToken } from '@/lib/tokens'
+
+describe('lib/tokens', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('round-trips a signed token', () => {
+    const token = signToken('subscriber-123', 'confirm', 60)
+    const result = verifyToken(token, 'confirm')
+
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(result.payload.sub).toBe('subscriber-123')
+      expect(result.payload.purpose).toBe('confirm')
+    }
+  })
+
+  it('produces URL-safe tokens', () => {
+    const token = signToken('subscriber/with+odd=chars', 'confirm', 60)
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/)
+  })
+
+  it('rejects a token with a tampered payload', () => {
+    const token = signToken('subscriber-123', 'confirm', 60)
+    const [, signature] = token.split('.')
+    const forgedPayload = Buffer.from(JSON.stringify({
+      sub: 'someone-else',
+      purpose: 'confirm',
+      exp: Math.floor(Date.now() / 1000) + 60,
+    })).toString('base64url')
+
+    expect(verifyToken(`${forgedPayload}.${signature}`, 'confirm')).toEqual({ ok: false, reason: 'invalid' })
+  })
+
+  it('rejects a token with a tampered signature', () => {
+    const token = signToken('subscriber-123', 'confirm', 60)
+
+    expect(verifyToken(`${token}x`, 'confirm')).toEqual({ ok: false, reason: 'invalid' })
+  })
+
+  it('rejects malformed tokens', () => {
+    expect(verifyToken('', 'confirm')).toEqual({ ok: false, reason: 'invalid' })
+    expect(verifyToken('not-a-token', 'confirm')).toEqual({ ok: false, reason: 'invalid' })
+    expect(verifyToken('a.b.c', 'confirm')).toEqual({ ok: false, reason: 'invalid' })
+  })
+
+  it('rejects tokens signed with a different secret', () => {
+    const token = signToken('subscriber-123', 'confirm', 60)
+    const originalSecret = process.env.SUBSCRIPTION_TOKEN_SECRET
+
+    process.env.SUBSCRIPTION_TOKEN_SECRET = 'another-secret'
+    try {
+      expect(verifyToken(token, 'confirm')).toEqual({ ok: false, reason: 'invalid' })
+    } finally {
+      process.env.SUBSCRIPTION_TOKEN_SECRET = originalSecret
+    }
+  })
+
+  it('reports expired tokens', () => {
+    jest.useFakeTimers()
+    jest.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    const token = signToken('subscriber-123', 'confirm', 60)
+
+    jest.setSystemTime(new Date('2025-01-01T00:02:00Z'))
+
+    expect(verifyToken(token, 'confirm')).toEqual({ ok: false, reason: 'expired' })
+  })
+
+  it('issues tokens without an expiry when no TTL is given', () => {
+    jest.useFakeTimers()
+    jest.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    const token = signToken('subscriber-123', 'unsubscribe')
+
+    jest.setSystemTime(new Date('2035-01-01T00:00:00Z'))
+
+    expect(verifyToken(token, 'unsubscribe')).toEqual({
+      ok: true,
+      payload: { sub: 'subscriber-123', purpose: 'unsubscribe' },
+    })
+  })
+
+  it('signs the same token every time when no TTL is given', () => {
+    jest.useFakeTimers()
+    jest.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    const token = signToken('subscriber-123', 'unsubscribe')
+
+    jest.setSystemTime(new Date('2025-01-02T00:00:00Z'))
+
+    expect(signToken('subscriber-123', 'unsubscribe')).toBe(token)
+  })
+
+  it('rejects tokens issued for a different purpose', () => {
+    const token = signToken('subscriber-123', 'unsubscribe')
+
+    expect(verifyToken(token, 'confirm')).toEqual({ ok: false, reason: 'invalid' })
+  })
+
+  it('throws when the secret is not configured', () => {
+    const originalSecret = process.env.SUBSCRIPTION_TOKEN_SECRET
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation()
+
+    delete process.env.SUBSCRIPTION_TOKEN_SECRET
+    try {
+      expect(() => signToken('subscriber-123', 'confirm', 60)).toThrow('Token secret missing')
+    } finally {
+      process.env.SUBSCRIPTION_TOKEN_SECRET = originalSecret
+      consoleSpy.mockRestore()
+    }
+  })
+})
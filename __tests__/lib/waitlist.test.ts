@@ -0,0 +1,103 @@
+import {
+  DEFAULT_PREFERENCES,
+  generateReferralCode,
+  getPreferences,
+  getReferralLink,
+  getWaitlistStatus,
+  isValidReferralCode,
+} from '@/lib/waitlist'
+
+describe('lib/waitlist', () => {
+  describe('generateReferralCode', () => {
+    it('produces short, unambiguous codes', () => {
+      const code = generateReferralCode()
+      expect(code).toMatch(/^[a-hjkmnp-z2-9]{8}$/)
+      expect(isValidReferralCode(code)).toBe(true)
+    })
+
+    it('produces a different code each time', () => {
+      const codes = new Set(Array.from({ length: 50 }, () => generateReferralCode()))
+      expect(codes.size).toBe(50)
+    })
+  })
+
+  describe('isValidReferralCode', () => {
+    it('rejects codes that could not have been issued', () => {
+      expect(isValidReferralCode('')).toBe(false)
+      expect(isValidReferralCode('abc')).toBe(false)
+      expect(isValidReferralCode('abcd 2345')).toBe(false)
+      expect(isValidReferralCode('a'.repeat(33))).toBe(false)
+    })
+  })
+
+  describe('getReferralLink', () => {
+    it('points at the landing page with the code', () => {
+      expect(getReferralLink('abcd2345')).toBe('https://hoopaudio.com/?ref=abcd2345')
+    })
+  })
+
+  describe('getPreferences', () => {
+    it('falls back to the defaults', () => {
+      expect(getPreferences({})).toEqual(DEFAULT_PREFERENCES)
+      expect(getPreferences(undefined)).toEqual(DEFAULT_PREFERENCES)
+    })
+
+    it('keeps stored choices', () => {
+      expect(getPreferences({ preferences: { productUpdates: false } })).toEqual({
+        productUpdates: false,
+        betaInvites: false,
+      })
+    })
+  })
+
+  describe('getWaitlistStatus', () => {
+    const createDb = (data: Record<string, unknown>, ahead = 0) => {
+      const ref = { update: jest.fn() }
+      const query = {
+        where: jest.fn().mockReturnThis(),
+        count: jest.fn(() => ({ get: () => Promise.resolve({ data: () => ({ count: ahead }) }) })),
+      }
+      const collection = {
+        doc: jest.fn(() => ({
+          get: () => Promise.resolve({ exists: true, id: 'subscriber-1', ref, data: () => data }),
+        })),
+        where: jest.fn(() => query),
+      }
+      return { db: { collection: () => collection } as never, ref, collection, query }
+    }
+
+    it('summarizes the subscriber', async () => {
+      const { db, collection, query } = createDb({
+        email: 'test@example.com',
+        status: 'active',
+        referralCode: 'abcd2345',
+        referralCount: 2,
+        waitlistScore: 90,
+      }, 9)
+
+      await expect(getWaitlistStatus(db, 'subscriber-1')).resolves.toEqual({
+        subscriberId: 'subscriber-1',
+        email: 'test@example.com',
+        status: 'active',
+        position: 10,
+        referralCount: 2,
+        referralCode: 'abcd2345',
+        shareLink: 'https://hoopaudio.com/?ref=abcd2345',
+        preferences: DEFAULT_PREFERENCES,
+      })
+      // Only people still waiting are ahead in line
+      expect(collection.where).toHaveBeenCalledWith('status', 'in', ['pending', 'active'])
+      expect(query.where).toHaveBeenCalledWith('waitlistScore', '<', 90)
+    })
+
+    it('gives subscribers from before referrals existed a code', async () => {
+      const { db, ref } = createDb({ email: 'old@example.com', status: 'active' })
+
+      const status = await getWaitlistStatus(db, 'subscriber-1')
+
+      expect(status?.position).toBeUndefined()
+      expect(status?.referralCount).toBe(0)
+      expect(ref.update).toHaveBeenCalledWith({ referralCode: status?.referralCode })
+    })
+  })
+})
@@ -0,0 +1,53 @@
+import { createHmac } from 'crypto'
+import { verifyWebhookSignature } from '@/lib/webhooks'
+
+const secret = `whsec_${Buffer.from('webhook-signing-key').toString('base64')}`
+const payload = JSON.stringify({ type: 'email.delivered', data: { email_id: 'msg-1' } })
+const now = Date.parse('2026-04-15T12:00:00Z')
+const timestamp = String(now / 1000)
+
+const sign = (body: string, key = secret) =>
+  createHmac('sha256', Buffer.from(key.replace('whsec_', ''), 'base64'))
+    .update(`msg_1.${timestamp}.${body}`)
+    .digest('base64')
+
+const headers = (signature: string) => ({ id: 'msg_1', timestamp, signature })
+
+describe('lib/webhooks', () => {
+  it('accepts a payload signed with the secret', () => {
+    expect(verifyWebhookSignature(payload, headers(`v1,${sign(payload)}`), secret, now)).toEqual({ ok: true })
+  })
+
+  it('accepts any of several signatures, as sent while secrets rotate', () => {
+    const other = `whsec_${Buffer.from('old-key').toString('base64')}`
+    const signature = `v1,${sign(payload, other)} v1,${sign(payload)}`
+
+    expect(verifyWebhookSignature(payload, headers(signature), secret, now).ok).toBe(true)
+  })
+
+  it('rejects a tampered payload', () => {
+    const tampered = payload.replace('delivered', 'complained')
+
+    expect(verifyWebhookSignature(tampered, headers(`v1,${sign(payload)}`), secret, now))
+      .toEqual({ ok: false, reason: 'invalid' })
+  })
+
+  it('rejects unknown signature versions and garbage', () => {
+    expect(verifyWebhookSignature(payload, headers(`v2,${sign(payload)}`), secret, now).ok).toBe(false)
+    expect(verifyWebhookSignature(payload, headers('v1,bm9wZQ=='), secret, now).ok).toBe(false)
+  })
+
+  it('rejects messages older or newer than five minutes', () => {
+    const signature = `v1,${sign(payload)}`
+
+    expect(verifyWebhookSignature(payload, headers(signature), secret, now + 4 * 60 * 1000).ok).toBe(true)
+    expect(verifyWebhookSignature(payload, headers(signature), secret, now + 6 * 60 * 1000))
+      .toEqual({ ok: false, reason: 'stale' })
+    expect(verifyWebhookSignature(payload, headers(signature), secret, now - 6 * 60 * 1000).ok).toBe(false)
+  })
+
+  it('rejects requests without the Svix headers', () => {
+    expect(verifyWebhookSignature(payload, { id: null, timestamp, signature: 'v1,x' }, secret, now))
+      .toEqual({ ok: false, reason: 'missing-headers' })
+  })
+})
@@ -0,0 +1,129 @@
+import Link from "next/link";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { db } from "@/lib/firebase-admin";
+import { ADMIN_SESSION_COOKIE, getAdminSession } from "@/lib/admin-auth";
+import { getAnalyticsReport, type AnalyticsSummary } from "@/lib/analytics";
+import { AdminBarChart } from "@/components/admin-bar-chart";
+import { AdminHeader } from "@/components/admin-header";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  title: "Analytics · Orbit admin",
+  robots: { index: false },
+};
+
+const RANGES = [7, 30, 90, 365];
+
+function formatRate(rate: number | null) {
+  return rate === null ? "—" : `${(rate * 100).toFixed(1)}%`;
+}
+
+function Stat({ label, value, detail }: { label: string; value: string | number; detail?: string }) {
+  return (
+    <div className="p-4 rounded-lg bg-white/5 border border-gray-200/10">
+      <p className="text-2xl font-bold text-white">{value}</p>
+      <p className="text-xs text-gray-400">{label}</p>
+      {detail && <p className="text-xs text-gray-500 mt-1">{detail}</p>}
+    </div>
+  );
+}
+
+function Summary({ title, summary }: { title: string; summary: AnalyticsSummary }) {
+  return (
+    <section className="space-y-3">
+      <h2 className="text-sm font-medium text-gray-400">{title}</h2>
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+        <Stat label="Signups" value={summary.signups} />
+        <Stat label="Confirmations" value={summary.confirmations} />
+        <Stat label="Confirmation rate" value={formatRate(summary.confirmationRate)} />
+        <Stat label="Unsubscribes" value={summary.unsubscribes} />
+        <Stat label="Unsubscribe rate" value={formatRate(summary.unsubscribeRate)} detail="of confirmations" />
+        <Stat
+          label="From referrals"
+          value={formatRate(summary.referralShare)}
+          detail={`${summary.referredSignups} signups, ${summary.referredConfirmations} confirmed`}
+        />
+      </div>
+    </section>
+  );
+}
+
+export default async function AdminAnalyticsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ days?: string }>;
+}) {
+  const session = getAdminSession((await cookies()).get(ADMIN_SESSION_COOKIE)?.value);
+  if (!session) {
+    redirect("/admin/login");
+  }
+
+  const { days } = await searchParams;
+  const range = RANGES.includes(Number(days)) ? Number(days) : 30;
+  const report = await getAnalyticsReport(db, range);
+  const maxSource = Math.max(1, ...report.sources.map((source) => source.signups));
+
+  return (
+    <div className="min-h-screen bg-black px-4 py-12">
+      <div className="max-w-6xl mx-auto space-y-8">
+        <AdminHeader session={session} />
+
+        <div className="flex items-baseline justify-between">
+          <h1 className="text-2xl font-semibold text-white">Analytics</h1>
+          <nav className="flex gap-3 text-sm">
+            {RANGES.map((value) => (
+              <Link
+                key={value}
+                href={`/admin/analytics?days=${value}`}
+                className={value === range ? "text-white" : "text-gray-400 hover:text-white"}
+              >
+                {value} days
+              </Link>
+            ))}
+          </nav>
+        </div>
+
+        <Summary title={`Last ${range} days`} summary={report.period} />
+
+        <div className="grid lg:grid-cols-2 gap-4">
+          <AdminBarChart
+            title="Signups per day"
+            unit="signups"
+            bars={report.days.map((day) => ({ label: day.date, value: day.signups }))}
+          />
+          <AdminBarChart
+            title="Confirmations per day"
+            unit="confirmations"
+            bars={report.days.map((day) => ({ label: day.date, value: day.confirmations }))}
+          />
+        </div>
+
+        <section className="p-6 rounded-lg space-y-4 bg-white/5 border border-gray-200/10">
+          <h2 className="text-sm font-medium text-white">Signups by source</h2>
+          {report.sources.length > 0 ? (
+            <ul className="space-y-2 text-sm">
+              {report.sources.map(({ source, signups }) => (
+                <li key={source} className="grid grid-cols-[10rem_1fr_3rem] items-center gap-3">
+                  <span className="text-gray-300 truncate">{source}</span>
+                  <div className="h-2 rounded-full bg-white/5">
+                    <div
+                      className="h-2 rounded-full bg-gradient-to-r from-orange-400 to-yellow-400"
+                      style={{ width: `${(signups / maxSource) * 100}%` }}
+                    />
+                  </div>
+                  <span className="text-right text-gray-400">{signups}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">No signups in this period.</p>
+          )}
+        </section>
+
+        <Summary title="All time" summary={report.totals} />
+      </div>
+    </div>
+  );
+}
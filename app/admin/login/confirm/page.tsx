@@ -0,0 +1,44 @@
+import Link from "next/link";
+
+export const metadata = {
+  title: "Sign in · Orbit admin",
+  robots: { index: false },
+};
+
+// Each sign-in link works once, so it takes a button press to use it rather
+// than the GET that link scanners make when they prefetch the email's links
+export default async function AdminLoginConfirmPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string; next?: string }>;
+}) {
+  const { token, next } = await searchParams;
+  const params = new URLSearchParams({ token: token ?? "", next: next ?? "/admin" });
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center px-4">
+      <div className="w-full max-w-md p-6 rounded-lg flex flex-col items-center gap-4 bg-white/5 border border-gray-200/10">
+        <div className="text-center">
+          <h1 className="text-lg font-semibold text-white mb-2">Orbit admin</h1>
+          <p className="text-sm text-gray-300">
+            {token ? "Continue to sign in to the admin dashboard." : "That sign-in link is incomplete."}
+          </p>
+        </div>
+        {token ? (
+          <form method="post" action={`/api/admin/auth/verify?${params}`}>
+            <button
+              type="submit"
+              className="px-8 py-3 bg-gradient-to-r from-orange-400 to-yellow-400 text-white font-semibold rounded-lg hover:from-orange-500 hover:to-yellow-500 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-orange-400"
+            >
+              Sign in
+            </button>
+          </form>
+        ) : (
+          <Link href="/admin/login" className="text-sm text-gray-400 hover:text-white transition-colors">
+            Request a new sign-in link
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
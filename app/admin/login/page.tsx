@@ -0,0 +1,30 @@
+import { AdminLoginForm } from "@/components/admin-login-form";
+
+export const metadata = {
+  title: "Sign in · Orbit admin",
+  robots: { index: false },
+};
+
+export default async function AdminLoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}) {
+  const { next, error } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center px-4">
+      <div className="w-full max-w-md p-6 rounded-lg flex flex-col items-center gap-4 bg-white/5 border border-gray-200/10">
+        <div className="text-center">
+          <h1 className="text-lg font-semibold text-white mb-2">Orbit admin</h1>
+          <p className="text-sm text-gray-300">
+            {error === "invalid-link"
+              ? "That sign-in link is invalid, has expired or was already used. Request a new one below."
+              : "Enter your admin email address and we'll send you a sign-in link."}
+          </p>
+        </div>
+        <AdminLoginForm next={next} />
+      </div>
+    </div>
+  );
+}
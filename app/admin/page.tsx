@@ -0,0 +1,146 @@
+import Link from "next/link";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { db } from "@/lib/firebase-admin";
+import { listSubscribers, type SubscriberFilters } from "@/lib/admin";
+import { ADMIN_SESSION_COOKIE, getAdminSession } from "@/lib/admin-auth";
+import { SUBSCRIBER_STATUSES } from "@/lib/subscribers";
+import { AdminHeader } from "@/components/admin-header";
+
+// Always read the current state of the list
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  title: "Subscribers · Orbit admin",
+  robots: { index: false },
+};
+
+function pageHref(filters: SubscriberFilters, page: number) {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("search", filters.search);
+  if (filters.status) params.set("status", filters.status);
+  if (filters.source) params.set("source", filters.source);
+  params.set("page", String(page));
+  return `/admin?${params}`;
+}
+
+// Exports apply the status and source filters; search only narrows the table
+function exportHref(filters: SubscriberFilters, format: "csv" | "json") {
+  const params = new URLSearchParams({ format });
+  if (filters.status) params.set("status", filters.status);
+  if (filters.source) params.set("source", filters.source);
+  return `/api/admin/subscribers/export?${params}`;
+}
+
+function formatDate(value?: string) {
+  return value ? new Date(value).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" }) : "—";
+}
+
+export default async function AdminPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ search?: string; status?: string; source?: string; page?: string }>;
+}) {
+  // middleware.ts has already checked the session; this is for the header
+  const session = getAdminSession((await cookies()).get(ADMIN_SESSION_COOKIE)?.value);
+  if (!session) {
+    redirect("/admin/login");
+  }
+
+  const { search, status, source, page } = await searchParams;
+  const filters: SubscriberFilters = { search, status, source, page: Number(page) || 1 };
+  const list = await listSubscribers(db, filters);
+
+  return (
+    <div className="min-h-screen bg-black px-4 py-12">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <AdminHeader session={session} />
+        <div className="flex items-baseline justify-between">
+          <h1 className="text-2xl font-semibold text-white">Subscribers</h1>
+          <div className="flex items-center gap-4 text-sm text-gray-400">
+            <span>{list.total} matching</span>
+            <a href={exportHref(filters, "csv")} className="hover:text-white">Export CSV</a>
+            <a href={exportHref(filters, "json")} className="hover:text-white">Export JSON</a>
+          </div>
+        </div>
+
+        <form className="flex flex-wrap gap-3" action="/admin">
+          <input
+            type="search"
+            name="search"
+            defaultValue={search}
+            placeholder="Email, subscriber ID or referral code"
+            className="flex-1 min-w-64 px-4 py-2 bg-white/5 border border-gray-200/10 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-orange-400"
+          />
+          <select
+            name="status"
+            defaultValue={status ?? ""}
+            className="px-4 py-2 bg-white/5 border border-gray-200/10 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-orange-400"
+          >
+            <option value="">Any status</option>
+            {SUBSCRIBER_STATUSES.map((value) => (
+              <option key={value} value={value}>{value}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            name="source"
+            defaultValue={source}
+            placeholder="Source"
+            className="w-40 px-4 py-2 bg-white/5 border border-gray-200/10 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-orange-400"
+          />
+          <button
+            type="submit"
+            className="px-6 py-2 bg-gradient-to-r from-orange-400 to-yellow-400 text-white font-semibold rounded-lg hover:from-orange-500 hover:to-yellow-500 transition-all duration-200"
+          >
+            Filter
+          </button>
+        </form>
+
+        <div className="overflow-x-auto rounded-lg border border-gray-200/10">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-white/5 text-gray-400">
+              <tr>
+                <th className="px-4 py-3 font-medium">Email</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+                <th className="px-4 py-3 font-medium">Source</th>
+                <th className="px-4 py-3 font-medium">Subscribed</th>
+                <th className="px-4 py-3 font-medium text-right">Referrals</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200/10 text-gray-300">
+              {list.subscribers.map((subscriber) => (
+                <tr key={subscriber.id} className="hover:bg-white/5">
+                  <td className="px-4 py-3">
+                    <Link href={`/admin/subscribers/${subscriber.id}`} className="text-white hover:text-orange-400">
+                      {subscriber.email}
+                    </Link>
+                  </td>
+                  <td className="px-4 py-3">{subscriber.status}</td>
+                  <td className="px-4 py-3">{subscriber.source || "—"}</td>
+                  <td className="px-4 py-3">{formatDate(subscriber.subscribedAt)}</td>
+                  <td className="px-4 py-3 text-right">{subscriber.referralCount}</td>
+                </tr>
+              ))}
+              {list.subscribers.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-4 py-8 text-center text-gray-500">No subscribers match these filters.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-gray-400">
+          {list.page > 1 ? (
+            <Link href={pageHref(filters, list.page - 1)} className="hover:text-white">← Previous</Link>
+          ) : <span />}
+          <span>Page {list.page} of {list.pageCount}</span>
+          {list.page < list.pageCount ? (
+            <Link href={pageHref(filters, list.page + 1)} className="hover:text-white">Next →</Link>
+          ) : <span />}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import Link from "next/link";
+import { cookies } from "next/headers";
+import { notFound, redirect } from "next/navigation";
+import { db } from "@/lib/firebase-admin";
+import { getSubscriberDetail } from "@/lib/admin";
+import { ADMIN_SESSION_COOKIE, getAdminSession, hasAdminRole } from "@/lib/admin-auth";
+import { AdminHeader } from "@/components/admin-header";
+import { AdminSubscriberActions } from "@/components/admin-subscriber-actions";
+import type { SignupAttribution } from "@/lib/subscribe-schema";
+
+export const dynamic = "force-dynamic";
+
+export const metadata = {
+  title: "Subscriber · Orbit admin",
+  robots: { index: false },
+};
+
+function formatDate(value?: string) {
+  return value ? new Date(value).toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short" }) : "—";
+}
+
+// e.g. "twitter / social / launch"
+function formatCampaign(attribution?: SignupAttribution) {
+  const parts = [attribution?.utmSource, attribution?.utmMedium, attribution?.utmCampaign].filter(Boolean);
+  return parts.join(" / ") || "—";
+}
+
+export default async function AdminSubscriberPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const session = getAdminSession((await cookies()).get(ADMIN_SESSION_COOKIE)?.value);
+  if (!session) {
+    redirect("/admin/login");
+  }
+
+  const { id } = await params;
+  const subscriber = await getSubscriberDetail(db, id);
+  if (!subscriber) {
+    notFound();
+  }
+
+  const fields: [string, string][] = [
+    ["Subscriber ID", subscriber.id],
+    ["Status", subscriber.status],
+    ["Source", subscriber.source || "—"],
+    ["Subscribed", formatDate(subscriber.subscribedAt)],
+    ["Confirmed", formatDate(subscriber.confirmedAt)],
+    ["Unsubscribed", formatDate(subscriber.unsubscribedAt)],
+    ["Referral code", subscriber.referralCode ?? "—"],
+    ["Referred by", subscriber.referredBy ?? "—"],
+    ["Referrals", String(subscriber.referralCount)],
+    ["Tags", subscriber.tags.join(", ") || "—"],
+    ["IP address", subscriber.ipAddress ?? "—"],
+    ["User agent", subscriber.userAgent ?? "—"],
+    ["Campaign", formatCampaign(subscriber.attribution)],
+    ["Referrer", subscriber.attribution?.referrer ?? "—"],
+    ["Landing page", subscriber.attribution?.landingPath ?? "—"],
+  ];
+
+  return (
+    <div className="min-h-screen bg-black px-4 py-12">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <AdminHeader session={session} />
+        <Link href="/admin" className="text-sm text-gray-400 hover:text-white transition-colors">
+          ← All subscribers
+        </Link>
+
+        <div className="p-6 rounded-lg space-y-6 bg-white/5 border border-gray-200/10">
+          <h1 className="text-2xl font-semibold text-white break-all">{subscriber.email}</h1>
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-6 gap-y-2 text-sm">
+            {fields.map(([label, value]) => (
+              <div key={label} className="contents">
+                <dt className="text-gray-400">{label}</dt>
+                <dd className="text-gray-200 break-all">{value}</dd>
+              </div>
+            ))}
+          </dl>
+          {hasAdminRole(session, "sender") && (
+            <AdminSubscriberActions subscriberId={subscriber.id} status={subscriber.status} />
+          )}
+        </div>
+
+        <div className="p-6 rounded-lg space-y-4 bg-white/5 border border-gray-200/10">
+          <h2 className="text-lg font-semibold text-white">History</h2>
+          {subscriber.history.length > 0 ? (
+            <ol className="space-y-3 text-sm">
+              {subscriber.history.map(({ event, at, ...details }, index) => (
+                <li key={index} className="flex flex-wrap gap-x-4 gap-y-1">
+                  <span className="text-gray-400 w-44 shrink-0">{formatDate(at)}</span>
+                  <span className="text-white">{event}</span>
+                  {Object.entries(details).map(([key, value]) => (
+                    <span key={key} className="text-xs text-gray-500 break-all">{key}: {value}</span>
+                  ))}
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-gray-500">No history recorded.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
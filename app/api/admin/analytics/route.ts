@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/firebase-admin';
+import { getAnalyticsReport, MAX_ANALYTICS_DAYS } from '@/lib/analytics';
+
+const reportSchema = z.object({
+  days: z.coerce.number().int().min(1).max(MAX_ANALYTICS_DAYS).default(30),
+});
+
+// The data behind /admin/analytics
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+
+  try {
+    const { days } = reportSchema.parse({ days: params.get('days') || undefined });
+
+    return NextResponse.json(
+      await getAnalyticsReport(db, days),
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: 'Invalid report options', errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Analytics report error:', error);
+    return NextResponse.json(
+      { message: 'Failed to load analytics' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/firebase-admin';
+import { ADMIN_LOGIN_TTL_SECONDS, createAdminLoginToken, getAdminRedirectPath, getAdminRole } from '@/lib/admin-auth';
+import { sendAdminLoginEmail } from '@/lib/email';
+import { getAdminLoginRateLimiter } from '@/lib/rate-limit';
+import { getSiteUrl } from '@/lib/site';
+
+const loginSchema = z.object({
+  email: z.string().email('Invalid email address').max(320),
+  next: z.string().max(2048).optional(),
+});
+
+// The same answer whether or not the address is allowed, so the allowlist can't be probed
+const SENT_MESSAGE = 'If that address belongs to an admin, a sign-in link is on its way.';
+
+export async function POST(request: Request) {
+  try {
+    const { email, next } = loginSchema.parse(await request.json());
+
+    const rateLimit = await getAdminLoginRateLimiter(db).consume(email.toLowerCase());
+    if (!rateLimit.allowed) {
+      return NextResponse.json(
+        { message: 'Too many sign-in attempts. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
+      );
+    }
+
+    if (!getAdminRole(email)) {
+      console.log('Admin sign-in requested for an address not in ADMIN_EMAILS');
+      return NextResponse.json(
+        { message: SENT_MESSAGE },
+        { status: 200 }
+      );
+    }
+
+    const params = new URLSearchParams({ token: createAdminLoginToken(email), next: getAdminRedirectPath(next) });
+    await sendAdminLoginEmail({
+      to: email,
+      loginUrl: `${getSiteUrl()}/api/admin/auth/verify?${params}`,
+      expiresInMinutes: ADMIN_LOGIN_TTL_SECONDS / 60,
+    });
+
+    return NextResponse.json(
+      { message: SENT_MESSAGE },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: 'Invalid email address', errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Admin sign-in error:', error);
+    return NextResponse.json(
+      { message: 'Failed to send sign-in link. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
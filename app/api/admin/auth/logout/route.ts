@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { ADMIN_SESSION_COOKIE } from '@/lib/admin-auth';
+
+// Posted by the sign-out form on the admin pages
+export async function POST(request: Request) {
+  const response = NextResponse.redirect(new URL('/admin/login', request.url), { status: 303 });
+  response.cookies.delete(ADMIN_SESSION_COOKIE);
+  return response;
+}
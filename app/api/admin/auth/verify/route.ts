@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import {
+  ADMIN_SESSION_COOKIE,
+  ADMIN_SESSION_TTL_SECONDS,
+  createAdminSessionToken,
+  getAdminRedirectPath,
+  redeemAdminLoginToken,
+} from '@/lib/admin-auth';
+
+// Link scanners prefetch GET URLs, and each link only signs in once, so GET
+// never uses the token. It forwards to a page whose button POSTs back here.
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const confirmUrl = new URL('/admin/login/confirm', url);
+  confirmUrl.searchParams.set('token', url.searchParams.get('token') || '');
+  confirmUrl.searchParams.set('next', getAdminRedirectPath(url.searchParams.get('next')));
+  return NextResponse.redirect(confirmUrl);
+}
+
+// Trades the short-lived link token for a session cookie and continues to the
+// page the admin originally asked for. 303 so the browser follows with a GET.
+export async function POST(request: Request) {
+  const url = new URL(request.url);
+  const token = url.searchParams.get('token');
+
+  try {
+    const email = token ? await redeemAdminLoginToken(db, token) : null;
+
+    if (!email) {
+      return NextResponse.redirect(new URL('/admin/login?error=invalid-link', url), 303);
+    }
+
+    const response = NextResponse.redirect(new URL(getAdminRedirectPath(url.searchParams.get('next')), url), 303);
+    response.cookies.set(ADMIN_SESSION_COOKIE, createAdminSessionToken(email), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: ADMIN_SESSION_TTL_SECONDS,
+    });
+    console.log('Admin signed in:', email);
+    return response;
+  } catch (error) {
+    console.error('Admin sign-in verification error:', error);
+    return NextResponse.redirect(new URL('/admin/login?error=invalid-link', url), 303);
+  }
+}
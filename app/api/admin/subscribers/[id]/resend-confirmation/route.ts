@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { resendConfirmation } from '@/lib/admin';
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const result = await resendConfirmation(db, id);
+    if (result === 'not-found') {
+      return NextResponse.json(
+        { message: 'Subscriber not found' },
+        { status: 404 }
+      );
+    }
+    if (result === 'not-allowed') {
+      return NextResponse.json(
+        { message: 'Only pending subscribers can be sent a confirmation email' },
+        { status: 409 }
+      );
+    }
+
+    console.log('Admin resent confirmation to:', id);
+    return NextResponse.json(
+      { message: 'Confirmation email sent.' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Admin resend confirmation error:', error);
+    return NextResponse.json(
+      { message: 'Failed to send confirmation email' },
+      { status: 500 }
+    );
+  }
+}
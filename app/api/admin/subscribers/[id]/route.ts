@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { deleteSubscriber, getSubscriberDetail } from '@/lib/admin';
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const subscriber = await getSubscriberDetail(db, id);
+    if (!subscriber) {
+      return NextResponse.json(
+        { message: 'Subscriber not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { subscriber },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Admin subscriber detail error:', error);
+    return NextResponse.json(
+      { message: 'Failed to load subscriber' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    if (await deleteSubscriber(db, id) === 'not-found') {
+      return NextResponse.json(
+        { message: 'Subscriber not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log('Admin deleted subscriber:', id);
+    return NextResponse.json(
+      { message: 'Subscriber deleted.' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Admin delete error:', error);
+    return NextResponse.json(
+      { message: 'Failed to delete subscriber' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { unsubscribeSubscriber } from '@/lib/admin';
+
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    if (await unsubscribeSubscriber(db, id) === 'not-found') {
+      return NextResponse.json(
+        { message: 'Subscriber not found' },
+        { status: 404 }
+      );
+    }
+
+    console.log('Admin unsubscribed subscriber:', id);
+    return NextResponse.json(
+      { message: 'Subscriber unsubscribed.' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Admin unsubscribe error:', error);
+    return NextResponse.json(
+      { message: 'Failed to unsubscribe subscriber' },
+      { status: 500 }
+    );
+  }
+}
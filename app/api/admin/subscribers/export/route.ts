@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/firebase-admin';
+import { EXPORT_FORMATS, exportSubscribers } from '@/lib/subscriber-export';
+import { SUBSCRIBER_STATUSES } from '@/lib/subscribers';
+
+// Large lists take a while to page through
+export const maxDuration = 60;
+
+const exportSchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+  status: z.enum(SUBSCRIBER_STATUSES).optional(),
+  source: z.string().optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+});
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+// Streams the file as it is read from Firestore, so the whole list is never held in memory
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+
+  let options: z.infer<typeof exportSchema>;
+  try {
+    options = exportSchema.parse({
+      format: params.get('format') || undefined,
+      status: params.get('status') || undefined,
+      source: params.get('source') || undefined,
+      since: params.get('since') || undefined,
+      until: params.get('until') || undefined,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: 'Invalid export options', errors: error.issues },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  const { format, ...filters } = options;
+  const chunks = exportSubscribers(db, filters, format);
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value));
+        }
+      } catch (error) {
+        // Headers are already sent, so the client sees a truncated download
+        console.error('Subscriber export error:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+
+  const filename = `subscribers-${new Date().toISOString().slice(0, 10)}.${format}`;
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
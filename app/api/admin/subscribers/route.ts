@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/firebase-admin';
+import { listSubscribers } from '@/lib/admin';
+import { SUBSCRIBER_STATUSES } from '@/lib/subscribers';
+
+const filtersSchema = z.object({
+  search: z.string().optional(),
+  status: z.enum(SUBSCRIBER_STATUSES).optional(),
+  source: z.string().optional(),
+  page: z.coerce.number().int().min(1).optional(),
+});
+
+// Admin only; middleware.ts checks credentials before this runs
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+
+  try {
+    const filters = filtersSchema.parse({
+      search: params.get('search') || undefined,
+      status: params.get('status') || undefined,
+      source: params.get('source') || undefined,
+      page: params.get('page') || undefined,
+    });
+
+    return NextResponse.json(
+      await listSubscribers(db, filters),
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { message: 'Invalid filters', errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Admin subscriber list error:', error);
+    return NextResponse.json(
+      { message: 'Failed to list subscribers' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { dispatchDueCampaigns } from '@/lib/campaigns';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { getBroadcastSender } from '@/lib/email';
+
+// Each run sends in bounded chunks, so a minute is plenty
+export const maxDuration = 60;
+
+// Runs on the schedule in vercel.json. Each run sends at most CRON_DISPATCH_LIMIT
+// deliveries, so a large campaign is spread over several runs.
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json(
+      { message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const results = await dispatchDueCampaigns(db, {
+      send: getBroadcastSender(),
+      maxDeliveries: Number(process.env.CRON_DISPATCH_LIMIT) || 1000,
+    });
+
+    for (const result of results) {
+      console.log('Dispatched campaign:', result);
+    }
+
+    return NextResponse.json(
+      { campaigns: results },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Campaign dispatch error:', error);
+    return NextResponse.json(
+      { message: 'Failed to dispatch campaigns' },
+      { status: 500 }
+    );
+  }
+}
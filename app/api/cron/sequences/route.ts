@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { db } from '@/lib/firebase-admin';
+import { isAuthorizedCronRequest } from '@/lib/cron';
+import { getBroadcastSender } from '@/lib/email';
+import { advanceSequences } from '@/lib/sequences';
+
+// Each run sends in bounded chunks, so a minute is plenty
+export const maxDuration = 60;
+
+// Runs on the schedule in vercel.json. Each run sends at most CRON_SEQUENCE_LIMIT
+// emails; subscribers left over are picked up by the next run.
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json(
+      { message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const results = await advanceSequences(db, {
+      send: getBroadcastSender(),
+      maxDeliveries: Number(process.env.CRON_SEQUENCE_LIMIT) || 1000,
+    });
+
+    for (const result of results) {
+      console.log('Advanced sequence:', result);
+    }
+
+    return NextResponse.json(
+      { sequences: results },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Sequence advance error:', error);
+    return NextResponse.json(
+      { message: 'Failed to advance sequences' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '@/lib/firebase-admin';
+import { verifyToken } from '@/lib/tokens';
+import { getSubscriberSnapshot, historyEntry } from '@/lib/subscribers';
+import { referralCredit } from '@/lib/waitlist';
+import { recordAnalyticsEvent } from '@/lib/analytics';
+
+type ConfirmationStatus = 'confirmed' | 'already-confirmed' | 'invalid' | 'expired' | 'error';
+
+// 303 so the browser follows the form POST with a GET of the result page
+function redirectTo(request: Request, status: ConfirmationStatus) {
+  return NextResponse.redirect(new URL(`/subscribe/confirmed?status=${status}`, request.url), 303);
+}
+
+// Mail clients and link scanners prefetch GET URLs, so GET never changes state.
+// It forwards to the landing page, whose button POSTs back here to confirm.
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token') || '';
+  const landingUrl = new URL('/subscribe/confirm', request.url);
+  landingUrl.searchParams.set('token', token);
+  return NextResponse.redirect(landingUrl);
+}
+
+export async function POST(request: Request) {
+  const token = new URL(request.url).searchParams.get('token');
+
+  if (!token) {
+    return redirectTo(request, 'invalid');
+  }
+
+  try {
+    const verification = verifyToken(token, 'confirm');
+    if (!verification.ok) {
+      console.log('Rejected confirmation token:', verification.reason);
+      return redirectTo(request, verification.reason);
+    }
+
+    const subscriber = await getSubscriberSnapshot(db, verification.payload.sub);
+
+    if (!subscriber) {
+      console.log('Confirmation token for unknown subscriber:', verification.payload.sub);
+      return redirectTo(request, 'invalid');
+    }
+
+    // Re-read inside a transaction so that two clicks on the same link (or a
+    // link scanner racing the subscriber) can't both confirm and credit the referrer
+    const outcome = await db.runTransaction(async (transaction): Promise<{ status: ConfirmationStatus; referred: boolean }> => {
+      const current = await transaction.get(subscriber.ref);
+      const { status, referredBy, referralCredited } = current.data() ?? {};
+      if (status === 'active') {
+        return { status: 'already-confirmed', referred: false };
+      }
+
+      if (status !== 'pending') {
+        console.log('Refusing to confirm subscriber with status:', status);
+        return { status: 'invalid', referred: false };
+      }
+
+      // Credit the referrer once per subscriber, even if they later re-subscribe and confirm again.
+      // A referrer whose document has since been deleted is skipped.
+      const referrerRef = referredBy && !referralCredited ? db.collection('email_subscribers').doc(referredBy) : null;
+      const referred = referrerRef ? (await transaction.get(referrerRef)).exists : false;
+
+      transaction.update(subscriber.ref, {
+        status: 'active',
+        confirmedAt: new Date().toISOString(),
+        history: FieldValue.arrayUnion(historyEntry('confirmed')),
+        ...(referred && { referralCredited: true }),
+      });
+      if (referrerRef && referred) {
+        transaction.update(referrerRef, referralCredit());
+      }
+      return { status: 'confirmed', referred };
+    });
+
+    if (outcome.status !== 'confirmed') {
+      return redirectTo(request, outcome.status);
+    }
+
+    console.log('Subscriber confirmed:', subscriber.id, outcome.referred ? '(referral credited)' : '');
+    await recordAnalyticsEvent(db, 'confirmation', { referred: outcome.referred });
+
+    return redirectTo(request, 'confirmed');
+  } catch (error) {
+    console.error('Confirmation error:', error);
+    return redirectTo(request, 'error');
+  }
+}
@@ -1,43 +1,43 @@
 import { NextResponse } from 'next/server';
 import { z } from 'zod';
-import { initializeApp, getApps, cert } from 'firebase-admin/app';
-import { getFirestore } from 'firebase-admin/firestore';
-import { sendConfirmationEmail } from '@/lib/email';
-
-const emailSchema = z.object({
-  email: z.string().email('Invalid email address'),
-  source: z.string().optional(),
-  timestamp: z.string().optional(),
-});
-
-if (!getApps().length) {
-  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY
-    ? JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY)
-    : null;
-
-  if (!serviceAccount) {
-    console.error('Firebase service account not found in environment variables');
-    throw new Error('Firebase configuration missing');
-  }
-
-  if (!process.env.FIREBASE_PROJECT_ID) {
-    console.error('Firebase project ID not found in environment variables');
-    throw new Error('Firebase project ID missing');
-  }
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '@/lib/firebase-admin';
+import { getConfirmUrl, sendConfirmationEmail } from '@/lib/email';
+import { getFormTokenRateLimiter, getSubscribeRateLimiter } from '@/lib/rate-limit';
+import { detectBot } from '@/lib/bot-defense';
+import { getCaptchaVerifier, type CaptchaVerification } from '@/lib/captcha';
+import { assessEmail } from '@/lib/email-quality';
+import { getSubscriberId, historyEntry } from '@/lib/subscribers';
+import { emailSchema } from '@/lib/subscribe-schema';
+import { recordAnalyticsEvent } from '@/lib/analytics';
+import {
+  findSubscriberByReferralCode,
+  generateReferralCode,
+  getReferralLink,
+  getWaitlistPosition,
+  reserveSignupNumber,
+} from '@/lib/waitlist';
 
-  console.log('Initializing Firebase with project ID:', process.env.FIREBASE_PROJECT_ID);
-
-  initializeApp({
-    credential: cert(serviceAccount),
-    projectId: process.env.FIREBASE_PROJECT_ID,
-  });
-}
-
-const db = getFirestore();
+type SubscribeOutcome = 'created' | 'active' | 'pending' | 'resubscribed' | 'bounced';
 
 export async function POST(request: Request) {
   try {
     console.log('API endpoint called');
+    const ipAddress = request.headers.get('x-forwarded-for') ||
+      request.headers.get('x-real-ip') ||
+      'unknown';
+
+    // x-forwarded-for may list every proxy hop; the client is the first entry
+    const clientIp = ipAddress.split(',')[0].trim();
+    const rateLimit = await getSubscribeRateLimiter(db).consume(clientIp);
+    if (!rateLimit.allowed) {
+      console.log('Rate limit exceeded for:', clientIp);
+      return NextResponse.json(
+        { message: 'Too many requests. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfterSeconds) } }
+      );
+    }
+
     const body = await request.json();
     console.log('Request body received:', { email: body.email, source: body.source });
 
@@ -48,43 +48,214 @@ export async function POST(request: Request) {
       email: validatedData.email.toLowerCase(),
       source: validatedData.source || 'website',
       subscribedAt: new Date().toISOString(),
-      status: 'active',
-      ipAddress: request.headers.get('x-forwarded-for') ||
-        request.headers.get('x-real-ip') ||
-        'unknown',
+      status: 'pending',
+      ipAddress,
       userAgent: request.headers.get('user-agent') || 'unknown',
+      referralCode: generateReferralCode(),
+      referralCount: 0,
     };
 
+    const rejectedReason = await detectBot(validatedData, getFormTokenRateLimiter(db));
+
+    // Most likely a person who left the page open for a day, so tell them what to do
+    if (rejectedReason === 'expired-form-token') {
+      return NextResponse.json(
+        { message: 'This page has expired. Please refresh the page and try again.', reason: rejectedReason },
+        { status: 400 }
+      );
+    }
+
+    // Bots get the same response as humans so they can't tell they were caught
+    if (rejectedReason) {
+      console.log('Discarding suspected bot submission:', rejectedReason);
+      try {
+        await db.collection('email_rejections').add({
+          email: subscriberData.email,
+          source: subscriberData.source,
+          rejectedReason,
+          rejectedAt: new Date().toISOString(),
+          ipAddress: subscriberData.ipAddress,
+          userAgent: subscriberData.userAgent,
+        });
+      } catch (rejectionError) {
+        console.error('Failed to record rejected submission:', rejectionError);
+      }
+
+      return NextResponse.json(
+        { message: 'Successfully subscribed!', email: subscriberData.email, status: 'pending' },
+        { status: 201 }
+      );
+    }
+
+    const captchaVerifier = getCaptchaVerifier();
+    if (captchaVerifier) {
+      let captcha: CaptchaVerification;
+      try {
+        captcha = validatedData.captchaToken
+          ? await captchaVerifier.verify(validatedData.captchaToken, clientIp)
+          : { success: false, errorCodes: ['missing-input-response'] };
+      } catch (captchaError) {
+        // The provider is down or unreachable, which says nothing about the visitor
+        console.error('CAPTCHA verification unavailable:', captchaError);
+        return NextResponse.json(
+          { message: "We couldn't verify the challenge right now. Please try again in a moment." },
+          { status: 503 }
+        );
+      }
+
+      if (!captcha.success) {
+        console.log('CAPTCHA verification failed:', captcha.errorCodes);
+        return NextResponse.json(
+          { message: 'Challenge verification failed. Please try again.' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const assessment = await assessEmail(subscriberData.email, {
+      checkMx: process.env.EMAIL_MX_CHECK === 'true',
+    });
+    if (!assessment.ok) {
+      console.log('Rejected low-quality email:', assessment.reason);
+      return NextResponse.json(
+        { message: assessment.message, reason: assessment.reason },
+        { status: 422 }
+      );
+    }
+
+    // The ID is derived from the normalized email, so the read and create below
+    // run in one transaction and concurrent signups can't create two documents.
+    const subscriberId = getSubscriberId(assessment.normalizedEmail);
+    const subscriberRef = db.collection('email_subscribers').doc(subscriberId);
+
+    // Unknown codes and self-referrals are ignored rather than failing the signup.
+    // The referrer is only credited once this subscriber confirms.
+    const referrer = validatedData.ref
+      ? await findSubscriberByReferralCode(db, validatedData.ref)
+      : null;
+    const referredBy = referrer && referrer.id !== subscriberId ? referrer.id : undefined;
+
     console.log('Checking for existing subscriber...');
-    const existingSubscriber = await db
-      .collection('email_subscribers')
-      .where('email', '==', subscriberData.email)
-      .limit(1)
-      .get();
+    let waitlistScore = 0;
+    const outcome = await db.runTransaction(async (transaction): Promise<SubscribeOutcome> => {
+      const existingSubscriber = await transaction.get(subscriberRef);
+      if (!existingSubscriber.exists) {
+        const signup = await reserveSignupNumber(db, transaction);
+        waitlistScore = signup.signupNumber;
+        transaction.create(subscriberRef, {
+          ...subscriberData,
+          normalizedEmail: assessment.normalizedEmail,
+          ...(assessment.roleAccount && { roleAccount: true }),
+          signupNumber: signup.signupNumber,
+          waitlistScore,
+          ...(referredBy && { referredBy }),
+          // First-touch attribution stays with the original signup, even if they sign up again later
+          ...(validatedData.attribution && { attribution: validatedData.attribution }),
+          history: [historyEntry('subscribed', { source: subscriberData.source })],
+        });
+        signup.commit();
+        return 'created';
+      }
+
+      const status = existingSubscriber.data()?.status;
+      if (status === 'pending') {
+        transaction.update(subscriberRef, {
+          history: FieldValue.arrayUnion(historyEntry('confirmation-resent')),
+        });
+        return 'pending';
+      }
+
+      // Coming back after unsubscribing (or marking an email as spam) counts as a
+      // fresh opt-in, so it needs confirming again
+      if (status === 'unsubscribed' || status === 'complained') {
+        transaction.update(subscriberRef, {
+          status: 'pending',
+          resubscribedAt: subscriberData.subscribedAt,
+          history: FieldValue.arrayUnion(historyEntry('resubscribed', { source: subscriberData.source })),
+        });
+        return 'resubscribed';
+      }
 
-    if (!existingSubscriber.empty) {
+      return status === 'bounced' ? 'bounced' : 'active';
+    });
+
+    if (outcome === 'active') {
       console.log('Email already exists:', subscriberData.email);
       return NextResponse.json(
-        { message: 'Email already subscribed' },
+        { message: 'Email already subscribed', status: 'active' },
+        { status: 409 }
+      );
+    }
+
+    if (outcome === 'bounced') {
+      console.log('Email previously bounced:', subscriberData.email);
+      return NextResponse.json(
+        {
+          message: "We couldn't deliver email to this address before. Please check it for typos or use a different one.",
+          status: 'bounced',
+        },
         { status: 409 }
       );
     }
 
-    console.log('Adding new subscriber to Firestore...');
-    const docRef = await db.collection('email_subscribers').add(subscriberData);
-    console.log('Successfully added subscriber with ID:', docRef.id);
+    console.log(`Subscriber ${subscriberId} ${outcome}`);
+    // A pending subscriber submitting the form again only gets a new link, not another signup
+    if (outcome !== 'pending') {
+      await recordAnalyticsEvent(db, 'signup', {
+        source: subscriberData.source,
+        referred: outcome === 'created' && referredBy !== undefined,
+      });
+    }
 
-    // Send confirmation email (non-blocking - we don't fail the subscription if email fails)
+    // Send confirmation email (non-blocking - we don't fail the subscription if email fails).
+    // The subscriber stays 'pending' until they follow the signed link in this email.
     try {
-      await sendConfirmationEmail({ to: subscriberData.email });
+      await sendConfirmationEmail({ to: subscriberData.email, subscriberId, confirmUrl: getConfirmUrl(subscriberId) });
       console.log('Confirmation email sent to:', subscriberData.email);
     } catch (emailError) {
       console.error('Failed to send confirmation email:', emailError);
       // Continue anyway - subscription was successful
     }
 
+    if (outcome === 'pending') {
+      return NextResponse.json(
+        {
+          message: "You've already signed up. We've sent you a new confirmation link.",
+          email: subscriberData.email,
+          status: 'pending',
+        },
+        { status: 200 }
+      );
+    }
+
+    if (outcome === 'resubscribed') {
+      return NextResponse.json(
+        {
+          message: 'Welcome back! Check your email to confirm your subscription.',
+          email: subscriberData.email,
+          status: 'pending',
+        },
+        { status: 200 }
+      );
+    }
+
+    // The signup is already saved, so a failed position lookup just leaves it out
+    let position: number | undefined;
+    try {
+      position = await getWaitlistPosition(db, waitlistScore);
+    } catch (positionError) {
+      console.error('Failed to look up waitlist position:', positionError);
+    }
+
     return NextResponse.json(
-      { message: 'Successfully subscribed!', email: subscriberData.email },
+      {
+        message: 'Successfully subscribed!',
+        email: subscriberData.email,
+        status: subscriberData.status,
+        position,
+        referralCode: subscriberData.referralCode,
+        shareLink: getReferralLink(subscriberData.referralCode),
+      },
       { status: 201 }
     );
   } catch (error) {
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '@/lib/firebase-admin';
+import { verifyToken } from '@/lib/tokens';
+import { getSubscriberSnapshot, historyEntry, isMoreRestrictive } from '@/lib/subscribers';
+import { recordAnalyticsEvent } from '@/lib/analytics';
+
+// Mail clients and link scanners prefetch GET URLs, so GET never changes state.
+// It forwards to the landing page, which asks the subscriber to confirm.
+export async function GET(request: Request) {
+  const token = new URL(request.url).searchParams.get('token') || '';
+  const landingUrl = new URL('/unsubscribe', request.url);
+  landingUrl.searchParams.set('token', token);
+  return NextResponse.redirect(landingUrl);
+}
+
+// Handles both the landing page button and RFC 8058 one-click requests, which
+// POST `List-Unsubscribe=One-Click` to the URL from the List-Unsubscribe header.
+export async function POST(request: Request) {
+  const token = new URL(request.url).searchParams.get('token');
+
+  if (!token) {
+    return NextResponse.json(
+      { message: 'Missing unsubscribe token' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const verification = verifyToken(token, 'unsubscribe');
+    if (!verification.ok) {
+      console.log('Rejected unsubscribe token:', verification.reason);
+      return NextResponse.json(
+        { message: 'Invalid unsubscribe link' },
+        { status: 400 }
+      );
+    }
+
+    const subscriber = await getSubscriberSnapshot(db, verification.payload.sub);
+
+    if (!subscriber) {
+      return NextResponse.json(
+        { message: 'Subscriber not found' },
+        { status: 404 }
+      );
+    }
+
+    // Bounced and complained addresses stay that way, so the link can't be used
+    // to make them look like a plain unsubscribe that may sign up again
+    if (isMoreRestrictive('unsubscribed', subscriber.data()?.status)) {
+      await subscriber.ref.update({
+        status: 'unsubscribed',
+        unsubscribedAt: new Date().toISOString(),
+        history: FieldValue.arrayUnion(historyEntry('unsubscribed')),
+      });
+      console.log('Subscriber unsubscribed:', subscriber.id);
+      await recordAnalyticsEvent(db, 'unsubscribe');
+    }
+
+    return NextResponse.json(
+      { message: 'You have been unsubscribed.' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Unsubscribe error:', error);
+    return NextResponse.json(
+      { message: 'Failed to unsubscribe. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/firebase-admin';
+import { verifyToken } from '@/lib/tokens';
+import { getSubscriberSnapshot } from '@/lib/subscribers';
+import { getPreferences } from '@/lib/waitlist';
+
+const preferencesSchema = z.object({
+  productUpdates: z.boolean().optional(),
+  betaInvites: z.boolean().optional(),
+});
+
+// Saves the toggles from the `/waitlist/[token]` page, authorized by the same token
+export async function POST(request: Request) {
+  const token = new URL(request.url).searchParams.get('token');
+
+  if (!token) {
+    return NextResponse.json(
+      { message: 'Missing waitlist token' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const verification = verifyToken(token, 'waitlist');
+    if (!verification.ok) {
+      console.log('Rejected waitlist token:', verification.reason);
+      return NextResponse.json(
+        { message: 'Invalid waitlist link' },
+        { status: 400 }
+      );
+    }
+
+    const updates = preferencesSchema.parse(await request.json());
+    const subscriber = await getSubscriberSnapshot(db, verification.payload.sub);
+
+    if (!subscriber) {
+      return NextResponse.json(
+        { message: 'Subscriber not found' },
+        { status: 404 }
+      );
+    }
+
+    const preferences = { ...getPreferences(subscriber.data()), ...updates };
+    await subscriber.ref.update({
+      preferences,
+      preferencesUpdatedAt: new Date().toISOString(),
+    });
+    console.log('Preferences updated for:', subscriber.id);
+
+    return NextResponse.json(
+      { message: 'Your preferences have been saved.', preferences },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      console.error('Validation error:', error.issues);
+      return NextResponse.json(
+        { message: 'Invalid preferences', errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Preferences error:', error);
+    return NextResponse.json(
+      { message: 'Failed to save preferences. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { db } from '@/lib/firebase-admin';
+import { recordEmailEvent } from '@/lib/email-events';
+import { verifyWebhookSignature } from '@/lib/webhooks';
+
+// Resend delivers events through Svix, which retries anything but a 2xx with
+// backoff for several days. Signature failures and malformed events get a 4xx;
+// storage errors get a 500 so the event is delivered again.
+export async function POST(request: Request) {
+  const secret = process.env.RESEND_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('RESEND_WEBHOOK_SECRET is not configured; refusing webhook');
+    return NextResponse.json(
+      { message: 'Webhook not configured' },
+      { status: 500 }
+    );
+  }
+
+  // The signature covers the exact bytes that were sent, so read the raw body
+  const payload = await request.text();
+  const headers = {
+    id: request.headers.get('svix-id'),
+    timestamp: request.headers.get('svix-timestamp'),
+    signature: request.headers.get('svix-signature'),
+  };
+
+  const verification = verifyWebhookSignature(payload, headers, secret);
+  if (!verification.ok) {
+    console.log('Rejected Resend webhook:', verification.reason);
+    return NextResponse.json(
+      { message: 'Invalid signature' },
+      { status: 401 }
+    );
+  }
+
+  let event: unknown;
+  try {
+    event = JSON.parse(payload);
+  } catch {
+    console.error('Malformed Resend webhook: body is not JSON');
+    return NextResponse.json(
+      { message: 'Invalid event' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const outcome = await recordEmailEvent(db, headers.id!, event);
+    console.log(`Resend webhook ${headers.id} ${outcome}`);
+
+    return NextResponse.json(
+      { received: true },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      console.error('Malformed Resend webhook:', error.issues);
+      return NextResponse.json(
+        { message: 'Invalid event', errors: error.issues },
+        { status: 400 }
+      );
+    }
+
+    console.error('Resend webhook error:', error);
+    return NextResponse.json(
+      { message: 'Failed to record event' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,38 @@
 import AnimatedShaderHero from "@/components/ui/animated-shader-hero";
 import { EmailSignupForm } from "@/components/email-signup-form";
+import type { CaptchaConfig } from "@/components/captcha-widget";
+import { issueFormToken } from "@/lib/bot-defense";
+
+// The signup form embeds a per-render timestamp token, so this page can't be static
+export const dynamic = "force-dynamic";
+
+function getFormToken(): string | undefined {
+  try {
+    return issueFormToken();
+  } catch (error) {
+    console.error("Failed to issue signup form token:", error);
+    return undefined;
+  }
+}
+
+function getCaptchaConfig(): CaptchaConfig | undefined {
+  const provider = process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER;
+  const siteKey = process.env.NEXT_PUBLIC_CAPTCHA_SITE_KEY;
+
+  if ((provider === "turnstile" || provider === "hcaptcha") && siteKey) {
+    return { provider, siteKey };
+  }
+  return undefined;
+}
+
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ ref?: string | string[] }>;
+}) {
+  const { ref } = await searchParams;
+  const referralCode = typeof ref === "string" ? ref : undefined;
 
-export default function Home() {
   return (
     <div className="min-h-screen">
       <AnimatedShaderHero
@@ -12,7 +43,11 @@ export default function Home() {
         subtitle="cursor for music production"
       >
         <div className="mt-8">
-          <EmailSignupForm />
+          <EmailSignupForm
+            formToken={getFormToken()}
+            captcha={getCaptchaConfig()}
+            referralCode={referralCode}
+          />
         </div>
       </AnimatedShaderHero>
     </div>
@@ -0,0 +1,53 @@
+import Link from "next/link";
+import { AlertCircle } from "lucide-react";
+
+export const metadata = {
+  title: "Confirm your subscription · Orbit",
+  robots: { index: false },
+};
+
+// Confirming takes a button press, which link scanners don't make, so an
+// address is only confirmed by the person who owns it
+export default async function ConfirmSubscriptionPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center px-4">
+      <div className="w-full max-w-md flex flex-col items-center gap-4">
+        {token ? (
+          <form
+            method="post"
+            action={`/api/subscribe/confirm?token=${encodeURIComponent(token)}`}
+            className="w-full p-6 rounded-lg flex flex-col items-center gap-4 bg-white/5 border border-gray-200/10"
+          >
+            <div className="text-center">
+              <h1 className="text-lg font-semibold text-white mb-2">Confirm your subscription</h1>
+              <p className="text-sm text-gray-300">Confirm your email address to join the Orbit waitlist.</p>
+            </div>
+            <button
+              type="submit"
+              className="px-8 py-3 bg-gradient-to-r from-orange-400 to-yellow-400 text-white font-semibold rounded-lg hover:from-orange-500 hover:to-yellow-500 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-orange-400"
+            >
+              Confirm subscription
+            </button>
+          </form>
+        ) : (
+          <div className="w-full p-6 rounded-lg flex flex-col items-center gap-4 bg-red-500/10 border border-red-500/20 text-red-400">
+            <AlertCircle className="h-12 w-12" />
+            <div className="text-center">
+              <h1 className="text-lg font-semibold text-white mb-2">Invalid link</h1>
+              <p className="text-sm text-gray-300">Use the confirmation link from your welcome email.</p>
+            </div>
+          </div>
+        )}
+        <Link href="/" className="text-sm text-gray-400 hover:text-white transition-colors">
+          Back to Orbit
+        </Link>
+      </div>
+    </div>
+  );
+}
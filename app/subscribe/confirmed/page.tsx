@@ -0,0 +1,61 @@
+import Link from "next/link";
+import { CheckCircle2, AlertCircle } from "lucide-react";
+
+const messages: Record<string, { success: boolean; title: string; body: string }> = {
+  confirmed: {
+    success: true,
+    title: "You're on the list!",
+    body: "Your email is confirmed. We'll keep you updated on our progress and let you know when we launch.",
+  },
+  "already-confirmed": {
+    success: true,
+    title: "Already confirmed",
+    body: "This email address was already confirmed. You're all set.",
+  },
+  expired: {
+    success: false,
+    title: "Link expired",
+    body: "This confirmation link has expired. Sign up again and we'll send you a fresh one.",
+  },
+  invalid: {
+    success: false,
+    title: "Invalid link",
+    body: "This confirmation link is invalid or has already been used.",
+  },
+  error: {
+    success: false,
+    title: "Something went wrong",
+    body: "We couldn't confirm your subscription. Please try the link again in a moment.",
+  },
+};
+
+export default async function ConfirmedPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string }>;
+}) {
+  const { status } = await searchParams;
+  const message = messages[status ?? ""] ?? messages.invalid;
+  const Icon = message.success ? CheckCircle2 : AlertCircle;
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center px-4">
+      <div
+        className={`w-full max-w-md p-6 rounded-lg flex flex-col items-center gap-4 ${
+          message.success
+            ? "bg-green-500/10 border border-green-500/20 text-green-400"
+            : "bg-red-500/10 border border-red-500/20 text-red-400"
+        }`}
+      >
+        <Icon className="h-12 w-12" />
+        <div className="text-center">
+          <h1 className="text-lg font-semibold text-white mb-2">{message.title}</h1>
+          <p className="text-sm text-gray-300">{message.body}</p>
+        </div>
+        <Link href="/" className="text-sm text-gray-400 hover:text-white transition-colors">
+          Back to Orbit
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import Link from "next/link";
+import { AlertCircle } from "lucide-react";
+import { UnsubscribeForm } from "@/components/unsubscribe-form";
+
+export default async function UnsubscribePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center px-4">
+      <div className="w-full max-w-md flex flex-col items-center gap-4">
+        {token ? (
+          <UnsubscribeForm token={token} />
+        ) : (
+          <div className="w-full p-6 rounded-lg flex flex-col items-center gap-4 bg-red-500/10 border border-red-500/20 text-red-400">
+            <AlertCircle className="h-12 w-12" />
+            <div className="text-center">
+              <h1 className="text-lg font-semibold text-white mb-2">Invalid link</h1>
+              <p className="text-sm text-gray-300">Use the unsubscribe link from one of our emails.</p>
+            </div>
+          </div>
+        )}
+        <Link href="/" className="text-sm text-gray-400 hover:text-white transition-colors">
+          Back to Orbit
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import Link from "next/link";
+import { AlertCircle } from "lucide-react";
+import { db } from "@/lib/firebase-admin";
+import { signToken, verifyToken } from "@/lib/tokens";
+import { getWaitlistStatus, type WaitlistStatus } from "@/lib/waitlist";
+import { ShareLink } from "@/components/share-link";
+import { UnsubscribeForm } from "@/components/unsubscribe-form";
+import { WaitlistPreferencesForm } from "@/components/waitlist-preferences-form";
+
+// Position and referral count change as people sign up, so always render fresh
+export const dynamic = "force-dynamic";
+
+const statusLabels: Record<string, { label: string; className: string }> = {
+  active: { label: "Confirmed", className: "bg-green-500/10 border-green-500/20 text-green-400" },
+  pending: { label: "Awaiting confirmation", className: "bg-yellow-500/10 border-yellow-500/20 text-yellow-400" },
+  unsubscribed: { label: "Unsubscribed", className: "bg-gray-500/10 border-gray-500/20 text-gray-400" },
+  bounced: { label: "Email bouncing", className: "bg-red-500/10 border-red-500/20 text-red-400" },
+  complained: { label: "Marked as spam", className: "bg-gray-500/10 border-gray-500/20 text-gray-400" },
+};
+
+// We no longer email these subscribers, so there is nothing to manage or unsubscribe from
+const stoppedMessages: Record<string, string> = {
+  bounced: "Emails to this address are bouncing, so we've stopped sending them.",
+  complained: "One of our emails was reported as spam, so we've stopped emailing you.",
+};
+
+async function loadWaitlistStatus(token: string): Promise<WaitlistStatus | null> {
+  try {
+    const verification = verifyToken(token, "waitlist");
+    if (!verification.ok) {
+      console.log("Rejected waitlist token:", verification.reason);
+      return null;
+    }
+    return await getWaitlistStatus(db, verification.payload.sub);
+  } catch (error) {
+    console.error("Failed to load waitlist status:", error);
+    return null;
+  }
+}
+
+export default async function WaitlistPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const waitlist = await loadWaitlistStatus(token);
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center px-4 py-12">
+      <div className="w-full max-w-md flex flex-col items-center gap-4">
+        {waitlist ? (
+          <WaitlistDetails token={token} waitlist={waitlist} />
+        ) : (
+          <div className="w-full p-6 rounded-lg flex flex-col items-center gap-4 bg-red-500/10 border border-red-500/20 text-red-400">
+            <AlertCircle className="h-12 w-12" />
+            <div className="text-center">
+              <h1 className="text-lg font-semibold text-white mb-2">Invalid link</h1>
+              <p className="text-sm text-gray-300">Use the waitlist link from your confirmation email.</p>
+            </div>
+          </div>
+        )}
+        <Link href="/" className="text-sm text-gray-400 hover:text-white transition-colors">
+          Back to Orbit
+        </Link>
+      </div>
+    </div>
+  );
+}
+
+function WaitlistDetails({ token, waitlist }: { token: string; waitlist: WaitlistStatus }) {
+  const status = statusLabels[waitlist.status] ?? statusLabels.pending;
+  const stoppedMessage = stoppedMessages[waitlist.status];
+
+  return (
+    <>
+      <div className="w-full p-6 rounded-lg flex flex-col items-center gap-4 bg-white/5 border border-gray-200/10">
+        <div className="text-center">
+          <h1 className="text-lg font-semibold text-white mb-1">Your waitlist spot</h1>
+          <p className="text-sm text-gray-400">{waitlist.email}</p>
+        </div>
+        <span className={`px-3 py-1 rounded-full border text-xs font-medium ${status.className}`}>
+          {status.label}
+        </span>
+        <div className="w-full grid grid-cols-2 gap-4 text-center">
+          <div>
+            <p className="text-3xl font-bold text-white">
+              {waitlist.position !== undefined ? `#${waitlist.position}` : "—"}
+            </p>
+            <p className="text-xs text-gray-400">Position</p>
+          </div>
+          <div>
+            <p className="text-3xl font-bold text-white">{waitlist.referralCount}</p>
+            <p className="text-xs text-gray-400">
+              {waitlist.referralCount === 1 ? "Referral" : "Referrals"}
+            </p>
+          </div>
+        </div>
+        <div className="w-full space-y-2 text-center">
+          <p className="text-xs text-gray-400">Share your link to move up the waitlist:</p>
+          <ShareLink url={waitlist.shareLink} />
+        </div>
+      </div>
+
+      {stoppedMessage ? (
+        <div className="w-full p-6 rounded-lg bg-white/5 border border-gray-200/10">
+          <p className="text-sm text-gray-300 text-center">{stoppedMessage}</p>
+        </div>
+      ) : waitlist.status !== "unsubscribed" && (
+        <>
+          <div className="w-full p-6 rounded-lg flex flex-col items-center gap-4 bg-white/5 border border-gray-200/10">
+            <h2 className="text-lg font-semibold text-white">Email preferences</h2>
+            <WaitlistPreferencesForm token={token} initialPreferences={waitlist.preferences} />
+          </div>
+          <div className="w-full">
+            <UnsubscribeForm token={signToken(waitlist.subscriberId, "unsubscribe")} />
+          </div>
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,33 @@
+interface AdminBarChartProps {
+  title: string;
+  bars: { label: string; value: number }[];
+  /** Accessible description of what the bars count, e.g. "signups". */
+  unit: string;
+}
+
+// Plain HTML bars, so the admin pages need no charting library
+export function AdminBarChart({ title, bars, unit }: AdminBarChartProps) {
+  const max = Math.max(1, ...bars.map((bar) => bar.value));
+
+  return (
+    <figure className="p-6 rounded-lg space-y-4 bg-white/5 border border-gray-200/10">
+      <figcaption className="text-sm font-medium text-white">{title}</figcaption>
+      <div className="flex items-end gap-px h-40" role="img" aria-label={`${title}: ${bars.map((bar) => `${bar.label} ${bar.value} ${unit}`).join(", ")}`}>
+        {bars.map((bar) => (
+          <div key={bar.label} className="flex-1 h-full flex items-end" title={`${bar.label}: ${bar.value} ${unit}`}>
+            <div
+              className="w-full rounded-t-sm bg-gradient-to-t from-orange-400 to-yellow-400"
+              style={{ height: `${(bar.value / max) * 100}%`, minHeight: bar.value > 0 ? 2 : 0 }}
+            />
+          </div>
+        ))}
+      </div>
+      {bars.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{bars[0].label}</span>
+          <span>{bars[bars.length - 1].label}</span>
+        </div>
+      )}
+    </figure>
+  );
+}
@@ -0,0 +1,34 @@
+import Link from "next/link";
+import type { AdminSession } from "@/lib/admin-auth";
+
+interface AdminHeaderProps {
+  session: AdminSession;
+}
+
+export function AdminHeader({ session }: AdminHeaderProps) {
+  return (
+    <header className="flex items-center justify-between text-sm text-gray-400">
+      <nav className="flex items-center gap-4">
+        <Link href="/admin" className="font-semibold text-white hover:text-orange-400">
+          Orbit admin
+        </Link>
+        <Link href="/admin" className="hover:text-white transition-colors">
+          Subscribers
+        </Link>
+        <Link href="/admin/analytics" className="hover:text-white transition-colors">
+          Analytics
+        </Link>
+      </nav>
+      <div className="flex items-center gap-4">
+        <span>
+          {session.email} · {session.role}
+        </span>
+        <form action="/api/admin/auth/logout" method="post">
+          <button type="submit" className="hover:text-white transition-colors">
+            Sign out
+          </button>
+        </form>
+      </div>
+    </header>
+  );
+}
@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, CheckCircle2, AlertCircle } from "lucide-react";
+
+interface AdminLoginFormProps {
+  next?: string;
+}
+
+export function AdminLoginForm({ next }: AdminLoginFormProps) {
+  const [email, setEmail] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitStatus, setSubmitStatus] = useState<{
+    type: "success" | "error" | null;
+    message: string;
+  }>({ type: null, message: "" });
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setSubmitStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch("/api/admin/auth/login", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ email, next }),
+      });
+      const result = await response.json();
+
+      setSubmitStatus({
+        type: response.ok ? "success" : "error",
+        message: result.message || "Something went wrong. Please try again.",
+      });
+    } catch (error) {
+      console.error('Admin sign-in error:', error);
+      setSubmitStatus({
+        type: "error",
+        message: "Network error. Please check your connection and try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="w-full space-y-4">
+      <input
+        type="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="you@example.com"
+        aria-label="Email address"
+        className="w-full px-4 py-3 bg-white/5 border border-gray-200/10 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-orange-400"
+      />
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full px-8 py-3 bg-gradient-to-r from-orange-400 to-yellow-400 text-white font-semibold rounded-lg hover:from-orange-500 hover:to-yellow-500 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-orange-400 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {isSubmitting && <Loader2 className="h-5 w-5 animate-spin" />}
+        Email me a sign-in link
+      </button>
+      {submitStatus.type && (
+        <div
+          className={`p-4 rounded-lg flex items-start gap-3 ${
+            submitStatus.type === "success"
+              ? "bg-green-500/10 border border-green-500/20 text-green-400"
+              : "bg-red-500/10 border border-red-500/20 text-red-400"
+          }`}
+        >
+          {submitStatus.type === "success" ? (
+            <CheckCircle2 className="h-5 w-5 mt-0.5 shrink-0" />
+          ) : (
+            <AlertCircle className="h-5 w-5 mt-0.5 shrink-0" />
+          )}
+          <p className="text-sm">{submitStatus.message}</p>
+        </div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, CheckCircle2, AlertCircle } from "lucide-react";
+
+interface AdminSubscriberActionsProps {
+  subscriberId: string;
+  status: string;
+}
+
+type Action = "unsubscribe" | "resend-confirmation" | "delete";
+
+export function AdminSubscriberActions({ subscriberId, status }: AdminSubscriberActionsProps) {
+  const router = useRouter();
+  const [pending, setPending] = useState<Action | null>(null);
+  const [submitStatus, setSubmitStatus] = useState<{
+    type: "success" | "error" | null;
+    message: string;
+  }>({ type: null, message: "" });
+
+  const run = async (action: Action) => {
+    if (action === "delete" && !window.confirm("Delete this subscriber permanently? This cannot be undone.")) {
+      return;
+    }
+
+    setPending(action);
+    setSubmitStatus({ type: null, message: "" });
+
+    const base = `/api/admin/subscribers/${encodeURIComponent(subscriberId)}`;
+    try {
+      const response = await fetch(action === "delete" ? base : `${base}/${action}`, {
+        method: action === "delete" ? "DELETE" : "POST",
+      });
+      const result = await response.json();
+
+      if (response.ok && action === "delete") {
+        router.push("/admin");
+        return;
+      }
+
+      setSubmitStatus({
+        type: response.ok ? "success" : "error",
+        message: result.message || "Something went wrong. Please try again.",
+      });
+      if (response.ok) {
+        router.refresh();
+      }
+    } catch (error) {
+      console.error('Admin action error:', error);
+      setSubmitStatus({
+        type: "error",
+        message: "Network error. Please check your connection and try again.",
+      });
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const buttonClass =
+    "px-4 py-2 rounded-lg text-sm font-medium border transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2";
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3">
+        {status === "pending" && (
+          <button
+            type="button"
+            disabled={pending !== null}
+            onClick={() => run("resend-confirmation")}
+            className={`${buttonClass} border-gray-200/10 text-white hover:bg-white/10`}
+          >
+            {pending === "resend-confirmation" && <Loader2 className="h-4 w-4 animate-spin" />}
+            Resend confirmation
+          </button>
+        )}
+        {status !== "unsubscribed" && (
+          <button
+            type="button"
+            disabled={pending !== null}
+            onClick={() => run("unsubscribe")}
+            className={`${buttonClass} border-gray-200/10 text-white hover:bg-white/10`}
+          >
+            {pending === "unsubscribe" && <Loader2 className="h-4 w-4 animate-spin" />}
+            Unsubscribe
+          </button>
+        )}
+        <button
+          type="button"
+          disabled={pending !== null}
+          onClick={() => run("delete")}
+          className={`${buttonClass} border-red-500/20 text-red-400 hover:bg-red-500/10`}
+        >
+          {pending === "delete" && <Loader2 className="h-4 w-4 animate-spin" />}
+          Delete
+        </button>
+      </div>
+      {submitStatus.type && (
+        <div
+          className={`p-4 rounded-lg flex items-start gap-3 ${
+            submitStatus.type === "success"
+              ? "bg-green-500/10 border border-green-500/20 text-green-400"
+              : "bg-red-500/10 border border-red-500/20 text-red-400"
+          }`}
+        >
+          {submitStatus.type === "success" ? (
+            <CheckCircle2 className="h-5 w-5 mt-0.5 shrink-0" />
+          ) : (
+            <AlertCircle className="h-5 w-5 mt-0.5 shrink-0" />
+          )}
+          <p className="text-sm">{submitStatus.message}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+export interface CaptchaConfig {
+  provider: "turnstile" | "hcaptcha";
+  siteKey: string;
+}
+
+interface CaptchaApi {
+  render(
+    container: HTMLElement,
+    options: {
+      sitekey: string;
+      theme?: string;
+      callback: (token: string) => void;
+      "expired-callback": () => void;
+      "error-callback": () => void;
+    }
+  ): string;
+  reset(widgetId?: string): void;
+  remove(widgetId: string): void;
+}
+
+declare global {
+  interface Window {
+    turnstile?: CaptchaApi;
+    hcaptcha?: CaptchaApi;
+  }
+}
+
+const SCRIPT_URLS = {
+  turnstile: "https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit",
+  hcaptcha: "https://js.hcaptcha.com/1/api.js?render=explicit",
+};
+
+function loadScript(src: string): Promise<void> {
+  const existing = document.querySelector<HTMLScriptElement>(`script[src="${src}"]`);
+  if (existing?.dataset.loaded === "true") {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const script = existing ?? document.createElement("script");
+    script.addEventListener("load", () => {
+      script.dataset.loaded = "true";
+      resolve();
+    });
+    script.addEventListener("error", () => reject(new Error(`Failed to load ${src}`)));
+    if (!existing) {
+      script.src = src;
+      script.async = true;
+      document.head.appendChild(script);
+    }
+  });
+}
+
+interface CaptchaWidgetProps {
+  config: CaptchaConfig;
+  onToken: (token: string | null) => void;
+  /** Changing this value resets the widget, e.g. after a failed submission consumed the token. */
+  resetKey?: number;
+}
+
+export function CaptchaWidget({ config, onToken, resetKey }: CaptchaWidgetProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const widgetIdRef = useRef<string | null>(null);
+  const onTokenRef = useRef(onToken);
+  onTokenRef.current = onToken;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadScript(SCRIPT_URLS[config.provider])
+      .then(() => {
+        const api = window[config.provider];
+        if (cancelled || !api || !containerRef.current) return;
+
+        widgetIdRef.current = api.render(containerRef.current, {
+          sitekey: config.siteKey,
+          theme: "dark",
+          callback: (token) => onTokenRef.current(token),
+          "expired-callback": () => onTokenRef.current(null),
+          "error-callback": () => onTokenRef.current(null),
+        });
+      })
+      .catch((error) => {
+        console.error("Failed to load CAPTCHA widget:", error);
+      });
+
+    return () => {
+      cancelled = true;
+      if (widgetIdRef.current) {
+        window[config.provider]?.remove(widgetIdRef.current);
+        widgetIdRef.current = null;
+      }
+    };
+  }, [config.provider, config.siteKey]);
+
+  useEffect(() => {
+    if (resetKey && widgetIdRef.current) {
+      window[config.provider]?.reset(widgetIdRef.current);
+      onTokenRef.current(null);
+    }
+  }, [resetKey, config.provider]);
+
+  return <div ref={containerRef} className="flex justify-center" />;
+}
@@ -1,23 +1,51 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Mail, Loader2, CheckCircle2, AlertCircle } from "lucide-react";
+import { CaptchaWidget, type CaptchaConfig } from "@/components/captcha-widget";
+import { ShareLink } from "@/components/share-link";
+import { captureAttribution } from "@/lib/attribution";
+import type { SignupAttribution } from "@/lib/subscribe-schema";
 
 const formSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
+  website: z.string().optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
 
-export function EmailSignupForm() {
+interface EmailSignupFormProps {
+  /** Signed render timestamp from `issueFormToken()`, used by the server to spot bots. */
+  formToken?: string;
+  /** Renders a Turnstile/hCaptcha challenge whose token is sent with the signup. */
+  captcha?: CaptchaConfig;
+  /** Code from a `?ref=` share link, credited to the referrer once this signup confirms. */
+  referralCode?: string;
+}
+
+interface WaitlistSpot {
+  position?: number;
+  shareLink: string;
+}
+
+export function EmailSignupForm({ formToken, captcha, referralCode }: EmailSignupFormProps = {}) {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [captchaToken, setCaptchaToken] = useState<string | null>(null);
+  const [captchaResetKey, setCaptchaResetKey] = useState(0);
   const [submitStatus, setSubmitStatus] = useState<{
     type: "success" | "error" | null;
     message: string;
   }>({ type: null, message: "" });
+  const [waitlistSpot, setWaitlistSpot] = useState<WaitlistSpot | null>(null);
+  const attribution = useRef<SignupAttribution | undefined>(undefined);
+
+  // Read after mounting, since the URL, referrer and storage only exist in the browser
+  useEffect(() => {
+    attribution.current = captureAttribution();
+  }, []);
 
   const {
     register,
@@ -30,6 +58,14 @@ export function EmailSignupForm() {
 
   const onSubmit = async (data: FormData) => {
     console.log('Form submitted with data:', data);
+    if (captcha && !captchaToken) {
+      setSubmitStatus({
+        type: "error",
+        message: "Please complete the challenge before joining.",
+      });
+      return;
+    }
+
     setIsSubmitting(true);
     setSubmitStatus({ type: null, message: "" });
 
@@ -43,6 +79,11 @@ export function EmailSignupForm() {
         body: JSON.stringify({
           email: data.email,
           source: "landing-page",
+          website: data.website,
+          formToken,
+          captchaToken: captchaToken ?? undefined,
+          ref: referralCode,
+          attribution: attribution.current,
         }),
       });
 
@@ -53,13 +94,31 @@ export function EmailSignupForm() {
       if (response.ok) {
         setSubmitStatus({
           type: "success",
-          message: "Thank you for subscribing! Check your email for confirmation.",
+          // 200 means the address was already on the list (pending or returning)
+          message: response.status === 200 && result.message
+            ? result.message
+            : "Thank you for subscribing! Check your email for confirmation.",
         });
+        if (result.shareLink) {
+          setWaitlistSpot({ position: result.position, shareLink: result.shareLink });
+        }
         reset();
       } else if (response.status === 409) {
         setSubmitStatus({
           type: "error",
-          message: "This email is already subscribed.",
+          message: result.status === "bounced" && result.message
+            ? result.message
+            : "This email is already subscribed.",
+        });
+      } else if (response.status === 422) {
+        setSubmitStatus({
+          type: "error",
+          message: result.message || "Please use a different email address.",
+        });
+      } else if (response.status === 429) {
+        setSubmitStatus({
+          type: "error",
+          message: "Too many signup attempts. Please wait a while and try again.",
         });
       } else {
         setSubmitStatus({
@@ -76,6 +135,10 @@ export function EmailSignupForm() {
     } finally {
       console.log('Form submission complete, setting isSubmitting to false');
       setIsSubmitting(false);
+      // Challenge tokens are single-use, so get a fresh one for any retry
+      if (captcha) {
+        setCaptchaResetKey((key) => key + 1);
+      }
     }
   };
 
@@ -88,6 +151,17 @@ export function EmailSignupForm() {
             <h3 className="text-lg font-semibold text-white mb-2">You&apos;re on the list!</h3>
             <p className="text-sm text-gray-300">{submitStatus.message}</p>
           </div>
+          {waitlistSpot && (
+            <div className="w-full text-center space-y-3">
+              {waitlistSpot.position !== undefined && (
+                <p className="text-sm text-gray-300">
+                  You&apos;re <span className="text-2xl font-bold text-white">#{waitlistSpot.position}</span> in line
+                </p>
+              )}
+              <p className="text-xs text-gray-400">Share your link to move up the waitlist:</p>
+              <ShareLink url={waitlistSpot.shareLink} />
+            </div>
+          )}
         </div>
       </div>
     );
@@ -99,6 +173,13 @@ export function EmailSignupForm() {
         console.log('Form submit event triggered');
         handleSubmit(onSubmit)(e);
       }} className="space-y-4">
+        {/* Honeypot: invisible to humans and assistive tech, but bots fill it in */}
+        <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+          <label>
+            Website
+            <input {...register("website")} type="text" tabIndex={-1} autoComplete="off" />
+          </label>
+        </div>
         <div className="relative">
           <div className="flex gap-2">
             <div className="relative flex-1">
@@ -112,6 +193,11 @@ export function EmailSignupForm() {
               />
             </div>
           </div>
+          {captcha && (
+            <div className="mt-4">
+              <CaptchaWidget config={captcha} onToken={setCaptchaToken} resetKey={captchaResetKey} />
+            </div>
+          )}
           <div className="flex justify-center mt-6">
             <button
               type="submit"
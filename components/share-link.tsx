@@ -0,0 +1,41 @@
+"use client";
+
+import { useState } from "react";
+import { Copy, Check } from "lucide-react";
+
+interface ShareLinkProps {
+  url: string;
+}
+
+export function ShareLink({ url }: ShareLinkProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <input
+        readOnly
+        value={url}
+        aria-label="Your referral link"
+        onFocus={(e) => e.target.select()}
+        className="flex-1 min-w-0 px-3 py-2 bg-white/10 border border-gray-200/20 rounded-lg text-sm text-white"
+      />
+      <button
+        type="button"
+        onClick={copyLink}
+        className="px-3 py-2 bg-white/10 border border-gray-200/20 rounded-lg text-white hover:bg-white/20 transition-all flex items-center gap-1 text-sm"
+      >
+        {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+        {copied ? "Copied" : "Copy"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, CheckCircle2, AlertCircle } from "lucide-react";
+
+interface UnsubscribeFormProps {
+  token: string;
+}
+
+export function UnsubscribeForm({ token }: UnsubscribeFormProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitStatus, setSubmitStatus] = useState<{
+    type: "success" | "error" | null;
+    message: string;
+  }>({ type: null, message: "" });
+
+  const onUnsubscribe = async () => {
+    setIsSubmitting(true);
+    setSubmitStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch(`/api/unsubscribe?token=${encodeURIComponent(token)}`, {
+        method: "POST",
+      });
+      const result = await response.json();
+
+      setSubmitStatus({
+        type: response.ok ? "success" : "error",
+        message: result.message || "Something went wrong. Please try again.",
+      });
+    } catch (error) {
+      console.error('Unsubscribe error:', error);
+      setSubmitStatus({
+        type: "error",
+        message: "Network error. Please check your connection and try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (submitStatus.type === "success") {
+    return (
+      <div className="p-6 rounded-lg flex flex-col items-center gap-4 animate-in fade-in-0 slide-in-from-bottom-4 bg-green-500/10 border border-green-500/20 text-green-400">
+        <CheckCircle2 className="h-12 w-12" />
+        <div className="text-center">
+          <h1 className="text-lg font-semibold text-white mb-2">You&apos;re unsubscribed</h1>
+          <p className="text-sm text-gray-300">{submitStatus.message} You won&apos;t receive any more emails from Orbit.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 rounded-lg flex flex-col items-center gap-4 bg-white/5 border border-gray-200/10">
+      <div className="text-center">
+        <h1 className="text-lg font-semibold text-white mb-2">Unsubscribe from Orbit</h1>
+        <p className="text-sm text-gray-300">You&apos;ll stop receiving updates about Orbit.</p>
+      </div>
+      <button
+        type="button"
+        onClick={onUnsubscribe}
+        disabled={isSubmitting}
+        className="px-8 py-3 bg-gradient-to-r from-orange-400 to-yellow-400 text-white font-semibold rounded-lg hover:from-orange-500 hover:to-yellow-500 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-orange-400 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+      >
+        {isSubmitting && <Loader2 className="h-5 w-5 animate-spin" />}
+        Unsubscribe
+      </button>
+      {submitStatus.type === "error" && (
+        <div className="w-full p-4 rounded-lg flex items-start gap-3 animate-in fade-in-0 slide-in-from-top-2 bg-red-500/10 border border-red-500/20 text-red-400">
+          <AlertCircle className="h-5 w-5 mt-0.5 shrink-0" />
+          <p className="text-sm">{submitStatus.message}</p>
+        </div>
+      )}
+    </div>
+  );
+}
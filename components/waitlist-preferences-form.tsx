@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, CheckCircle2, AlertCircle } from "lucide-react";
+import type { SubscriberPreferences } from "@/lib/waitlist";
+
+interface WaitlistPreferencesFormProps {
+  token: string;
+  initialPreferences: SubscriberPreferences;
+}
+
+const options: { key: keyof SubscriberPreferences; label: string; description: string }[] = [
+  {
+    key: "productUpdates",
+    label: "Product updates",
+    description: "Occasional emails about what we're building.",
+  },
+  {
+    key: "betaInvites",
+    label: "Beta invites",
+    description: "Invitations to try early builds before launch.",
+  },
+];
+
+export function WaitlistPreferencesForm({ token, initialPreferences }: WaitlistPreferencesFormProps) {
+  const [preferences, setPreferences] = useState(initialPreferences);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitStatus, setSubmitStatus] = useState<{
+    type: "success" | "error" | null;
+    message: string;
+  }>({ type: null, message: "" });
+
+  const onSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setSubmitStatus({ type: null, message: "" });
+
+    try {
+      const response = await fetch(`/api/waitlist/preferences?token=${encodeURIComponent(token)}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(preferences),
+      });
+      const result = await response.json();
+
+      setSubmitStatus({
+        type: response.ok ? "success" : "error",
+        message: result.message || "Something went wrong. Please try again.",
+      });
+    } catch (error) {
+      console.error('Preferences error:', error);
+      setSubmitStatus({
+        type: "error",
+        message: "Network error. Please check your connection and try again.",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={onSave} className="w-full space-y-4">
+      {options.map((option) => (
+        <label key={option.key} className="flex items-start gap-3 text-left cursor-pointer">
+          <input
+            type="checkbox"
+            checked={preferences[option.key]}
+            onChange={(e) => setPreferences({ ...preferences, [option.key]: e.target.checked })}
+            className="mt-1 h-4 w-4 accent-orange-400"
+          />
+          <span>
+            <span className="block text-sm font-medium text-white">{option.label}</span>
+            <span className="block text-xs text-gray-400">{option.description}</span>
+          </span>
+        </label>
+      ))}
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full px-8 py-3 bg-gradient-to-r from-orange-400 to-yellow-400 text-white font-semibold rounded-lg hover:from-orange-500 hover:to-yellow-500 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-orange-400 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+      >
+        {isSubmitting && <Loader2 className="h-5 w-5 animate-spin" />}
+        Save preferences
+      </button>
+      {submitStatus.type && (
+        <div
+          className={`p-4 rounded-lg flex items-start gap-3 animate-in fade-in-0 slide-in-from-top-2 ${
+            submitStatus.type === "success"
+              ? "bg-green-500/10 border border-green-500/20 text-green-400"
+              : "bg-red-500/10 border border-red-500/20 text-red-400"
+          }`}
+        >
+          {submitStatus.type === "success" ? (
+            <CheckCircle2 className="h-5 w-5 mt-0.5 shrink-0" />
+          ) : (
+            <AlertCircle className="h-5 w-5 mt-0.5 shrink-0" />
+          )}
+          <p className="text-sm">{submitStatus.message}</p>
+        </div>
+      )}
+    </form>
+  );
+}
@@ -49,4 +49,8 @@ process.env.FIREBASE_SERVICE_ACCOUNT_KEY = JSON.stringify({
   token_uri: 'https://oauth2.googleapis.com/token',
   auth_provider_x509_cert_url: 'https://www.googleapis.com/oauth2/v1/certs',
   client_x509_cert_url: 'https://www.googleapis.com/robot/v1/metadata/x509/test%40test-project.iam.gserviceaccount.com'
-})
\ No newline at end of file
+})
+process.env.SUBSCRIPTION_TOKEN_SECRET = 'test-subscription-token-secret'
+
+// The route tests fire many requests from the same address; rate limiting has its own tests
+process.env.SUBSCRIBE_RATE_LIMIT = '10000'
@@ -0,0 +1,130 @@
+import { randomUUID } from 'crypto';
+import type { Firestore } from 'firebase-admin/firestore';
+import { signToken, verifyToken } from '@/lib/tokens';
+
+export const ADMIN_ROLES = ['viewer', 'sender'] as const;
+
+/**
+ * - `viewer`: can browse subscribers
+ * - `sender`: can also act on them (unsubscribe, delete, resend confirmation)
+ */
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+export interface AdminSession {
+  email: string;
+  role: AdminRole;
+}
+
+export const ADMIN_SESSION_COOKIE = 'orbit_admin_session';
+
+export const ADMIN_LOGIN_TTL_SECONDS = 15 * 60;
+
+export const ADMIN_SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+function normalizeAdminEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Parses `ADMIN_EMAILS`, a comma-separated list of `email` or `email:role`
+ * entries, e.g. `ada@example.com:sender, bob@example.com`. Entries without a
+ * role are viewers; entries with an unknown role are ignored.
+ */
+export function getAdminAllowlist(): Map<string, AdminRole> {
+  const allowlist = new Map<string, AdminRole>();
+  for (const entry of (process.env.ADMIN_EMAILS ?? '').split(',')) {
+    const [email, role = 'viewer'] = entry.split(':').map(part => part.trim());
+    if (!email) continue;
+    if (!ADMIN_ROLES.includes(role as AdminRole)) {
+      console.error(`Ignoring ADMIN_EMAILS entry for ${email}: unknown role "${role}"`);
+      continue;
+    }
+    allowlist.set(normalizeAdminEmail(email), role as AdminRole);
+  }
+  return allowlist;
+}
+
+export function getAdminRole(email: string): AdminRole | undefined {
+  return getAdminAllowlist().get(normalizeAdminEmail(email));
+}
+
+export function hasAdminRole(session: AdminSession, role: AdminRole): boolean {
+  return ADMIN_ROLES.indexOf(session.role) >= ADMIN_ROLES.indexOf(role);
+}
+
+/** Reading is open to viewers; anything that changes data or sends email needs a sender. */
+export function getRequiredRole(method: string): AdminRole {
+  return method === 'GET' || method === 'HEAD' ? 'viewer' : 'sender';
+}
+
+export function createAdminLoginToken(email: string): string {
+  return signToken(normalizeAdminEmail(email), 'admin-login', ADMIN_LOGIN_TTL_SECONDS, randomUUID());
+}
+
+/**
+ * The allowlisted email a sign-in link was sent to, or null if the link is
+ * invalid, expired or already used. Each link signs in once: its nonce is
+ * recorded in `admin_login_tokens`, so a link seen by someone else (in a
+ * forwarded email or browser history) can't be replayed.
+ */
+export async function redeemAdminLoginToken(db: Firestore, token: string): Promise<string | null> {
+  const verification = verifyToken(token, 'admin-login');
+  if (!verification.ok) {
+    console.log('Rejected admin sign-in token:', verification.reason);
+    return null;
+  }
+
+  const { sub: email, jti, exp } = verification.payload;
+  if (!jti || !getAdminRole(email)) {
+    return null;
+  }
+
+  const ref = db.collection('admin_login_tokens').doc(jti);
+  const firstUse = await db.runTransaction(async transaction => {
+    if ((await transaction.get(ref)).exists) {
+      return false;
+    }
+    transaction.create(ref, {
+      email,
+      usedAt: new Date().toISOString(),
+      // For a Firestore TTL policy; the token is worthless after this anyway
+      expiresAt: new Date((exp ?? 0) * 1000).toISOString(),
+    });
+    return true;
+  });
+
+  if (!firstUse) {
+    console.log('Rejected admin sign-in token: already used');
+    return null;
+  }
+  return email;
+}
+
+export function createAdminSessionToken(email: string): string {
+  return signToken(normalizeAdminEmail(email), 'admin-session', ADMIN_SESSION_TTL_SECONDS);
+}
+
+/**
+ * The session carried by the `ADMIN_SESSION_COOKIE` value. The role is looked
+ * up on every request, so removing someone from `ADMIN_EMAILS` or changing
+ * their role takes effect immediately, without waiting for the cookie to expire.
+ */
+export function getAdminSession(sessionToken: string | undefined): AdminSession | null {
+  if (!sessionToken) {
+    return null;
+  }
+
+  const verification = verifyToken(sessionToken, 'admin-session');
+  if (!verification.ok) {
+    return null;
+  }
+
+  const email = verification.payload.sub;
+  const role = getAdminRole(email);
+  return role ? { email, role } : null;
+}
+
+/** Only paths inside the admin area are followed after sign-in, so links cannot redirect off-site. */
+export function getAdminRedirectPath(next: string | null | undefined): string {
+  return next && /^\/admin(\/|\?|$)/.test(next) ? next : '/admin';
+}
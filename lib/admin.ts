@@ -0,0 +1,196 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore, Query, WriteBatch } from 'firebase-admin/firestore';
+import { recordAnalyticsEvent } from '@/lib/analytics';
+import { chunk } from '@/lib/batch-send';
+import { getConfirmUrl, sendConfirmationEmail } from '@/lib/email';
+import type { SignupAttribution } from '@/lib/subscribe-schema';
+import { getSubscriberSnapshot, historyEntry, isMoreRestrictive, type SubscriberHistoryEntry } from '@/lib/subscribers';
+
+export const ADMIN_PAGE_SIZE = 50;
+
+export interface SubscriberFilters {
+  /** Matches part of the email address, or an exact subscriber ID or referral code. */
+  search?: string;
+  status?: string;
+  source?: string;
+  /** 1-based. */
+  page?: number;
+}
+
+export interface SubscriberSummary {
+  id: string;
+  email: string;
+  status: string;
+  source: string;
+  subscribedAt?: string;
+  confirmedAt?: string;
+  referralCount: number;
+}
+
+export interface SubscriberList {
+  subscribers: SubscriberSummary[];
+  total: number;
+  page: number;
+  pageCount: number;
+}
+
+export interface SubscriberDetail extends SubscriberSummary {
+  referralCode?: string;
+  referredBy?: string;
+  unsubscribedAt?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  attribution?: SignupAttribution;
+  preferences?: Record<string, boolean>;
+  tags: string[];
+  history: SubscriberHistoryEntry[];
+}
+
+const SUMMARY_FIELDS = ['email', 'status', 'source', 'subscribedAt', 'confirmedAt', 'referralCount', 'referralCode'];
+
+function toSummary(doc: DocumentSnapshot): SubscriberSummary {
+  const data = doc.data() ?? {};
+  return {
+    id: doc.id,
+    email: String(data.email ?? ''),
+    status: String(data.status ?? 'pending'),
+    source: String(data.source ?? ''),
+    subscribedAt: data.subscribedAt,
+    confirmedAt: data.confirmedAt,
+    referralCount: Number(data.referralCount ?? 0),
+  };
+}
+
+/**
+ * One page of subscribers, newest first. Status and source are filtered by
+ * Firestore; search and ordering happen in memory, which a waitlist is small
+ * enough for and which avoids a composite index per filter combination.
+ */
+export async function listSubscribers(
+  db: Firestore,
+  { search, status, source, page = 1 }: SubscriberFilters,
+  pageSize = ADMIN_PAGE_SIZE
+): Promise<SubscriberList> {
+  let query: Query = db.collection('email_subscribers');
+  if (status) query = query.where('status', '==', status);
+  if (source) query = query.where('source', '==', source);
+
+  const snapshot = await query.select(...SUMMARY_FIELDS).get();
+  const term = search?.trim().toLowerCase();
+  const matches = snapshot.docs
+    .filter(doc => !term
+      || String(doc.data().email ?? '').toLowerCase().includes(term)
+      || doc.id === term
+      || String(doc.data().referralCode ?? '').toLowerCase() === term)
+    .map(toSummary)
+    .sort((a, b) => (b.subscribedAt ?? '').localeCompare(a.subscribedAt ?? ''));
+
+  const pageCount = Math.max(1, Math.ceil(matches.length / pageSize));
+  const current = Math.min(Math.max(1, Math.floor(page)), pageCount);
+  return {
+    subscribers: matches.slice((current - 1) * pageSize, current * pageSize),
+    total: matches.length,
+    page: current,
+    pageCount,
+  };
+}
+
+export async function getSubscriberDetail(db: Firestore, subscriberId: string): Promise<SubscriberDetail | null> {
+  const snapshot = await getSubscriberSnapshot(db, subscriberId);
+  if (!snapshot) {
+    return null;
+  }
+
+  const data = snapshot.data() ?? {};
+  return {
+    ...toSummary(snapshot),
+    referralCode: data.referralCode,
+    referredBy: data.referredBy,
+    unsubscribedAt: data.unsubscribedAt,
+    ipAddress: data.ipAddress,
+    userAgent: data.userAgent,
+    attribution: data.attribution,
+    preferences: data.preferences,
+    tags: Array.isArray(data.tags) ? data.tags : [],
+    history: Array.isArray(data.history) ? [...data.history].sort((a, b) => b.at.localeCompare(a.at)) : [],
+  };
+}
+
+export type AdminActionResult = 'done' | 'not-found' | 'not-allowed';
+
+/**
+ * Unsubscribes on the subscriber's behalf, e.g. after a request by email.
+ * Bounced and complained subscribers already get no mail and keep their status.
+ */
+export async function unsubscribeSubscriber(db: Firestore, subscriberId: string): Promise<AdminActionResult> {
+  const snapshot = await getSubscriberSnapshot(db, subscriberId);
+  if (!snapshot) return 'not-found';
+  if (!isMoreRestrictive('unsubscribed', snapshot.data()?.status)) return 'done';
+
+  await snapshot.ref.update({
+    status: 'unsubscribed',
+    unsubscribedAt: new Date().toISOString(),
+    history: FieldValue.arrayUnion(historyEntry('unsubscribed', { by: 'admin' })),
+  });
+  await recordAnalyticsEvent(db, 'unsubscribe');
+  return 'done';
+}
+
+// Firestore batches are capped at 500 writes
+const ERASURE_BATCH_SIZE = 500;
+
+/**
+ * Erases a subscriber, e.g. for a GDPR erasure request. Their webhook events
+ * (`email_events`) and rejected signups (`email_rejections`) are deleted, and
+ * their address is removed from campaign deliveries, which are kept so that
+ * campaign stats still add up. The subscriber document goes last, so an
+ * erasure that fails part-way can simply be run again.
+ */
+export async function deleteSubscriber(db: Firestore, subscriberId: string): Promise<AdminActionResult> {
+  const snapshot = await getSubscriberSnapshot(db, subscriberId);
+  if (!snapshot) return 'not-found';
+  const email = snapshot.data()?.email;
+
+  const campaigns = await db.collection('campaigns').select().get();
+  const [deliveries, events, rejections] = await Promise.all([
+    campaigns.empty
+      ? []
+      : db.getAll(...campaigns.docs.map(campaign => campaign.ref.collection('deliveries').doc(snapshot.id))),
+    db.collection('email_events').where('subscriberId', '==', snapshot.id).select().get(),
+    typeof email === 'string'
+      ? db.collection('email_rejections').where('email', '==', email).select().get()
+      : null,
+  ]);
+
+  const writes: ((batch: WriteBatch) => unknown)[] = [
+    ...deliveries
+      .filter(delivery => delivery.exists)
+      .map(delivery => (batch: WriteBatch) => batch.update(delivery.ref, { email: FieldValue.delete() })),
+    ...[...events.docs, ...(rejections?.docs ?? [])].map(doc => (batch: WriteBatch) => batch.delete(doc.ref)),
+  ];
+  for (const group of chunk(writes, ERASURE_BATCH_SIZE)) {
+    const batch = db.batch();
+    group.forEach(write => write(batch));
+    await batch.commit();
+  }
+
+  await snapshot.ref.delete();
+  return 'done';
+}
+
+/** Sends a fresh confirmation link. Only pending subscribers can be confirmed. */
+export async function resendConfirmation(db: Firestore, subscriberId: string): Promise<AdminActionResult> {
+  const snapshot = await getSubscriberSnapshot(db, subscriberId);
+  if (!snapshot) return 'not-found';
+  if (snapshot.data()?.status !== 'pending') return 'not-allowed';
+
+  await sendConfirmationEmail({
+    to: snapshot.data()?.email,
+    subscriberId: snapshot.id,
+    confirmUrl: getConfirmUrl(snapshot.id),
+  });
+  await snapshot.ref.update({
+    history: FieldValue.arrayUnion(historyEntry('confirmation-resent', { by: 'admin' })),
+  });
+  return 'done';
+}
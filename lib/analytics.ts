@@ -0,0 +1,226 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import type { Firestore } from 'firebase-admin/firestore';
+import type { SubscriberHistoryEntry } from '@/lib/subscribers';
+
+/**
+ * - `signup`: a new signup, or a returning subscriber signing up again
+ * - `confirmation`: a pending subscriber following their confirmation link
+ * - `unsubscribe`: an active or pending subscriber unsubscribing
+ */
+export type AnalyticsEvent = 'signup' | 'confirmation' | 'unsubscribe';
+
+export interface AnalyticsCounters {
+  signups: number;
+  confirmations: number;
+  unsubscribes: number;
+  /** Signups through someone's share link. */
+  referredSignups: number;
+  /** Confirmations that credited a referrer. */
+  referredConfirmations: number;
+  /** Signups per source. */
+  sources: Record<string, number>;
+}
+
+export interface AnalyticsEventDetails {
+  source?: string;
+  referred?: boolean;
+  at?: Date;
+}
+
+export const MAX_ANALYTICS_DAYS = 365;
+
+export function emptyCounters(): AnalyticsCounters {
+  return { signups: 0, confirmations: 0, unsubscribes: 0, referredSignups: 0, referredConfirmations: 0, sources: {} };
+}
+
+/** UTC calendar day, which is also the ID of the day's `analytics_daily` document. */
+export function getDayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Sources come from the signup form, so anything unusual is counted as
+ * `other` to stop arbitrary strings from growing the counter documents.
+ */
+export function getSourceKey(source: string | undefined): string {
+  return source && /^[\w.-]{1,64}$/.test(source) ? source : 'other';
+}
+
+function counterIncrements(event: AnalyticsEvent, { source, referred }: AnalyticsEventDetails) {
+  const increment = FieldValue.increment(1);
+  switch (event) {
+    case 'signup':
+      return { signups: increment, sources: { [getSourceKey(source)]: increment }, ...(referred && { referredSignups: increment }) };
+    case 'confirmation':
+      return { confirmations: increment, ...(referred && { referredConfirmations: increment }) };
+    case 'unsubscribe':
+      return { unsubscribes: increment };
+  }
+}
+
+/**
+ * Counts an event in its day's `analytics_daily/{YYYY-MM-DD}` document and in
+ * `analytics/totals`, so the dashboard never has to scan `email_subscribers`.
+ * Best effort: a failure is logged and never fails the signup it describes.
+ */
+export async function recordAnalyticsEvent(db: Firestore, event: AnalyticsEvent, details: AnalyticsEventDetails = {}) {
+  try {
+    const day = getDayKey(details.at ?? new Date());
+    const increments = counterIncrements(event, details);
+    const batch = db.batch();
+    batch.set(db.collection('analytics_daily').doc(day), { date: day, ...increments }, { merge: true });
+    batch.set(db.collection('analytics').doc('totals'), increments, { merge: true });
+    await batch.commit();
+  } catch (error) {
+    console.error(`Failed to record ${event} analytics:`, error);
+  }
+}
+
+function toCounters(data: Record<string, unknown> | undefined): AnalyticsCounters {
+  return {
+    signups: Number(data?.signups ?? 0),
+    confirmations: Number(data?.confirmations ?? 0),
+    unsubscribes: Number(data?.unsubscribes ?? 0),
+    referredSignups: Number(data?.referredSignups ?? 0),
+    referredConfirmations: Number(data?.referredConfirmations ?? 0),
+    sources: { ...((data?.sources as Record<string, number> | undefined) ?? {}) },
+  };
+}
+
+function addCounters(total: AnalyticsCounters, counters: AnalyticsCounters): AnalyticsCounters {
+  const sources = { ...total.sources };
+  for (const [source, count] of Object.entries(counters.sources)) {
+    sources[source] = (sources[source] ?? 0) + count;
+  }
+  return {
+    signups: total.signups + counters.signups,
+    confirmations: total.confirmations + counters.confirmations,
+    unsubscribes: total.unsubscribes + counters.unsubscribes,
+    referredSignups: total.referredSignups + counters.referredSignups,
+    referredConfirmations: total.referredConfirmations + counters.referredConfirmations,
+    sources,
+  };
+}
+
+export interface AnalyticsSummary extends AnalyticsCounters {
+  /** Confirmations per signup, or null without signups. */
+  confirmationRate: number | null;
+  /** Unsubscribes per confirmation, or null without confirmations. */
+  unsubscribeRate: number | null;
+  /** Share of signups that came through a referral link, or null without signups. */
+  referralShare: number | null;
+}
+
+function summarize(counters: AnalyticsCounters): AnalyticsSummary {
+  const rate = (count: number, total: number) => (total > 0 ? count / total : null);
+  return {
+    ...counters,
+    confirmationRate: rate(counters.confirmations, counters.signups),
+    unsubscribeRate: rate(counters.unsubscribes, counters.confirmations),
+    referralShare: rate(counters.referredSignups, counters.signups),
+  };
+}
+
+export interface AnalyticsDay extends AnalyticsCounters {
+  date: string;
+}
+
+export interface AnalyticsReport {
+  /** Every day in the window, oldest first, including days without activity. */
+  days: AnalyticsDay[];
+  /** The days added up. */
+  period: AnalyticsSummary;
+  /** Everything since counting began. */
+  totals: AnalyticsSummary;
+  /** Signups per source in the window, most first. */
+  sources: { source: string; signups: number }[];
+}
+
+/** Counters for the `days` days up to and including `now`'s UTC day. */
+export async function getAnalyticsReport(db: Firestore, days: number, now = new Date()): Promise<AnalyticsReport> {
+  const count = Math.min(Math.max(1, Math.floor(days)), MAX_ANALYTICS_DAYS);
+  const dates = Array.from({ length: count }, (_, index) => {
+    const date = new Date(now);
+    date.setUTCDate(date.getUTCDate() - (count - 1 - index));
+    return getDayKey(date);
+  });
+
+  const [snapshots, totals] = await Promise.all([
+    db.getAll(...dates.map(date => db.collection('analytics_daily').doc(date))),
+    db.collection('analytics').doc('totals').get(),
+  ]);
+
+  const daily = dates.map((date, index) => ({ date, ...toCounters(snapshots[index].data()) }));
+  const period = daily.reduce<AnalyticsCounters>(addCounters, emptyCounters());
+
+  return {
+    days: daily,
+    period: summarize(period),
+    totals: summarize(toCounters(totals.data())),
+    sources: Object.entries(period.sources)
+      .map(([source, signups]) => ({ source, signups }))
+      .sort((a, b) => b.signups - a.signups || a.source.localeCompare(b.source)),
+  };
+}
+
+/**
+ * Recomputes every counter from subscriber history, for backfilling
+ * subscribers who signed up before counting began (see
+ * `scripts/rebuild-analytics.ts`). Documents without history fall back to
+ * their `subscribedAt`, `confirmedAt` and `unsubscribedAt` fields.
+ */
+export function rebuildAnalytics(subscribers: Record<string, unknown>[]): { days: Map<string, AnalyticsCounters>; totals: AnalyticsCounters } {
+  const days = new Map<string, AnalyticsCounters>();
+  let totals = emptyCounters();
+
+  const count = (event: AnalyticsEvent, at: unknown, details: AnalyticsEventDetails) => {
+    const time = typeof at === 'string' ? Date.parse(at) : NaN;
+    if (Number.isNaN(time)) return;
+
+    const counters = emptyCounters();
+    if (event === 'signup') {
+      counters.signups = 1;
+      counters.sources[getSourceKey(details.source)] = 1;
+      if (details.referred) counters.referredSignups = 1;
+    } else if (event === 'confirmation') {
+      counters.confirmations = 1;
+      if (details.referred) counters.referredConfirmations = 1;
+    } else {
+      counters.unsubscribes = 1;
+    }
+
+    const day = getDayKey(new Date(time));
+    days.set(day, addCounters(days.get(day) ?? emptyCounters(), counters));
+    totals = addCounters(totals, counters);
+  };
+
+  for (const data of subscribers) {
+    const source = typeof data.source === 'string' ? data.source : undefined;
+    const referred = typeof data.referredBy === 'string';
+    const history = Array.isArray(data.history) ? (data.history as SubscriberHistoryEntry[]) : [];
+
+    if (history.length === 0) {
+      count('signup', data.subscribedAt, { source, referred });
+      count('confirmation', data.confirmedAt, { referred: referred && data.referralCredited === true });
+      count('unsubscribe', data.unsubscribedAt, {});
+      continue;
+    }
+
+    // A referrer is only ever credited for the first confirmation
+    let confirmed = false;
+    for (const entry of history) {
+      if (entry.event === 'subscribed') {
+        count('signup', entry.at, { source: entry.source ?? source, referred });
+      } else if (entry.event === 'resubscribed') {
+        count('signup', entry.at, { source: entry.source ?? source });
+      } else if (entry.event === 'confirmed') {
+        count('confirmation', entry.at, { referred: !confirmed && referred && data.referralCredited === true });
+        confirmed = true;
+      } else if (entry.event === 'unsubscribed') {
+        count('unsubscribe', entry.at, {});
+      }
+    }
+  }
+
+  return { days, totals };
+}
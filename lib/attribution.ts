@@ -0,0 +1,63 @@
+import { attributionSchema, type SignupAttribution } from '@/lib/subscribe-schema';
+
+export const ATTRIBUTION_STORAGE_KEY = 'orbit_attribution';
+
+const UTM_PARAMETERS = {
+  utm_source: 'utmSource',
+  utm_medium: 'utmMedium',
+  utm_campaign: 'utmCampaign',
+  utm_term: 'utmTerm',
+  utm_content: 'utmContent',
+} as const;
+
+// Matches the limits in `attributionSchema`, so long values are cut short rather than failing the signup
+const MAX_UTM_LENGTH = 200;
+const MAX_URL_LENGTH = 2048;
+
+/**
+ * Attribution for a page view: `utm_*` query parameters, the referring page
+ * and the path that was landed on. Referrers from the same site are left out,
+ * since they say nothing about where the visitor came from.
+ */
+export function readAttribution(url: URL, referrer: string): SignupAttribution {
+  const attribution: SignupAttribution = {};
+
+  for (const [parameter, field] of Object.entries(UTM_PARAMETERS)) {
+    const value = url.searchParams.get(parameter)?.trim();
+    if (value) attribution[field] = value.slice(0, MAX_UTM_LENGTH);
+  }
+
+  if (referrer && referrer.length <= MAX_URL_LENGTH) {
+    try {
+      if (new URL(referrer).origin !== url.origin) attribution.referrer = referrer;
+    } catch {
+      // Not a URL, so not worth keeping
+    }
+  }
+
+  attribution.landingPath = url.pathname.slice(0, MAX_URL_LENGTH);
+  return attribution;
+}
+
+/**
+ * First-touch attribution for this browser. The first page view's attribution
+ * is kept in localStorage, so it survives navigating around the site (and
+ * coming back later) before signing up. Falls back to the current page view
+ * when storage is unavailable, e.g. in private browsing.
+ */
+export function captureAttribution(): SignupAttribution {
+  const current = readAttribution(new URL(window.location.href), document.referrer);
+
+  try {
+    const stored = window.localStorage.getItem(ATTRIBUTION_STORAGE_KEY);
+    if (stored) {
+      const parsed = attributionSchema.safeParse(JSON.parse(stored));
+      if (parsed.success) return parsed.data;
+    }
+    window.localStorage.setItem(ATTRIBUTION_STORAGE_KEY, JSON.stringify(current));
+  } catch {
+    // Storage is blocked or held something unreadable; use this page view
+  }
+
+  return current;
+}
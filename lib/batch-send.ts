@@ -0,0 +1,281 @@
+import type { Resend } from 'resend';
+
+/** Resend accepts at most 100 emails per batch request. */
+export const MAX_BATCH_SIZE = 100;
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers: Record<string, string>;
+  /** Returned with every webhook event for the email (see `lib/email-events.ts`). */
+  tags?: EmailTag[];
+}
+
+export interface EmailTag {
+  name: string;
+  value: string;
+}
+
+export interface EmailBatch {
+  /**
+   * Resend ignores a repeated request with the same key for 24 hours, so a
+   * batch retried with its original key is never delivered twice.
+   */
+  idempotencyKey: string;
+  emails: OutgoingEmail[];
+}
+
+/**
+ * Outcome for a single recipient: `id` once sent, or `error` if it failed.
+ * `alreadySent` is set instead when the batch's idempotency key had already
+ * been used. The first request with that key was accepted, so the email went
+ * out, but its message ID is unknown.
+ */
+export interface DeliveryResult {
+  to: string;
+  id?: string;
+  error?: string;
+  alreadySent?: boolean;
+}
+
+export type BatchResponse =
+  | { ok: true; results: { id?: string; error?: string }[] }
+  | { ok: false; status: number | null; message: string; retryAfterMs?: number };
+
+export type SendBatch = (batch: EmailBatch) => Promise<BatchResponse>;
+
+export interface SendLimits {
+  /** Requests per second across all workers. Each batch is one request. */
+  requestsPerSecond: number;
+  batchSize: number;
+  /** Batches in flight at once. */
+  concurrency: number;
+  /** Retries for a batch that was rate limited or hit a server error. */
+  maxRetries: number;
+}
+
+// Resend's default API rate limit is 2 requests per second on every plan
+export const DEFAULT_SEND_LIMITS: SendLimits = {
+  requestsPerSecond: 2,
+  batchSize: MAX_BATCH_SIZE,
+  concurrency: 2,
+  maxRetries: 5,
+};
+
+/**
+ * Limits for bulk sends, configured through:
+ * - `RESEND_REQUESTS_PER_SECOND`: the API rate limit of your plan (default 2)
+ * - `RESEND_BATCH_SIZE`: emails per batch request, up to 100 (default 100)
+ * - `RESEND_CONCURRENCY`: batch requests in flight at once (default 2)
+ * - `RESEND_MAX_RETRIES`: retries per batch after a 429 or 5xx (default 5)
+ */
+export function getSendLimits(): SendLimits {
+  return {
+    requestsPerSecond: Number(process.env.RESEND_REQUESTS_PER_SECOND) || DEFAULT_SEND_LIMITS.requestsPerSecond,
+    batchSize: Math.min(Number(process.env.RESEND_BATCH_SIZE) || DEFAULT_SEND_LIMITS.batchSize, MAX_BATCH_SIZE),
+    concurrency: Number(process.env.RESEND_CONCURRENCY) || DEFAULT_SEND_LIMITS.concurrency,
+    maxRetries: Number(process.env.RESEND_MAX_RETRIES) || DEFAULT_SEND_LIMITS.maxRetries,
+  };
+}
+
+export interface Clock {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+}
+
+const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+};
+
+export interface TokenBucket {
+  /** Resolves once a request may be made. */
+  take(): Promise<void>;
+  /** Pauses every caller for `delayMs` and halves the rate after a 429. */
+  backOff(delayMs: number): void;
+  /** Recovers the rate gradually after a successful request. */
+  recordSuccess(): void;
+  readonly rate: number;
+}
+
+/**
+ * Token bucket shared by all send workers. It holds up to one second's worth
+ * of tokens and adapts to rate limiting: every 429 halves the refill rate
+ * (down to a sixteenth of the configured rate), and each success adds back a
+ * tenth of the configured rate.
+ */
+export function createTokenBucket(requestsPerSecond: number, clock: Clock = systemClock): TokenBucket {
+  const capacity = Math.max(1, requestsPerSecond);
+  const minRate = requestsPerSecond / 16;
+  let rate = requestsPerSecond;
+  let tokens = capacity;
+  let refilledAt = clock.now();
+  let pausedUntil = 0;
+
+  const refill = () => {
+    const now = clock.now();
+    tokens = Math.min(capacity, tokens + ((now - refilledAt) / 1000) * rate);
+    refilledAt = now;
+  };
+
+  return {
+    async take() {
+      for (;;) {
+        const pause = pausedUntil - clock.now();
+        if (pause > 0) {
+          await clock.sleep(pause);
+          continue;
+        }
+
+        refill();
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await clock.sleep(Math.ceil(((1 - tokens) / rate) * 1000));
+      }
+    },
+    backOff(delayMs) {
+      rate = Math.max(minRate, rate / 2);
+      tokens = 0;
+      refilledAt = clock.now();
+      pausedUntil = Math.max(pausedUntil, clock.now() + delayMs);
+    },
+    recordSuccess() {
+      rate = Math.min(requestsPerSecond, rate + requestsPerSecond / 10);
+    },
+    get rate() {
+      return rate;
+    },
+  };
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Resend answers 409 when an idempotency key is reused with a different payload, or while the first request with it is in flight
+const IDEMPOTENCY_CONFLICT = 409;
+
+function isRetryable(status: number | null): boolean {
+  // A missing status means the request never got a response, e.g. a network error
+  return status === null || status === 429 || status >= 500;
+}
+
+function backoffDelay(attempt: number): number {
+  return Math.min(30_000, 1000 * 2 ** attempt);
+}
+
+export interface SendBatchesOptions {
+  limits?: SendLimits;
+  clock?: Clock;
+  /** Called as each batch settles, so results can be recorded before the whole run finishes. */
+  onBatch?: (batch: EmailBatch, results: DeliveryResult[]) => void | Promise<void>;
+}
+
+/**
+ * Sends batches through a shared token bucket with `concurrency` workers.
+ * Rate-limited batches wait for `Retry-After` (or an exponential backoff) and
+ * are retried with the same idempotency key. A batch whose key was already
+ * used counts as sent, since the first request with it went out; retrying it
+ * under a new key would deliver it twice. Other errors fail every recipient in
+ * the batch. Returns one result per email, in input order.
+ */
+export async function sendBatches(
+  batches: EmailBatch[],
+  send: SendBatch,
+  { limits = DEFAULT_SEND_LIMITS, clock = systemClock, onBatch }: SendBatchesOptions = {}
+): Promise<DeliveryResult[]> {
+  const bucket = createTokenBucket(limits.requestsPerSecond, clock);
+  const settled: DeliveryResult[][] = new Array(batches.length);
+  let next = 0;
+
+  const sendOne = async (batch: EmailBatch): Promise<DeliveryResult[]> => {
+    const failAll = (message: string) => batch.emails.map(({ to }) => ({ to, error: message }));
+
+    for (let attempt = 0; ; attempt++) {
+      await bucket.take();
+
+      let response: BatchResponse;
+      try {
+        response = await send(batch);
+      } catch (error) {
+        response = { ok: false, status: null, message: error instanceof Error ? error.message : String(error) };
+      }
+
+      if (response.ok) {
+        bucket.recordSuccess();
+        return batch.emails.map(({ to }, index) => ({ to, ...response.results[index] }));
+      }
+
+      if (response.status === IDEMPOTENCY_CONFLICT) {
+        return batch.emails.map(({ to }) => ({ to, alreadySent: true }));
+      }
+
+      if (!isRetryable(response.status) || attempt >= limits.maxRetries) {
+        return failAll(response.message);
+      }
+
+      const delay = response.retryAfterMs ?? backoffDelay(attempt);
+      if (response.status === 429) {
+        bucket.backOff(delay);
+      } else {
+        await clock.sleep(delay);
+      }
+    }
+  };
+
+  const worker = async () => {
+    while (next < batches.length) {
+      const index = next++;
+      settled[index] = await sendOne(batches[index]);
+      await onBatch?.(batches[index], settled[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, limits.concurrency) }, worker));
+  return settled.flat();
+}
+
+const IDEMPOTENCY_ERRORS: ReadonlySet<string> = new Set(['invalid_idempotent_request', 'concurrent_idempotent_requests']);
+
+/**
+ * Sends batches with `resend.batch.send`. Permissive validation lets the valid
+ * emails of a batch go out when some addresses are rejected; Resend returns IDs
+ * for the accepted emails in order and reports the rest by index.
+ */
+export function createResendBatchSender(resend: Resend, from: string): SendBatch {
+  return async ({ idempotencyKey, emails }) => {
+    const { data, error, headers } = await resend.batch.send(
+      emails.map(email => ({ from, ...email })),
+      { idempotencyKey, batchValidation: 'permissive' }
+    );
+
+    if (error) {
+      const retryAfter = Number(headers?.['retry-after']);
+      return {
+        ok: false,
+        status: error.name === 'rate_limit_exceeded'
+          ? 429
+          : IDEMPOTENCY_ERRORS.has(error.name) ? IDEMPOTENCY_CONFLICT : error.statusCode,
+        message: error.message,
+        retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
+      };
+    }
+
+    const rejected = new Map((data.errors ?? []).map(({ index, message }) => [index, message]));
+    const accepted = data.data.values();
+    return {
+      ok: true,
+      results: emails.map((_, index) =>
+        rejected.has(index) ? { error: rejected.get(index) } : { id: accepted.next().value?.id }
+      ),
+    };
+  };
+}
@@ -0,0 +1,66 @@
+import { randomUUID } from 'crypto';
+import type { RateLimiter } from '@/lib/rate-limit';
+import { signToken, verifyToken } from '@/lib/tokens';
+
+// Humans need at least a few seconds to type an address; bots post instantly
+export const MIN_FORM_FILL_SECONDS = 3;
+export const FORM_TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+export type BotRejectionReason =
+  | 'honeypot'
+  | 'missing-form-token'
+  | 'invalid-form-token'
+  | 'expired-form-token'
+  | 'reused-form-token'
+  | 'too-fast';
+
+interface BotSignals {
+  website?: string;
+  formToken?: string;
+}
+
+/**
+ * Issues the render-timestamp token embedded in `EmailSignupForm`. Must be
+ * called while rendering on the server so the secret never reaches the client.
+ * Each render gets its own nonce, so uses of one token can be counted.
+ */
+export function issueFormToken(): string {
+  return signToken(randomUUID(), 'form', FORM_TOKEN_TTL_SECONDS);
+}
+
+/**
+ * Returns why a submission looks automated, or null when it looks human:
+ * the hidden honeypot field must be empty and the form token must be
+ * valid, at least `MIN_FORM_FILL_SECONDS` old and not replayed more often
+ * than `tokenUses` allows.
+ */
+export async function detectBot({ website, formToken }: BotSignals, tokenUses: RateLimiter): Promise<BotRejectionReason | null> {
+  if (website) {
+    return 'honeypot';
+  }
+
+  if (!formToken) {
+    return 'missing-form-token';
+  }
+
+  const verification = verifyToken(formToken, 'form');
+  if (!verification.ok) {
+    return verification.reason === 'expired' ? 'expired-form-token' : 'invalid-form-token';
+  }
+
+  const { iat } = verification.payload;
+  if (iat === undefined) {
+    return 'invalid-form-token';
+  }
+
+  const elapsedSeconds = Math.floor(Date.now() / 1000) - iat;
+  if (elapsedSeconds < MIN_FORM_FILL_SECONDS) {
+    return 'too-fast';
+  }
+
+  if (!(await tokenUses.consume(verification.payload.sub)).allowed) {
+    return 'reused-form-token';
+  }
+
+  return null;
+}
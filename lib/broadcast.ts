@@ -0,0 +1,132 @@
+import MarkdownIt from 'markdown-it';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { htmlToText, renderEmail, type RenderedEmail } from '@/lib/email-templates';
+import { isValidSegment } from '@/lib/segments';
+
+const frontMatterSchema = z.object({
+  subject: z.string().min(1),
+  title: z.string().min(1).optional(),
+  preheader: z.string().optional(),
+  // A segment query or one of the named segments (see lib/segments.ts)
+  segment: z.string().refine(isValidSegment).default('all'),
+});
+
+export type BroadcastFrontMatter = z.infer<typeof frontMatterSchema>;
+
+export interface Broadcast {
+  subject: string;
+  title: string;
+  preheader?: string;
+  segment: string;
+  html: string;
+  text: string;
+}
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+// Email clients ignore <style> blocks, so every element carries its own styles
+const INLINE_STYLES: Record<string, string> = {
+  p: 'margin: 0 0 16px 0;',
+  h1: 'margin: 24px 0 12px 0; font-size: 22px; font-weight: 600; color: #ffffff;',
+  h2: 'margin: 24px 0 12px 0; font-size: 20px; font-weight: 600; color: #ffffff;',
+  h3: 'margin: 20px 0 8px 0; font-size: 18px; font-weight: 600; color: #ffffff;',
+  a: 'color: #fb923c; text-decoration: underline;',
+  strong: 'color: #ffffff;',
+  ul: 'margin: 0 0 16px 0; padding-left: 24px;',
+  ol: 'margin: 0 0 16px 0; padding-left: 24px;',
+  li: 'margin: 0 0 4px 0;',
+  blockquote: 'margin: 0 0 16px 0; padding-left: 16px; border-left: 3px solid #333333; color: #888888;',
+  code: 'padding: 2px 4px; background-color: #1a1a1a; border-radius: 4px; font-family: Menlo, Consolas, monospace; font-size: 14px;',
+  pre: 'margin: 0 0 16px 0; padding: 12px; background-color: #1a1a1a; border-radius: 8px; overflow-x: auto;',
+  hr: 'margin: 24px 0; border: none; border-top: 1px solid #222222;',
+  img: 'max-width: 100%; height: auto; border-radius: 8px;',
+};
+
+function createMarkdownRenderer() {
+  // Raw HTML in the source is escaped rather than passed through
+  const md = new MarkdownIt({ html: false, linkify: true, typographer: true });
+
+  md.core.ruler.push('inline_styles', state => {
+    const tokens = state.tokens.flatMap(token => [token, ...(token.children ?? [])]);
+    for (const token of tokens) {
+      const style = INLINE_STYLES[token.tag];
+      if (style && token.nesting !== -1 && token.type !== 'fence' && token.type !== 'code_block') {
+        token.attrSet('style', style);
+      }
+    }
+  });
+
+  // Code blocks get the block styles on <pre> rather than the inline <code> styles
+  md.renderer.rules.fence = md.renderer.rules.code_block = (tokens, index) =>
+    `<pre style="${INLINE_STYLES.pre}"><code style="font-family: Menlo, Consolas, monospace; font-size: 14px;">${md.utils.escapeHtml(tokens[index].content)}</code></pre>\n`;
+
+  return md;
+}
+
+const markdown = createMarkdownRenderer();
+
+export function renderMarkdown(source: string): string {
+  return markdown.render(source).trim();
+}
+
+/**
+ * Parses a broadcast authored as Markdown with YAML front matter:
+ *
+ * ```md
+ * ---
+ * subject: Orbit beta is open
+ * title: The beta is here
+ * preheader: Grab your invite before spots run out
+ * segment: all
+ * ---
+ * We just opened the **Orbit beta**...
+ * ```
+ *
+ * `title` defaults to the subject and `segment` to `all`.
+ */
+export function parseBroadcast(source: string): Broadcast {
+  const match = source.match(FRONT_MATTER_PATTERN);
+  if (!match) {
+    throw new Error('Broadcast is missing its YAML front matter (a block between --- lines)');
+  }
+
+  let frontMatter: BroadcastFrontMatter;
+  try {
+    frontMatter = frontMatterSchema.parse(parseYaml(match[1]) ?? {});
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      const fields = error.issues.map(issue => issue.path.join('.') || 'front matter').join(', ');
+      throw new Error(`Invalid front matter: ${fields}`);
+    }
+    throw new Error(`Front matter is not valid YAML: ${(error as Error).message}`);
+  }
+
+  const body = source.slice(match[0].length);
+  if (!body.trim()) {
+    throw new Error('Broadcast body is empty');
+  }
+
+  const html = renderMarkdown(body);
+
+  return {
+    subject: frontMatter.subject,
+    title: frontMatter.title ?? frontMatter.subject,
+    preheader: frontMatter.preheader,
+    segment: frontMatter.segment,
+    html,
+    text: htmlToText(html),
+  };
+}
+
+/** The email a single recipient receives for a broadcast. */
+export function composeBroadcastEmail(broadcast: Broadcast, unsubscribeUrl: string): RenderedEmail {
+  return renderEmail('broadcast', {
+    subject: broadcast.subject,
+    title: broadcast.title,
+    bodyHtml: broadcast.html,
+    bodyText: broadcast.text,
+    preheader: broadcast.preheader,
+    unsubscribeUrl,
+  });
+}
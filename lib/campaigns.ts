@@ -0,0 +1,442 @@
+import { randomUUID } from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+import {
+  chunk,
+  getSendLimits,
+  sendBatches,
+  type Clock,
+  type EmailBatch,
+  type SendBatch,
+  type SendLimits,
+} from '@/lib/batch-send';
+import { composeBroadcastEmail, type Broadcast } from '@/lib/broadcast';
+import { getUnsubscribeHeaders, getUnsubscribeUrl } from '@/lib/email';
+import { getEmailTags, isValidTagValue } from '@/lib/email-events';
+import { findSegmentMembers, parseSegment } from '@/lib/segments';
+
+/**
+ * `scheduled` campaigns wait for `sendAt`; their recipients are only resolved
+ * once they are due. A campaign stays `sending` while deliveries remain.
+ */
+export type CampaignStatus = 'scheduled' | 'sending' | 'completed' | 'incomplete';
+
+/**
+ * `sending` means the delivery was assigned to a batch whose outcome was never
+ * recorded, usually because the run crashed. Resuming resends the same batch
+ * with the same idempotency key (stored as `batchKey`), so Resend drops it if
+ * the first attempt went out. Resend keeps idempotency keys for 24 hours.
+ */
+export type DeliveryStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+export type CampaignStats = Record<DeliveryStatus, number>;
+
+export interface Campaign extends Broadcast {
+  id: string;
+  status: CampaignStatus;
+  recipientCount: number;
+  /** Deliveries are only sent once every recipient has a delivery record. */
+  recipientsRecorded: boolean;
+  createdAt: string;
+  /** ISO time a scheduled campaign becomes due. Only scheduled campaigns are sent by the dispatcher. */
+  sendAt?: string;
+  /** Set while a dispatcher run is working on the campaign, so overlapping runs skip it. */
+  lockedUntil?: string;
+  completedAt?: string;
+  stats?: CampaignStats;
+}
+
+export interface CampaignRecipient {
+  id: string;
+  email: string;
+}
+
+export interface DeliverCampaignOptions {
+  send: SendBatch;
+  /** Defaults to the limits configured in the environment (see `getSendLimits`). */
+  limits?: SendLimits;
+  clock?: Clock;
+  /** Also retry deliveries that failed on an earlier run. */
+  retryFailed?: boolean;
+  /** Stop after this many deliveries, leaving the rest for the next run. */
+  maxDeliveries?: number;
+  onDelivery?: (recipient: CampaignRecipient, status: DeliveryStatus, error?: string) => void;
+}
+
+const DELIVERY_STATUSES: DeliveryStatus[] = ['pending', 'sending', 'sent', 'failed', 'skipped'];
+
+// Firestore batches are capped at 500 writes
+const BATCH_SIZE = 500;
+
+function campaignRef(db: Firestore, campaignId: string) {
+  return db.collection('campaigns').doc(campaignId);
+}
+
+// The ID is sent as a Resend tag so webhook events can be attributed to the campaign
+function assertValidCampaignId(campaignId: string) {
+  if (!isValidTagValue(campaignId)) {
+    throw new Error(`Invalid campaign ID "${campaignId}"; use only letters, numbers, dashes and underscores`);
+  }
+}
+
+export async function getCampaign(db: Firestore, campaignId: string): Promise<Campaign | null> {
+  const snapshot = await campaignRef(db, campaignId).get();
+  return snapshot.exists ? ({ id: snapshot.id, ...snapshot.data() } as Campaign) : null;
+}
+
+/**
+ * Records a campaign and a `pending` delivery for each recipient under
+ * `campaigns/{id}/deliveries/{subscriberId}`. The content is stored on the
+ * campaign, so a resumed run sends exactly what the first run sent.
+ *
+ * Returns false if the campaign already exists. If an earlier call crashed
+ * before every delivery was recorded, the deliveries are recorded again.
+ */
+export async function createCampaign(
+  db: Firestore,
+  campaignId: string,
+  broadcast: Broadcast,
+  recipients: CampaignRecipient[]
+): Promise<boolean> {
+  assertValidCampaignId(campaignId);
+  const ref = campaignRef(db, campaignId);
+  const now = new Date().toISOString();
+
+  const created = await db.runTransaction(async transaction => {
+    const existing = await transaction.get(ref);
+    if (existing.exists) {
+      return false;
+    }
+    transaction.create(ref, {
+      ...broadcast,
+      status: 'sending',
+      recipientCount: recipients.length,
+      recipientsRecorded: false,
+      createdAt: now,
+    });
+    return true;
+  });
+
+  const campaign = await getCampaign(db, campaignId);
+  if (!campaign?.recipientsRecorded) {
+    await recordRecipients(db, campaignId, recipients);
+  }
+  return created;
+}
+
+// Nothing is sent until recipientsRecorded is set, so every existing delivery
+// is still pending and can safely be overwritten
+async function recordRecipients(db: Firestore, campaignId: string, recipients: CampaignRecipient[]) {
+  const ref = campaignRef(db, campaignId);
+  const now = new Date().toISOString();
+
+  for (const group of chunk(recipients, BATCH_SIZE)) {
+    const batch = db.batch();
+    for (const recipient of group) {
+      batch.set(ref.collection('deliveries').doc(recipient.id), {
+        email: recipient.email,
+        status: 'pending',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+    await batch.commit();
+  }
+
+  await ref.update({ recipientsRecorded: true, recipientCount: recipients.length });
+}
+
+/**
+ * Stores a campaign to be sent by `dispatchDueCampaigns` once `sendAt` has
+ * passed. Its segment is evaluated at that point, so subscribers who join or
+ * leave in the meantime are accounted for. Returns false if the campaign already exists.
+ */
+export async function scheduleCampaign(
+  db: Firestore,
+  campaignId: string,
+  broadcast: Broadcast,
+  sendAt: Date
+): Promise<boolean> {
+  assertValidCampaignId(campaignId);
+  const ref = campaignRef(db, campaignId);
+
+  return db.runTransaction(async transaction => {
+    const existing = await transaction.get(ref);
+    if (existing.exists) {
+      return false;
+    }
+    transaction.create(ref, {
+      ...broadcast,
+      status: 'scheduled',
+      sendAt: sendAt.toISOString(),
+      recipientCount: 0,
+      recipientsRecorded: false,
+      createdAt: new Date().toISOString(),
+    });
+    return true;
+  });
+}
+
+export async function getCampaignStats(db: Firestore, campaignId: string): Promise<CampaignStats> {
+  const deliveries = campaignRef(db, campaignId).collection('deliveries');
+  const counts = await Promise.all(
+    DELIVERY_STATUSES.map(status => deliveries.where('status', '==', status).count().get())
+  );
+  return Object.fromEntries(
+    DELIVERY_STATUSES.map((status, index) => [status, counts[index].data().count])
+  ) as CampaignStats;
+}
+
+async function getActiveSubscriberIds(db: Firestore, subscriberIds: string[]): Promise<Set<string>> {
+  const active = new Set<string>();
+  for (const ids of chunk(subscriberIds, BATCH_SIZE)) {
+    if (ids.length === 0) continue;
+    const snapshots = await db.getAll(...ids.map(id => db.collection('email_subscribers').doc(id)));
+    for (const snapshot of snapshots) {
+      if (snapshot.data()?.status === 'active') active.add(snapshot.id);
+    }
+  }
+  return active;
+}
+
+async function updateDeliveries(db: Firestore, deliveries: DocumentSnapshot[], update: (delivery: DocumentSnapshot) => object) {
+  for (const group of chunk(deliveries, BATCH_SIZE)) {
+    const batch = db.batch();
+    for (const delivery of group) {
+      batch.update(delivery.ref, { ...update(delivery), updatedAt: new Date().toISOString() });
+    }
+    await batch.commit();
+  }
+}
+
+/**
+ * Sends every outstanding delivery of a campaign in batches and records each
+ * batch's outcome as it settles, so a crash loses at most the batches in
+ * flight. Deliveries that were already sent are never picked up again.
+ * Recipients who stopped being active since the campaign was created are
+ * skipped; if they were in an interrupted batch, only once it has been resent.
+ */
+export async function deliverCampaign(
+  db: Firestore,
+  campaignId: string,
+  { send, limits = getSendLimits(), clock, retryFailed = false, maxDeliveries, onDelivery }: DeliverCampaignOptions
+): Promise<CampaignStats> {
+  const campaign = await getCampaign(db, campaignId);
+  if (!campaign) {
+    throw new Error(`Campaign ${campaignId} not found`);
+  }
+  if (!campaign.recipientsRecorded) {
+    throw new Error(`Campaign ${campaignId} has no recorded recipients yet`);
+  }
+
+  const ref = campaignRef(db, campaignId);
+  const deliveries = ref.collection('deliveries');
+
+  // Interrupted batches are always taken whole, since a batch resent under its
+  // key must contain exactly the same emails
+  const interrupted = (await deliveries.where('status', '==', 'sending').get()).docs;
+  const statuses: DeliveryStatus[] = retryFailed ? ['pending', 'failed'] : ['pending'];
+  const remainingBudget = maxDeliveries === undefined ? undefined : maxDeliveries - interrupted.length;
+  const fresh = remainingBudget === undefined
+    ? (await deliveries.where('status', 'in', statuses).get()).docs
+    : remainingBudget > 0
+      ? (await deliveries.where('status', 'in', statuses).limit(remainingBudget).get()).docs
+      : [];
+  const outstanding = [...interrupted, ...fresh];
+
+  await ref.update({ status: 'sending' });
+
+  // Batches interrupted by a crash are resent exactly as they were, under their
+  // original key and to every original recipient, since Resend rejects a key
+  // reused with a different payload. Everything else is grouped into new batches.
+  const active = await getActiveSubscriberIds(db, outstanding.map(delivery => delivery.id));
+  const groups = new Map<string, DocumentSnapshot[]>();
+  const unassigned: DocumentSnapshot[] = [];
+  const inactive: DocumentSnapshot[] = [];
+  for (const delivery of outstanding) {
+    const { status, batchKey } = delivery.data() ?? {};
+    if (status === 'sending' && batchKey) {
+      groups.set(batchKey, [...(groups.get(batchKey) ?? []), delivery]);
+    } else if (active.has(delivery.id)) {
+      unassigned.push(delivery);
+    } else {
+      inactive.push(delivery);
+    }
+  }
+  await updateDeliveries(db, inactive, () => ({ status: 'skipped' }));
+  for (const delivery of inactive) {
+    onDelivery?.({ id: delivery.id, email: delivery.data()?.email }, 'skipped');
+  }
+  for (const group of chunk(unassigned, limits.batchSize)) {
+    const batchKey = `campaign/${campaignId}/${randomUUID()}`;
+    groups.set(batchKey, group);
+  }
+
+  // Record the batch assignments before anything is sent, so a crash can always resume them
+  const batchKeys = new Map([...groups].flatMap(([batchKey, group]) => group.map(delivery => [delivery.id, batchKey])));
+  await updateDeliveries(db, [...groups.values()].flat(), delivery => ({
+    status: 'sending',
+    batchKey: batchKeys.get(delivery.id),
+    attempts: FieldValue.increment(1),
+  }));
+
+  const batches: EmailBatch[] = [...groups].map(([idempotencyKey, group]) => ({
+    idempotencyKey,
+    emails: group.map(delivery => {
+      const unsubscribeUrl = getUnsubscribeUrl(delivery.id);
+      const email = composeBroadcastEmail(campaign, unsubscribeUrl);
+      return {
+        to: delivery.data()?.email,
+        ...email,
+        headers: getUnsubscribeHeaders(unsubscribeUrl),
+        tags: getEmailTags({ subscriberId: delivery.id, campaignId }),
+      };
+    }),
+  }));
+
+  await sendBatches(batches, send, {
+    limits,
+    clock,
+    onBatch: async (batch, results) => {
+      const group = groups.get(batch.idempotencyKey) ?? [];
+      const now = new Date().toISOString();
+      // Recipients of a resent batch who stopped being active are only marked skipped now
+      const outcome = (delivery: DocumentSnapshot): DeliveryStatus => {
+        const { id, alreadySent } = results[group.indexOf(delivery)];
+        return !active.has(delivery.id) ? 'skipped' : id || alreadySent ? 'sent' : 'failed';
+      };
+      await updateDeliveries(db, group, delivery => {
+        const { id, error } = results[group.indexOf(delivery)];
+        switch (outcome(delivery)) {
+          case 'skipped':
+            return { status: 'skipped', error: FieldValue.delete() };
+          case 'sent':
+            return { status: 'sent', ...(id && { messageId: id }), sentAt: now, error: FieldValue.delete() };
+          default:
+            return { status: 'failed', error: error ?? 'Unknown error' };
+        }
+      });
+      group.forEach((delivery, index) => {
+        onDelivery?.({ id: delivery.id, email: delivery.data()?.email }, outcome(delivery), results[index].error);
+      });
+    },
+  });
+
+  const stats = await getCampaignStats(db, campaignId);
+  const status = getCampaignStatus(stats);
+  await ref.update({
+    status,
+    stats,
+    ...(status === 'completed' && { completedAt: new Date().toISOString() }),
+  });
+
+  return stats;
+}
+
+function getCampaignStatus(stats: CampaignStats): CampaignStatus {
+  if (stats.pending > 0 || stats.sending > 0) return 'sending';
+  return stats.failed > 0 ? 'incomplete' : 'completed';
+}
+
+// Longer than any single dispatcher run, so a crashed run only delays the campaign
+const DISPATCH_LEASE_MS = 15 * 60 * 1000;
+
+async function claimCampaign(db: Firestore, campaignId: string, now: Date): Promise<boolean> {
+  const ref = campaignRef(db, campaignId);
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    const lockedUntil = snapshot.data()?.lockedUntil;
+    if (typeof lockedUntil === 'string' && lockedUntil > now.toISOString()) {
+      return false;
+    }
+    transaction.update(ref, { lockedUntil: new Date(now.getTime() + DISPATCH_LEASE_MS).toISOString() });
+    return true;
+  });
+}
+
+export interface DispatchOptions {
+  send: SendBatch;
+  limits?: SendLimits;
+  /** Deliveries to send across all campaigns in one run, to stay within serverless time limits. */
+  maxDeliveries: number;
+  now?: Date;
+}
+
+export interface DispatchResult {
+  campaignId: string;
+  status: CampaignStatus;
+  sent: number;
+  failed: number;
+  skipped: number;
+  /** Deliveries left for the next run; unknown when the run failed. */
+  remaining?: number;
+  /** Why the run failed, also stored on the campaign as `lastError`. */
+  error?: string;
+}
+
+/**
+ * Sends the next chunk of every scheduled campaign whose `sendAt` has passed,
+ * oldest first, up to `maxDeliveries` in total. Meant to be called on a timer:
+ * each call picks up where the last one stopped until the campaign completes.
+ * Campaigns started from the CLI have no `sendAt` and are never touched.
+ * A campaign that fails is reported and retried on the next call, without
+ * holding up the campaigns after it.
+ */
+export async function dispatchDueCampaigns(
+  db: Firestore,
+  { send, limits, maxDeliveries, now = new Date() }: DispatchOptions
+): Promise<DispatchResult[]> {
+  // Filtering on status alone avoids needing a composite index
+  const candidates = await db.collection('campaigns').where('status', 'in', ['scheduled', 'sending']).get();
+  const due = candidates.docs
+    .filter(doc => typeof doc.data().sendAt === 'string' && doc.data().sendAt <= now.toISOString())
+    .sort((a, b) => a.data().sendAt.localeCompare(b.data().sendAt));
+
+  const results: DispatchResult[] = [];
+  let budget = maxDeliveries;
+
+  for (const doc of due) {
+    if (budget <= 0) break;
+    if (!(await claimCampaign(db, doc.id, now))) continue;
+
+    const counts = { sent: 0, failed: 0, skipped: 0 };
+    let error: string | undefined;
+    try {
+      if (!doc.data().recipientsRecorded) {
+        const members = await findSegmentMembers(db, parseSegment(doc.data().segment));
+        await recordRecipients(db, doc.id, members);
+      }
+
+      const stats = await deliverCampaign(db, doc.id, {
+        send,
+        limits,
+        maxDeliveries: budget,
+        onDelivery: (_, status) => {
+          if (status === 'sent' || status === 'failed' || status === 'skipped') counts[status]++;
+        },
+      });
+
+      results.push({
+        campaignId: doc.id,
+        status: getCampaignStatus(stats),
+        ...counts,
+        remaining: stats.pending + stats.sending,
+      });
+    } catch (dispatchError) {
+      console.error(`Failed to dispatch campaign ${doc.id}:`, dispatchError);
+      error = dispatchError instanceof Error ? dispatchError.message : String(dispatchError);
+      results.push({ campaignId: doc.id, status: doc.data().status, ...counts, error });
+    } finally {
+      budget -= counts.sent + counts.failed + counts.skipped;
+      await campaignRef(db, doc.id).update({
+        lockedUntil: FieldValue.delete(),
+        ...(error === undefined
+          ? { lastError: FieldValue.delete(), lastErrorAt: FieldValue.delete() }
+          : { lastError: error, lastErrorAt: now.toISOString() }),
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,118 @@
+export type CaptchaProvider = 'turnstile' | 'hcaptcha' | 'fake';
+
+export interface CaptchaVerification {
+  success: boolean;
+  errorCodes: string[];
+}
+
+export interface CaptchaVerifier {
+  provider: CaptchaProvider;
+  verify(token: string, remoteIp?: string): Promise<CaptchaVerification>;
+}
+
+const SITEVERIFY_URLS = {
+  turnstile: 'https://challenges.cloudflare.com/turnstile/v0/siteverify',
+  hcaptcha: 'https://api.hcaptcha.com/siteverify',
+};
+
+/**
+ * Turnstile and hCaptcha share the same siteverify contract: a form-encoded POST
+ * of `secret`, `response` and optional `remoteip`, answered with
+ * `{ success, 'error-codes' }`.
+ */
+function createSiteverifyVerifier(
+  provider: 'turnstile' | 'hcaptcha',
+  secret: string,
+  fetchImpl?: typeof fetch
+): CaptchaVerifier {
+  return {
+    provider,
+    async verify(token, remoteIp) {
+      const params = new URLSearchParams({ secret, response: token });
+      if (remoteIp && remoteIp !== 'unknown') {
+        params.set('remoteip', remoteIp);
+      }
+
+      const response = await (fetchImpl ?? fetch)(SITEVERIFY_URLS[provider], {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: params.toString(),
+      });
+
+      if (!response.ok) {
+        throw new Error(`${provider} siteverify failed with status ${response.status}`);
+      }
+
+      const result = await response.json();
+      return {
+        success: result.success === true,
+        errorCodes: result['error-codes'] ?? [],
+      };
+    },
+  };
+}
+
+export function createTurnstileVerifier(secret: string, fetchImpl?: typeof fetch): CaptchaVerifier {
+  return createSiteverifyVerifier('turnstile', secret, fetchImpl);
+}
+
+export function createHCaptchaVerifier(secret: string, fetchImpl?: typeof fetch): CaptchaVerifier {
+  return createSiteverifyVerifier('hcaptcha', secret, fetchImpl);
+}
+
+/**
+ * Offline verifier for tests and local development: accepts exactly one token.
+ */
+export function createFakeCaptchaVerifier(acceptedToken = 'pass'): CaptchaVerifier {
+  return {
+    provider: 'fake',
+    async verify(token) {
+      return token === acceptedToken
+        ? { success: true, errorCodes: [] }
+        : { success: false, errorCodes: ['invalid-input-response'] };
+    },
+  };
+}
+
+/**
+ * Resolves the verifier from `NEXT_PUBLIC_CAPTCHA_PROVIDER` and `CAPTCHA_SECRET_KEY`.
+ * The provider is the same variable the landing page reads to render the widget,
+ * so the server never asks for a token the page has no way to produce.
+ * Returns null when no provider is configured, in which case challenges are skipped.
+ */
+export function getCaptchaVerifier(): CaptchaVerifier | null {
+  const provider = process.env.NEXT_PUBLIC_CAPTCHA_PROVIDER;
+  const secret = process.env.CAPTCHA_SECRET_KEY;
+
+  if (!provider) {
+    return null;
+  }
+
+  if (provider === 'fake') {
+    if (process.env.NODE_ENV === 'production') {
+      console.error('Ignoring fake CAPTCHA provider in production');
+      return null;
+    }
+    return createFakeCaptchaVerifier(secret || undefined);
+  }
+
+  if (provider !== 'turnstile' && provider !== 'hcaptcha') {
+    console.error('Unknown CAPTCHA provider:', provider);
+    return null;
+  }
+
+  if (!secret) {
+    console.error('CAPTCHA secret key not found in environment variables');
+    return null;
+  }
+
+  // Without a site key the page renders no widget, so every signup would fail
+  if (!process.env.NEXT_PUBLIC_CAPTCHA_SITE_KEY) {
+    console.error('CAPTCHA site key not found in environment variables');
+    return null;
+  }
+
+  return provider === 'turnstile'
+    ? createTurnstileVerifier(secret)
+    : createHCaptchaVerifier(secret);
+}
@@ -0,0 +1,19 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Checks the `Authorization: Bearer <CRON_SECRET>` header that Vercel Cron sends
+ * with every scheduled invocation. Rejects everything while `CRON_SECRET` is unset.
+ */
+export function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error('CRON_SECRET is not configured; refusing cron request');
+    return false;
+  }
+
+  const header = request.headers.get('authorization') || '';
+  // Hashing first gives equal-length buffers, as timingSafeEqual requires
+  const expected = createHash('sha256').update(`Bearer ${secret}`).digest();
+  const actual = createHash('sha256').update(header).digest();
+  return timingSafeEqual(expected, actual);
+}
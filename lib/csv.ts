@@ -0,0 +1,66 @@
+// Spreadsheet apps run cells starting with these as formulas, which a crafted
+// signup source could abuse, so such cells are written with a leading quote
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** One RFC 4180 line, including the trailing CRLF. */
+export function toCsvLine(values: (string | number | undefined | null)[]): string {
+  return `${values.map(value => escapeCell(value === undefined || value === null ? '' : String(value))).join(',')}\r\n`;
+}
+
+/**
+ * Parses RFC 4180 CSV into one object per row, keyed by the header row. Undoes
+ * the formula escaping of `toCsvLine`, so exports can be imported again as is.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new Error('Unterminated quoted field');
+  }
+  if (cell || row.length > 0) {
+    rows.push([...row, cell]);
+  }
+
+  const [header = [], ...records] = rows.filter(values => values.some(value => value !== ''));
+  const columns = header.map(column => column.trim());
+  return records.map(values => Object.fromEntries(
+    columns.map((column, index) => {
+      const value = values[index] ?? '';
+      return [column, /^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value];
+    })
+  ));
+}
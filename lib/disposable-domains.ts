@@ -0,0 +1,103 @@
+// Well-known disposable / temporary inbox providers. Subdomains of these are
+// treated as disposable too. Extend this list as new providers show up in signups.
+export const DISPOSABLE_DOMAINS: ReadonlySet<string> = new Set([
+  '0-mail.com',
+  '10minutemail.com',
+  '10minutemail.net',
+  '20minutemail.com',
+  '33mail.com',
+  'anonaddy.me',
+  'anonbox.net',
+  'armyspy.com',
+  'burnermail.io',
+  'byom.de',
+  'cuvox.de',
+  'dayrep.com',
+  'discard.email',
+  'discardmail.com',
+  'dispostable.com',
+  'dropmail.me',
+  'einrot.com',
+  'emailfake.com',
+  'emailondeck.com',
+  'emailtemporanea.com',
+  'fakeinbox.com',
+  'fakemail.net',
+  'fleckens.hu',
+  'getairmail.com',
+  'getnada.com',
+  'gishpuppy.com',
+  'guerrillamail.biz',
+  'guerrillamail.com',
+  'guerrillamail.de',
+  'guerrillamail.info',
+  'guerrillamail.net',
+  'guerrillamail.org',
+  'guerrillamailblock.com',
+  'gustr.com',
+  'harakirimail.com',
+  'inboxbear.com',
+  'incognitomail.org',
+  'jetable.org',
+  'jourrapide.com',
+  'kasmail.com',
+  'maildrop.cc',
+  'mailcatch.com',
+  'maildrop.ml',
+  'mailforspam.com',
+  'mailinator.com',
+  'mailinator.net',
+  'mailinator2.com',
+  'mailnesia.com',
+  'mailpoof.com',
+  'mailsac.com',
+  'mailtemp.info',
+  'mintemail.com',
+  'moakt.com',
+  'mohmal.com',
+  'mvrht.com',
+  'mytemp.email',
+  'mytrashmail.com',
+  'nada.email',
+  'nwytg.net',
+  'one-time.email',
+  'owlymail.com',
+  'pokemail.net',
+  'rhyta.com',
+  'sharklasers.com',
+  'spam4.me',
+  'spambog.com',
+  'spambox.us',
+  'spamgourmet.com',
+  'spamex.com',
+  'spamfree24.org',
+  'superrito.com',
+  'teleworm.us',
+  'temp-mail.io',
+  'temp-mail.org',
+  'tempail.com',
+  'tempinbox.com',
+  'tempmail.com',
+  'tempmail.dev',
+  'tempmail.net',
+  'tempmailaddress.com',
+  'tempmailo.com',
+  'tempr.email',
+  'throwam.com',
+  'throwawaymail.com',
+  'tmail.ws',
+  'tmpmail.net',
+  'tmpmail.org',
+  'trash-mail.com',
+  'trashmail.com',
+  'trashmail.de',
+  'trashmail.net',
+  'trbvm.com',
+  'wegwerfmail.de',
+  'wegwerfmail.net',
+  'yepmail.net',
+  'yopmail.com',
+  'yopmail.fr',
+  'yopmail.net',
+  'zetmail.com',
+]);
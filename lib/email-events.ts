@@ -0,0 +1,158 @@
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentReference, DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+import { z } from 'zod';
+import type { EmailTag } from '@/lib/batch-send';
+import { normalizeEmail } from '@/lib/email-quality';
+import { getSubscriberId, historyEntry, isMoreRestrictive } from '@/lib/subscribers';
+
+// Resend only accepts ASCII letters, numbers, underscores and dashes in tags
+const TAG_VALUE_PATTERN = /^[A-Za-z0-9_-]{1,256}$/;
+
+/**
+ * Tags that tie webhook events back to the subscriber and campaign an email
+ * was sent for. Campaign IDs that can't be used as a tag value are left out,
+ * so their events still count for the subscriber.
+ */
+export function getEmailTags({ subscriberId, campaignId }: { subscriberId: string; campaignId?: string }): EmailTag[] {
+  const tags = [{ name: 'subscriber_id', value: subscriberId }];
+  if (campaignId && isValidTagValue(campaignId)) {
+    tags.push({ name: 'campaign_id', value: campaignId });
+  }
+  return tags;
+}
+
+export function isValidTagValue(value: string): boolean {
+  return TAG_VALUE_PATTERN.test(value);
+}
+
+/** The Resend webhook events we record, by the name used in field names and counters. */
+const EVENT_TYPES = {
+  'email.delivered': 'delivered',
+  'email.opened': 'opened',
+  'email.clicked': 'clicked',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+} as const;
+
+export type EmailEventType = (typeof EVENT_TYPES)[keyof typeof EVENT_TYPES];
+
+const webhookEventSchema = z.object({
+  type: z.string(),
+  created_at: z.string(),
+  data: z.object({
+    email_id: z.string(),
+    to: z.array(z.string()).default([]),
+    bounce: z.object({ type: z.string().optional(), message: z.string().optional() }).optional(),
+    click: z.object({ link: z.string().optional() }).optional(),
+    // Tags arrive as a name -> value object; the name/value list used when sending is accepted too
+    tags: z
+      .union([
+        z.record(z.string(), z.string()),
+        z.array(z.object({ name: z.string(), value: z.string() })).transform(tags =>
+          Object.fromEntries(tags.map(({ name, value }) => [name, value]))
+        ),
+      ])
+      .optional(),
+  }),
+});
+
+export type EmailEventOutcome = 'recorded' | 'duplicate' | 'ignored';
+
+/**
+ * Records a Resend webhook event, identified by its `svix-id` so that retried
+ * deliveries of the same event are only counted once:
+ *
+ * - every event is logged in `email_events/{eventId}`
+ * - the first delivered/opened/clicked/bounced/complained event per campaign
+ *   email sets `<type>At` on its delivery and increments `events.<type>` on the campaign
+ * - opens and clicks update `lastOpenedAt` / `lastClickedAt` on the subscriber
+ * - a hard bounce marks the subscriber `bounced` and a spam complaint marks
+ *   them `complained`, so no broadcast or campaign is sent to them again
+ *
+ * Soft bounces are recorded but leave the subscriber active. Throws a
+ * `ZodError` if the payload of a recorded event type is malformed.
+ */
+export async function recordEmailEvent(db: Firestore, eventId: string, payload: unknown): Promise<EmailEventOutcome> {
+  // Other events (sent, delivery delays, contact changes) have different payloads and are skipped
+  const type = EVENT_TYPES[(payload as { type?: string } | null)?.type as keyof typeof EVENT_TYPES];
+  if (!type) {
+    return 'ignored';
+  }
+  const event = webhookEventSchema.parse(payload);
+
+  const { email_id: emailId, to, bounce, click, tags = {} } = event.data;
+  const at = event.created_at;
+  const subscriberId = tags.subscriber_id ?? (to[0] ? getSubscriberId(normalizeEmail(to[0])) : undefined);
+  const campaignId = tags.campaign_id;
+
+  const eventRef = db.collection('email_events').doc(eventId);
+  const subscriberRef = subscriberId ? db.collection('email_subscribers').doc(subscriberId) : null;
+  const campaignRef = campaignId ? db.collection('campaigns').doc(campaignId) : null;
+  const deliveryRef = campaignRef && subscriberId ? campaignRef.collection('deliveries').doc(subscriberId) : null;
+
+  return db.runTransaction(async transaction => {
+    const get = (ref: DocumentReference | null) => (ref ? transaction.get(ref) : Promise.resolve(null));
+    const [existing, subscriber, delivery] = await Promise.all([get(eventRef), get(subscriberRef), get(deliveryRef)]);
+    if (existing?.exists) {
+      return 'duplicate';
+    }
+
+    transaction.create(eventRef, {
+      type,
+      emailId,
+      at,
+      receivedAt: new Date().toISOString(),
+      ...(subscriber?.exists && { subscriberId: subscriber.id }),
+      ...(delivery?.exists && { campaignId }),
+      ...(bounce && { bounceType: bounce.type ?? 'Unknown' }),
+      ...(click?.link && { link: click.link }),
+    });
+
+    if (subscriber?.exists) {
+      const update = getSubscriberUpdate(subscriber, type, at, bounce?.type);
+      if (update) transaction.update(subscriber.ref, update);
+    }
+
+    const field = `${type}At`;
+    if (campaignRef && delivery?.exists && !delivery.data()?.[field]) {
+      transaction.update(delivery.ref, { [field]: at, updatedAt: new Date().toISOString() });
+      transaction.update(campaignRef, { [`events.${type}`]: FieldValue.increment(1) });
+    }
+
+    return 'recorded';
+  });
+}
+
+function getSubscriberUpdate(
+  subscriber: DocumentSnapshot,
+  type: EmailEventType,
+  at: string,
+  bounceType?: string
+): Record<string, unknown> | null {
+  const data = subscriber.data() ?? {};
+
+  switch (type) {
+    case 'opened':
+    case 'clicked': {
+      const field = type === 'opened' ? 'lastOpenedAt' : 'lastClickedAt';
+      return String(data[field] ?? '') < at ? { [field]: at } : null;
+    }
+    // Only permanent bounces mean the address is gone; transient ones (full inbox, greylisting) clear up
+    case 'bounced':
+      if (bounceType !== 'Permanent' || !isMoreRestrictive('bounced', data.status)) return null;
+      return {
+        status: 'bounced',
+        bouncedAt: at,
+        history: FieldValue.arrayUnion(historyEntry('bounced')),
+      };
+    case 'complained':
+      if (!isMoreRestrictive('complained', data.status)) return null;
+      return {
+        status: 'complained',
+        complainedAt: at,
+        history: FieldValue.arrayUnion(historyEntry('complained')),
+      };
+    default:
+      return null;
+  }
+}
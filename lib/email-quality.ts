@@ -0,0 +1,138 @@
+import { promises as dns } from 'dns';
+import { DISPOSABLE_DOMAINS } from '@/lib/disposable-domains';
+
+export type EmailRejectionReason = 'disposable-domain' | 'no-mx-record';
+
+export type EmailAssessment =
+  | { ok: true; email: string; normalizedEmail: string; roleAccount: boolean }
+  | { ok: false; reason: EmailRejectionReason; message: string };
+
+export type MxResolver = (domain: string) => Promise<{ exchange: string; priority: number }[]>;
+
+interface AssessEmailOptions {
+  /** Look up MX records for the domain. Off by default since it needs network access. */
+  checkMx?: boolean;
+  resolveMx?: MxResolver;
+  mxTimeoutMs?: number;
+}
+
+const ROLE_ACCOUNTS: ReadonlySet<string> = new Set([
+  'abuse',
+  'admin',
+  'administrator',
+  'billing',
+  'contact',
+  'donotreply',
+  'do-not-reply',
+  'help',
+  'hostmaster',
+  'info',
+  'mailer-daemon',
+  'marketing',
+  'no-reply',
+  'noc',
+  'noreply',
+  'office',
+  'postmaster',
+  'root',
+  'sales',
+  'security',
+  'support',
+  'webmaster',
+]);
+
+const GMAIL_DOMAINS: ReadonlySet<string> = new Set(['gmail.com', 'googlemail.com']);
+
+const REJECTION_MESSAGES: Record<EmailRejectionReason, string> = {
+  'disposable-domain': 'Disposable email addresses are not allowed. Please use your regular email.',
+  'no-mx-record': "This email domain can't receive mail. Please check for typos.",
+};
+
+function splitEmail(email: string): { local: string; domain: string } {
+  const at = email.lastIndexOf('@');
+  return { local: email.slice(0, at), domain: email.slice(at + 1) };
+}
+
+/**
+ * Canonical form used for duplicate detection. Gmail ignores dots and
+ * `+tags` in the local part and treats googlemail.com as gmail.com, so
+ * `J.Doe+music@googlemail.com` and `jdoe@gmail.com` are the same inbox.
+ */
+export function normalizeEmail(email: string): string {
+  const lower = email.trim().toLowerCase();
+  const { local, domain } = splitEmail(lower);
+
+  if (GMAIL_DOMAINS.has(domain)) {
+    return `${local.split('+')[0].replace(/\./g, '')}@gmail.com`;
+  }
+
+  return lower;
+}
+
+export function isDisposableDomain(domain: string): boolean {
+  const labels = domain.toLowerCase().split('.');
+  for (let i = 0; i < labels.length - 1; i++) {
+    if (DISPOSABLE_DOMAINS.has(labels.slice(i).join('.'))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export function isRoleAccount(email: string): boolean {
+  const { local } = splitEmail(email.toLowerCase());
+  return ROLE_ACCOUNTS.has(local.split('+')[0]);
+}
+
+async function hasMxRecord(domain: string, resolveMx: MxResolver, timeoutMs: number): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<'timeout'>(resolve => {
+    timer = setTimeout(() => resolve('timeout'), timeoutMs);
+  });
+
+  try {
+    const result = await Promise.race([resolveMx(domain), timeout]);
+    // Don't turn people away because DNS is slow
+    if (result === 'timeout') return true;
+    return result.length > 0;
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === 'ENOTFOUND' || code === 'ENODATA') {
+      return false;
+    }
+    console.error('MX lookup failed for', domain, error);
+    return true;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Server-side quality checks run on every signup after schema validation.
+ * Shared mailboxes like info@ are let through, since small teams often sign up
+ * with one; they're flagged with `roleAccount`, so a campaign can leave them out
+ * with the `roleaccount:false` segment term.
+ */
+export async function assessEmail(email: string, options: AssessEmailOptions = {}): Promise<EmailAssessment> {
+  const lower = email.trim().toLowerCase();
+  const { domain } = splitEmail(lower);
+
+  const reject = (reason: EmailRejectionReason): EmailAssessment => ({
+    ok: false,
+    reason,
+    message: REJECTION_MESSAGES[reason],
+  });
+
+  if (isDisposableDomain(domain)) {
+    return reject('disposable-domain');
+  }
+
+  if (options.checkMx) {
+    const resolveMx = options.resolveMx ?? dns.resolveMx;
+    if (!(await hasMxRecord(domain, resolveMx, options.mxTimeoutMs ?? 3000))) {
+      return reject('no-mx-record');
+    }
+  }
+
+  return { ok: true, email: lower, normalizedEmail: normalizeEmail(lower), roleAccount: isRoleAccount(lower) };
+}
@@ -0,0 +1,317 @@
+import { getSiteUrl } from '@/lib/site';
+import { CONFIRM_TOKEN_TTL_SECONDS } from '@/lib/tokens';
+
+/**
+ * Content blocks that make up the body of an email. Every block renders to both
+ * HTML and plain text, so templates never have to write the text version by hand.
+ * Strings are escaped when rendered; only `html` blocks are inserted as-is.
+ */
+export type EmailBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'button'; label: string; url: string }
+  | { type: 'link'; label: string; url: string }
+  | { type: 'note'; text: string }
+  /** Trusted, pre-rendered HTML. `text` defaults to a conversion of `html`. */
+  | { type: 'html'; html: string; text?: string };
+
+export interface EmailLayout {
+  /** Document title, shown by some clients in place of the subject. */
+  title: string;
+  /** Inbox preview text shown after the subject line. */
+  preheader?: string;
+  blocks: EmailBlock[];
+  /** First line of the footer, explaining why the recipient got this email. */
+  footerNote: string;
+  /** Omitted for emails that are not about the list, such as admin sign-in links. */
+  unsubscribeUrl?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplateVariables {
+  welcome: { unsubscribeUrl: string };
+  confirm: { confirmUrl: string; waitlistUrl: string; unsubscribeUrl: string };
+  broadcast: { subject: string; title: string; bodyHtml: string; bodyText?: string; preheader?: string; unsubscribeUrl: string };
+  launch: { launchUrl: string; unsubscribeUrl: string };
+  producers: { siteUrl: string; unsubscribeUrl: string };
+  survey: { unsubscribeUrl: string };
+  adminLogin: { loginUrl: string; expiresInMinutes: number };
+}
+
+export type EmailTemplateName = keyof EmailTemplateVariables;
+
+interface EmailTemplate<T> {
+  subject: (variables: T) => string;
+  layout: (variables: T) => Omit<EmailLayout, 'title' | 'unsubscribeUrl'>;
+}
+
+const UPDATES_FOOTER = "You're receiving this because you signed up for Orbit updates.";
+
+// For link lifetimes, which are set in whole days
+function formatDays(seconds: number): string {
+  const days = Math.round(seconds / (24 * 60 * 60));
+  return days === 1 ? '1 day' : `${days} days`;
+}
+
+const templates: { [K in EmailTemplateName]: EmailTemplate<EmailTemplateVariables[K]> } = {
+  welcome: {
+    subject: () => 'Welcome to Orbit!',
+    layout: () => ({
+      blocks: [
+        { type: 'heading', text: "You're on the list!" },
+        { type: 'paragraph', text: "Thanks for signing up. We'll keep you updated on our progress and let you know when we launch." },
+      ],
+      footerNote: 'Stay tuned for updates.',
+    }),
+  },
+  confirm: {
+    subject: () => 'Confirm your Orbit subscription',
+    layout: ({ confirmUrl, waitlistUrl }) => ({
+      preheader: 'One click to confirm your spot on the Orbit waitlist.',
+      blocks: [
+        { type: 'heading', text: 'Confirm your email' },
+        { type: 'paragraph', text: 'Thanks for signing up. Click the button below to confirm your address and join the Orbit waitlist.' },
+        { type: 'button', label: 'Confirm subscription', url: confirmUrl },
+        { type: 'note', text: `This link expires in ${formatDays(CONFIRM_TOKEN_TTL_SECONDS)}. If you didn't sign up, you can ignore this email.` },
+        { type: 'paragraph', text: 'See your position, share your referral link and manage your preferences:' },
+        { type: 'link', label: 'Check your waitlist spot', url: waitlistUrl },
+      ],
+      footerNote: "You won't receive any updates until you confirm.",
+    }),
+  },
+  broadcast: {
+    subject: ({ subject }) => subject,
+    layout: ({ title, bodyHtml, bodyText, preheader }) => ({
+      preheader,
+      blocks: [
+        { type: 'heading', text: title },
+        { type: 'html', html: bodyHtml, text: bodyText },
+      ],
+      footerNote: UPDATES_FOOTER,
+    }),
+  },
+  launch: {
+    subject: () => 'Orbit is live',
+    layout: ({ launchUrl }) => ({
+      preheader: 'The wait is over. Orbit is ready for you.',
+      blocks: [
+        { type: 'heading', text: 'Orbit is live' },
+        { type: 'paragraph', text: "The wait is over. Thanks for being on the waitlist — you're among the first to get access." },
+        { type: 'button', label: 'Get started', url: launchUrl },
+      ],
+      footerNote: UPDATES_FOOTER,
+    }),
+  },
+  producers: {
+    subject: () => 'What Orbit does for producers',
+    layout: ({ siteUrl }) => ({
+      preheader: 'A closer look at what we are building while you wait.',
+      blocks: [
+        { type: 'heading', text: 'Built for producers' },
+        { type: 'paragraph', text: 'Orbit is like Cursor for music production: an assistant that works alongside you in your sessions, so you spend less time on busywork and more time finishing tracks.' },
+        { type: 'paragraph', text: "We're building it together with producers on the waitlist. Tell us how you work and we'll shape Orbit around it." },
+        { type: 'link', label: 'Take a look at Orbit', url: siteUrl },
+      ],
+      footerNote: UPDATES_FOOTER,
+    }),
+  },
+  survey: {
+    subject: () => 'Three quick questions',
+    layout: () => ({
+      preheader: 'Help us shape Orbit. Just hit reply.',
+      blocks: [
+        { type: 'heading', text: 'Help us shape Orbit' },
+        { type: 'paragraph', text: "You've been on the waitlist for a little while now, and we'd love to hear from you. Just reply to this email:" },
+        { type: 'paragraph', text: '1. What do you produce, and in which DAW?' },
+        { type: 'paragraph', text: '2. What slows you down most when finishing a track?' },
+        { type: 'paragraph', text: '3. What would make Orbit a must-have for you?' },
+        { type: 'note', text: 'Every reply is read by the team.' },
+      ],
+      footerNote: UPDATES_FOOTER,
+    }),
+  },
+  adminLogin: {
+    subject: () => 'Sign in to Orbit admin',
+    layout: ({ loginUrl, expiresInMinutes }) => ({
+      blocks: [
+        { type: 'heading', text: 'Sign in to Orbit admin' },
+        { type: 'paragraph', text: 'Click the button below to sign in to the admin dashboard.' },
+        { type: 'button', label: 'Sign in', url: loginUrl },
+        { type: 'note', text: `This link expires in ${expiresInMinutes} minutes. If you didn't try to sign in, you can ignore this email.` },
+      ],
+      footerNote: 'You received this because someone asked to sign in with this address.',
+    }),
+  },
+};
+
+/** Renders a named template with its variables into a subject, HTML body and plain-text body. */
+export function renderEmail<T extends EmailTemplateName>(name: T, variables: EmailTemplateVariables[T]): RenderedEmail {
+  const template = templates[name] as EmailTemplate<EmailTemplateVariables[T]>;
+  const subject = template.subject(variables);
+  const layout: EmailLayout = {
+    title: subject,
+    unsubscribeUrl: (variables as { unsubscribeUrl?: string }).unsubscribeUrl,
+    ...template.layout(variables),
+  };
+
+  return { subject, html: renderLayoutHtml(layout), text: renderLayoutText(layout) };
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, character => HTML_ESCAPES[character]);
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  '#39': "'",
+  nbsp: ' ',
+};
+
+/** Best-effort plain-text version of trusted email HTML. Links keep their URL in brackets. */
+export function htmlToText(html: string): string {
+  return html
+    // Newlines between tags are source formatting, not content
+    .replace(/>\s*\n\s*</g, '><')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) => `${label} [${href}]`)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/li>/gi, '\n')
+    .replace(/<\/(p|div|h[1-6]|ul|ol|blockquote|pre|tr)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, entity: string) => HTML_ENTITIES[entity])
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function renderBlockHtml(block: EmailBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h2 style="margin: 0 0 16px 0; font-size: 24px; font-weight: 600; color: #ffffff;">${escapeHtml(block.text)}</h2>`;
+    case 'paragraph':
+      return `<p style="margin: 0 0 24px 0; font-size: 16px; line-height: 1.6; color: #a1a1a1;">${escapeHtml(block.text)}</p>`;
+    case 'button':
+      return `<a href="${escapeHtml(block.url)}" style="display: inline-block; margin: 0 0 24px 0; padding: 12px 32px; background-color: #fb923c; color: #ffffff; font-size: 16px; font-weight: 600; text-decoration: none; border-radius: 8px;">${escapeHtml(block.label)}</a>`;
+    case 'link':
+      return `<p style="margin: 0 0 24px 0; font-size: 14px;"><a href="${escapeHtml(block.url)}" style="color: #fb923c; text-decoration: underline;">${escapeHtml(block.label)}</a></p>`;
+    case 'note':
+      return `<p style="margin: 0 0 24px 0; font-size: 13px; line-height: 1.6; color: #666666;">${escapeHtml(block.text)}</p>`;
+    case 'html':
+      return `<div style="margin: 0 0 24px 0; font-size: 16px; line-height: 1.6; color: #a1a1a1; text-align: left;">${block.html}</div>`;
+  }
+}
+
+function renderBlockText(block: EmailBlock): string {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+    case 'note':
+      return block.text;
+    case 'button':
+    case 'link':
+      return `${block.label}: ${block.url}`;
+    case 'html':
+      return block.text ?? htmlToText(block.html);
+  }
+}
+
+function renderLayoutHtml({ title, preheader, blocks, footerNote, unsubscribeUrl }: EmailLayout): string {
+  const preheaderHtml = preheader
+    ? `<div style="display: none; max-height: 0; overflow: hidden;">${escapeHtml(preheader)}</div>`
+    : '';
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #0a0a0a; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+  ${preheaderHtml}
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: #0a0a0a;">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="max-width: 600px; background-color: #111111; border-radius: 12px; border: 1px solid #222222;">
+          <tr>
+            <td style="padding: 48px 40px;">
+              <!-- Logo/Header -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+                <tr>
+                  <td align="center" style="padding-bottom: 32px;">
+                    <img src="${getSiteUrl()}/ORBIT-WIREFRAME-LOGO.png" alt="Orbit" width="64" height="64" style="display: block; margin: 0 auto 16px auto;" />
+                    <h1 style="margin: 0; font-size: 28px; font-weight: 700; color: #ffffff; letter-spacing: -0.5px;">
+                      Orbit
+                    </h1>
+                  </td>
+                </tr>
+              </table>
+
+              <!-- Main Content -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+                <tr>
+                  <td align="center">
+                    ${blocks.map(renderBlockHtml).join('\n                    ')}
+                  </td>
+                </tr>
+              </table>
+
+              <!-- Divider -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+                <tr>
+                  <td style="padding: 24px 0;">
+                    <div style="height: 1px; background-color: #222222;"></div>
+                  </td>
+                </tr>
+              </table>
+
+              <!-- Footer -->
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+                <tr>
+                  <td align="center">
+                    <p style="margin: 0; font-size: 14px; color: #666666;">
+                      ${escapeHtml(footerNote)}
+                    </p>
+                    ${unsubscribeUrl ? `<p style="margin: 8px 0 0 0; font-size: 12px; color: #666666;">
+                      <a href="${escapeHtml(unsubscribeUrl)}" style="color: #666666; text-decoration: underline;">Unsubscribe</a>
+                    </p>` : ''}
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+}
+
+function renderLayoutText({ blocks, footerNote, unsubscribeUrl }: EmailLayout): string {
+  return [
+    'Orbit',
+    ...blocks.map(renderBlockText),
+    '---',
+    footerNote,
+    ...(unsubscribeUrl ? [`Unsubscribe: ${unsubscribeUrl}`] : []),
+  ].join('\n\n');
+}
@@ -1,102 +1,82 @@
-import { Resend } from 'resend';
+import { getSiteUrl } from '@/lib/site';
+import { renderEmail } from '@/lib/email-templates';
+import { signToken, CONFIRM_TOKEN_TTL_SECONDS } from '@/lib/tokens';
+import type { SendBatch } from '@/lib/batch-send';
+import { getEmailTags } from '@/lib/email-events';
+import { getEmailTransport } from '@/lib/email-transport';
 
-let resend: Resend | null = null;
+export function getUnsubscribeUrl(subscriberId: string): string {
+  return `${getSiteUrl()}/api/unsubscribe?token=${encodeURIComponent(signToken(subscriberId, 'unsubscribe'))}`;
+}
 
-function getResendClient(): Resend {
-  if (!resend) {
-    resend = new Resend(process.env.RESEND_API_KEY);
-  }
-  return resend;
+/** Double opt-in link to `/api/subscribe/confirm`, valid for `CONFIRM_TOKEN_TTL_SECONDS`. */
+export function getConfirmUrl(subscriberId: string): string {
+  return `${getSiteUrl()}/api/subscribe/confirm?token=${encodeURIComponent(signToken(subscriberId, 'confirm', CONFIRM_TOKEN_TTL_SECONDS))}`;
+}
+
+/** Link to the subscriber's `/waitlist/[token]` status page. Like unsubscribe links, it never expires. */
+export function getWaitlistUrl(subscriberId: string): string {
+  return `${getSiteUrl()}/waitlist/${encodeURIComponent(signToken(subscriberId, 'waitlist'))}`;
+}
+
+/**
+ * RFC 2369 / RFC 8058 headers that let mail clients offer a native one-click
+ * unsubscribe button which POSTs straight to `/api/unsubscribe`.
+ */
+export function getUnsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+  return {
+    'List-Unsubscribe': `<${unsubscribeUrl}>`,
+    'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+  };
 }
 
 interface SendConfirmationEmailParams {
   to: string;
+  subscriberId: string;
+  confirmUrl: string;
 }
 
-export async function sendConfirmationEmail({ to }: SendConfirmationEmailParams) {
-  const { data, error } = await getResendClient().emails.send({
-    from: process.env.RESEND_FROM_EMAIL || 'Orbit <onboarding@resend.dev>',
-    to,
-    subject: 'Welcome to Orbit!',
-    html: getConfirmationEmailHtml(),
-  });
+export async function sendConfirmationEmail({ to, subscriberId, confirmUrl }: SendConfirmationEmailParams) {
+  const unsubscribeUrl = getUnsubscribeUrl(subscriberId);
+  const waitlistUrl = getWaitlistUrl(subscriberId);
+  const { subject, html, text } = renderEmail('confirm', { confirmUrl, waitlistUrl, unsubscribeUrl });
 
-  if (error) {
+  try {
+    const id = await getEmailTransport().send({
+      to,
+      subject,
+      html,
+      text,
+      headers: getUnsubscribeHeaders(unsubscribeUrl),
+      tags: getEmailTags({ subscriberId }),
+    });
+    return { id };
+  } catch (error) {
     console.error('Failed to send confirmation email:', error);
-    throw new Error(`Failed to send confirmation email: ${error.message}`);
+    throw new Error(`Failed to send confirmation email: ${(error as Error).message}`);
   }
-
-  return data;
 }
 
-function getConfirmationEmailHtml(): string {
-  return `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Welcome to Orbit</title>
-</head>
-<body style="margin: 0; padding: 0; background-color: #0a0a0a; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
-  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: #0a0a0a;">
-    <tr>
-      <td align="center" style="padding: 40px 20px;">
-        <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="max-width: 600px; background-color: #111111; border-radius: 12px; border: 1px solid #222222;">
-          <tr>
-            <td style="padding: 48px 40px;">
-              <!-- Logo/Header -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
-                <tr>
-                  <td align="center" style="padding-bottom: 32px;">
-                    <img src="${process.env.NEXT_PUBLIC_SITE_URL || 'https://hoopaudio.com'}/ORBIT-WIREFRAME-LOGO.png" alt="Orbit" width="64" height="64" style="display: block; margin: 0 auto 16px auto;" />
-                    <h1 style="margin: 0; font-size: 28px; font-weight: 700; color: #ffffff; letter-spacing: -0.5px;">
-                      Orbit
-                    </h1>
-                  </td>
-                </tr>
-              </table>
+interface SendAdminLoginEmailParams {
+  to: string;
+  loginUrl: string;
+  expiresInMinutes: number;
+}
 
-              <!-- Main Content -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
-                <tr>
-                  <td align="center">
-                    <h2 style="margin: 0 0 16px 0; font-size: 24px; font-weight: 600; color: #ffffff;">
-                      You're on the list!
-                    </h2>
-                    <p style="margin: 0 0 24px 0; font-size: 16px; line-height: 1.6; color: #a1a1a1;">
-                      Thanks for signing up. We'll keep you updated on our progress and let you know when we launch.
-                    </p>
-                  </td>
-                </tr>
-              </table>
+/** Sends an admin sign-in link. Not a list email, so it has no unsubscribe link or tags. */
+export async function sendAdminLoginEmail({ to, loginUrl, expiresInMinutes }: SendAdminLoginEmailParams) {
+  const { subject, html, text } = renderEmail('adminLogin', { loginUrl, expiresInMinutes });
 
-              <!-- Divider -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
-                <tr>
-                  <td style="padding: 24px 0;">
-                    <div style="height: 1px; background-color: #222222;"></div>
-                  </td>
-                </tr>
-              </table>
+  try {
+    const id = await getEmailTransport().send({ to, subject, html, text, headers: {} });
+    return { id };
+  } catch (error) {
+    console.error('Failed to send admin sign-in email:', error);
+    throw new Error(`Failed to send admin sign-in email: ${(error as Error).message}`);
+  }
+}
 
-              <!-- Footer -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
-                <tr>
-                  <td align="center">
-                    <p style="margin: 0; font-size: 14px; color: #666666;">
-                      Stay tuned for updates.
-                    </p>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-        </table>
-      </td>
-    </tr>
-  </table>
-</body>
-</html>
-  `.trim();
+/** Batch sender for campaigns dispatched from the server (see `/api/cron/dispatch`). */
+export function getBroadcastSender(): SendBatch {
+  return getEmailTransport().sendBatch;
 }
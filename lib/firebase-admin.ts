@@ -0,0 +1,27 @@
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+
+if (!getApps().length) {
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY
+    ? JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY)
+    : null;
+
+  if (!serviceAccount) {
+    console.error('Firebase service account not found in environment variables');
+    throw new Error('Firebase configuration missing');
+  }
+
+  if (!process.env.FIREBASE_PROJECT_ID) {
+    console.error('Firebase project ID not found in environment variables');
+    throw new Error('Firebase project ID missing');
+  }
+
+  console.log('Initializing Firebase with project ID:', process.env.FIREBASE_PROJECT_ID);
+
+  initializeApp({
+    credential: cert(serviceAccount),
+    projectId: process.env.FIREBASE_PROJECT_ID,
+  });
+}
+
+export const db = getFirestore();
@@ -0,0 +1,172 @@
+import { createHash } from 'crypto';
+import type { Firestore } from 'firebase-admin/firestore';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export interface RateLimiter {
+  consume(key: string): Promise<RateLimitResult>;
+}
+
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Shared fixed-window bookkeeping so both backends behave identically.
+function applyWindow(
+  current: Window | undefined,
+  now: number,
+  { limit, windowMs }: RateLimitOptions
+): { window: Window; result: RateLimitResult } {
+  if (!current || current.resetAt <= now) {
+    return {
+      window: { count: 1, resetAt: now + windowMs },
+      result: { allowed: true, remaining: limit - 1, retryAfterSeconds: 0 },
+    };
+  }
+
+  if (current.count >= limit) {
+    return {
+      window: current,
+      result: {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((current.resetAt - now) / 1000)),
+      },
+    };
+  }
+
+  const window = { count: current.count + 1, resetAt: current.resetAt };
+  return {
+    window,
+    result: { allowed: true, remaining: limit - window.count, retryAfterSeconds: 0 },
+  };
+}
+
+/**
+ * Per-process limiter. Good enough for tests and local development, but each
+ * serverless instance keeps its own counters, so use the Firestore backend in production.
+ */
+export function createMemoryRateLimiter(options: RateLimitOptions): RateLimiter {
+  const windows = new Map<string, Window>();
+
+  return {
+    async consume(key) {
+      const now = Date.now();
+
+      if (windows.size > 10_000) {
+        for (const [windowKey, window] of windows) {
+          if (window.resetAt <= now) windows.delete(windowKey);
+        }
+      }
+
+      const { window, result } = applyWindow(windows.get(key), now, options);
+      windows.set(key, window);
+      return result;
+    },
+  };
+}
+
+/**
+ * Limiter shared across instances, backed by one `rate_limits` document per key.
+ * Keys are hashed so raw IP addresses are not used as document IDs. Documents carry
+ * an `expiresAt` timestamp that a Firestore TTL policy can use to clean them up.
+ */
+export function createFirestoreRateLimiter(
+  db: Firestore,
+  options: RateLimitOptions & { namespace: string }
+): RateLimiter {
+  return {
+    async consume(key) {
+      const docId = createHash('sha256').update(`${options.namespace}:${key}`).digest('hex');
+      const ref = db.collection('rate_limits').doc(docId);
+
+      return db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(ref);
+        const now = Date.now();
+        const { window, result } = applyWindow(
+          snapshot.exists ? (snapshot.data() as Window) : undefined,
+          now,
+          options
+        );
+
+        if (result.allowed) {
+          transaction.set(ref, {
+            namespace: options.namespace,
+            count: window.count,
+            resetAt: window.resetAt,
+            expiresAt: new Date(window.resetAt),
+          });
+        }
+
+        return result;
+      });
+    },
+  };
+}
+
+// Memory in development so local runs need no Firestore writes
+function createConfiguredRateLimiter(db: Firestore, namespace: string, options: RateLimitOptions): RateLimiter {
+  const backend = process.env.RATE_LIMIT_BACKEND ||
+    (process.env.NODE_ENV === 'production' ? 'firestore' : 'memory');
+
+  return backend === 'firestore'
+    ? createFirestoreRateLimiter(db, { ...options, namespace })
+    : createMemoryRateLimiter(options);
+}
+
+let subscribeRateLimiter: RateLimiter | null = null;
+
+/**
+ * Limiter for `POST /api/subscribe`, configured through:
+ * - `RATE_LIMIT_BACKEND`: `firestore` or `memory` (defaults to `firestore` in production)
+ * - `SUBSCRIBE_RATE_LIMIT`: requests allowed per window (default 5)
+ * - `SUBSCRIBE_RATE_LIMIT_WINDOW_SECONDS`: window length (default 3600)
+ */
+export function getSubscribeRateLimiter(db: Firestore): RateLimiter {
+  if (!subscribeRateLimiter) {
+    subscribeRateLimiter = createConfiguredRateLimiter(db, 'subscribe', {
+      limit: Number(process.env.SUBSCRIBE_RATE_LIMIT) || 5,
+      windowMs: (Number(process.env.SUBSCRIBE_RATE_LIMIT_WINDOW_SECONDS) || 3600) * 1000,
+    });
+  }
+  return subscribeRateLimiter;
+}
+
+let adminLoginRateLimiter: RateLimiter | null = null;
+
+/**
+ * Limiter for admin sign-in links, keyed by email address so nobody can flood
+ * an admin's inbox: five links per address per hour. Uses the same
+ * `RATE_LIMIT_BACKEND` as the subscribe limiter.
+ */
+export function getAdminLoginRateLimiter(db: Firestore): RateLimiter {
+  if (!adminLoginRateLimiter) {
+    adminLoginRateLimiter = createConfiguredRateLimiter(db, 'admin-login', { limit: 5, windowMs: 3600 * 1000 });
+  }
+  return adminLoginRateLimiter;
+}
+
+let formTokenRateLimiter: RateLimiter | null = null;
+
+/**
+ * Counts submissions per signup form render (keyed by the form token's nonce),
+ * so a token scraped from the page can only be replayed a few times. Five uses
+ * leave room for a person retrying after an error; the window matches the
+ * 24-hour token lifetime.
+ */
+export function getFormTokenRateLimiter(db: Firestore): RateLimiter {
+  if (!formTokenRateLimiter) {
+    formTokenRateLimiter = createConfiguredRateLimiter(db, 'form-token', { limit: 5, windowMs: 24 * 3600 * 1000 });
+  }
+  return formTokenRateLimiter;
+}
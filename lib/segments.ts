@@ -0,0 +1,192 @@
+import type { Firestore } from 'firebase-admin/firestore';
+import { getPreferences, type SubscriberPreferences } from '@/lib/waitlist';
+
+type Subscriber = Record<string, unknown>;
+type Predicate = (subscriber: Subscriber, now: Date) => boolean;
+
+/** Shorthands accepted wherever a segment query is. */
+export const NAMED_SEGMENTS: Record<string, string> = {
+  all: 'prefers:productUpdates',
+  beta: 'prefers:betaInvites',
+};
+
+export interface Segment {
+  query: string;
+  matches(subscriber: Subscriber, now?: Date): boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const COMPARISON_PATTERN = /^(>=|<=|>|<|=)?(\d+)$/;
+const WINDOW_PATTERN = /^(\d+)d$/;
+
+function parseDate(value: string, field: string): number {
+  const time = DATE_PATTERN.test(value) ? Date.parse(`${value}T00:00:00Z`) : NaN;
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid date "${value}" for ${field}; use YYYY-MM-DD`);
+  }
+  return time;
+}
+
+function parseBoolean(value: string, field: string): boolean {
+  if (value === 'true' || value === 'yes') return true;
+  if (value === 'false' || value === 'no') return false;
+  throw new Error(`Invalid value "${value}" for ${field}; use true or false`);
+}
+
+function timestamp(value: unknown): number | undefined {
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/** `opened:30d` matches activity in the last 30 days; `opened:never` matches no recorded activity. */
+function engagement(field: string, key: string) {
+  return (value: string): Predicate => {
+    if (value === 'never') {
+      return subscriber => timestamp(subscriber[key]) === undefined;
+    }
+    const match = value.match(WINDOW_PATTERN);
+    if (!match) {
+      throw new Error(`Invalid value "${value}" for ${field}; use a window like 30d, or never`);
+    }
+    const windowMs = Number(match[1]) * DAY_MS;
+    return (subscriber, now) => {
+      const at = timestamp(subscriber[key]);
+      return at !== undefined && now.getTime() - at <= windowMs;
+    };
+  };
+}
+
+const FIELDS: Record<string, (value: string) => Predicate> = {
+  source: value => subscriber => subscriber.source === value,
+  tag: value => subscriber => Array.isArray(subscriber.tags) && subscriber.tags.includes(value),
+  prefers: value => {
+    if (!['productUpdates', 'betaInvites'].includes(value)) {
+      throw new Error(`Unknown preference "${value}"; use productUpdates or betaInvites`);
+    }
+    return subscriber => getPreferences(subscriber)[value as keyof SubscriberPreferences];
+  },
+  confirmed: value => {
+    const confirmed = parseBoolean(value, 'confirmed');
+    return subscriber => Boolean(subscriber.confirmedAt) === confirmed;
+  },
+  // Shared mailboxes like info@, flagged at signup (see `assessEmail`)
+  roleaccount: value => {
+    const roleAccount = parseBoolean(value, 'roleaccount');
+    return subscriber => Boolean(subscriber.roleAccount) === roleAccount;
+  },
+  // Inclusive day range: `2026-01-01..2026-03-31`, `2026-01-01..`, `..2026-03-31` or a single day
+  signedup: value => {
+    const [fromValue, toValue] = value.includes('..') ? value.split('..') : [value, value];
+    const from = fromValue ? parseDate(fromValue, 'signedup') : -Infinity;
+    const to = toValue ? parseDate(toValue, 'signedup') + DAY_MS : Infinity;
+    return subscriber => {
+      const at = timestamp(subscriber.subscribedAt);
+      return at !== undefined && at >= from && at < to;
+    };
+  },
+  referrals: value => {
+    const match = value.match(COMPARISON_PATTERN);
+    if (!match) {
+      throw new Error(`Invalid value "${value}" for referrals; use a number like 3 or >=3`);
+    }
+    const [, operator = '=', count] = match;
+    const target = Number(count);
+    return subscriber => {
+      const referrals = Number(subscriber.referralCount ?? 0);
+      switch (operator) {
+        case '>=': return referrals >= target;
+        case '<=': return referrals <= target;
+        case '>': return referrals > target;
+        case '<': return referrals < target;
+        default: return referrals === target;
+      }
+    };
+  },
+  opened: engagement('opened', 'lastOpenedAt'),
+  clicked: engagement('clicked', 'lastClickedAt'),
+};
+
+// `field:value`, `field:"quoted value"` or a bare word (for named segments)
+const TERM_PATTERN = /-?[a-z]+:"[^"]*"|\S+/gi;
+
+/**
+ * Parses a segment query: whitespace-separated `field:value` terms that must
+ * all match. A term prefixed with `-` must not match, and comma-separated
+ * values match any of them:
+ *
+ * ```
+ * prefers:betaInvites tag:producer source:spring-launch,twitter signedup:2026-03-01..
+ * ```
+ *
+ * Unless the query says otherwise with a `prefers:` term, it only matches
+ * subscribers who kept product updates on. Throws on unknown fields and invalid values.
+ */
+export function parseSegment(query: string): Segment {
+  const trimmed = query.trim();
+  const expanded = NAMED_SEGMENTS[trimmed] ?? trimmed;
+  const predicates: Predicate[] = [];
+  let hasPreference = false;
+
+  for (const term of expanded.match(TERM_PATTERN) ?? []) {
+    const negated = term.startsWith('-');
+    const separator = term.indexOf(':');
+    if (separator === -1) {
+      throw new Error(`Invalid segment term "${term}"; use field:value or one of ${Object.keys(NAMED_SEGMENTS).join(', ')}`);
+    }
+
+    const field = term.slice(negated ? 1 : 0, separator).toLowerCase();
+    const parse = FIELDS[field];
+    if (!parse) {
+      throw new Error(`Unknown segment field "${field}"; use one of ${Object.keys(FIELDS).join(', ')}`);
+    }
+
+    const rawValue = term.slice(separator + 1);
+    const values = rawValue.startsWith('"') ? [rawValue.slice(1, -1)] : rawValue.split(',').filter(Boolean);
+    if (values.length === 0) {
+      throw new Error(`Missing value for ${field}`);
+    }
+
+    const alternatives = values.map(parse);
+    const matchesAny: Predicate = (subscriber, now) => alternatives.some(predicate => predicate(subscriber, now));
+    predicates.push(negated ? (subscriber, now) => !matchesAny(subscriber, now) : matchesAny);
+    hasPreference ||= field === 'prefers';
+  }
+
+  if (!hasPreference) {
+    predicates.push(FIELDS.prefers('productUpdates'));
+  }
+
+  return {
+    query: expanded,
+    matches: (subscriber, now = new Date()) => predicates.every(predicate => predicate(subscriber, now)),
+  };
+}
+
+export function isValidSegment(query: string): boolean {
+  try {
+    parseSegment(query);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface SegmentMember {
+  id: string;
+  email: string;
+  data: Subscriber;
+}
+
+/** Active subscribers matching a segment. Only `active` subscribers can ever be emailed. */
+export async function findSegmentMembers(db: Firestore, segment: Segment): Promise<SegmentMember[]> {
+  const snapshot = await db
+    .collection('email_subscribers')
+    .where('status', '==', 'active')
+    .get();
+
+  const now = new Date();
+  return snapshot.docs
+    .filter(doc => segment.matches(doc.data(), now))
+    .map(doc => ({ id: doc.id, email: doc.data().email, data: doc.data() }));
+}
@@ -0,0 +1,291 @@
+import { randomUUID } from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { Firestore } from 'firebase-admin/firestore';
+import {
+  chunk,
+  getSendLimits,
+  sendBatches,
+  type Clock,
+  type EmailBatch,
+  type SendBatch,
+  type SendLimits,
+} from '@/lib/batch-send';
+import { getUnsubscribeHeaders, getUnsubscribeUrl } from '@/lib/email';
+import { getEmailTags } from '@/lib/email-events';
+import { renderEmail, type RenderedEmail } from '@/lib/email-templates';
+import { findSegmentMembers, parseSegment, type SegmentMember } from '@/lib/segments';
+import { getSiteUrl } from '@/lib/site';
+
+export interface SequenceStep {
+  id: string;
+  /** Days after `subscribedAt` the step becomes due. */
+  delayDays: number;
+  render(unsubscribeUrl: string): RenderedEmail;
+}
+
+export interface Sequence {
+  /** Also the key of the subscriber's state in `sequences.<id>`, so keep it stable. */
+  id: string;
+  /** Segment query for who receives the sequence (see `lib/segments.ts`). */
+  segment: string;
+  /**
+   * How many days late a step may still go out. When several steps are due at
+   * once, only the latest is sent, so someone who confirms late or a missed
+   * run never gets a burst of emails, and subscribers who signed up long
+   * before the sequence existed are never enrolled.
+   */
+  catchUpDays: number;
+  steps: SequenceStep[];
+}
+
+export const SEQUENCES: Sequence[] = [
+  {
+    id: 'onboarding',
+    segment: 'all',
+    catchUpDays: 3,
+    steps: [
+      { id: 'welcome', delayDays: 0, render: unsubscribeUrl => renderEmail('welcome', { unsubscribeUrl }) },
+      {
+        id: 'producers',
+        delayDays: 3,
+        render: unsubscribeUrl => renderEmail('producers', { siteUrl: getSiteUrl(), unsubscribeUrl }),
+      },
+      { id: 'survey', delayDays: 10, render: unsubscribeUrl => renderEmail('survey', { unsubscribeUrl }) },
+    ],
+  },
+];
+
+/**
+ * Progress of one subscriber through one sequence, stored on the subscriber as
+ * `sequences.<sequenceId>`. Like campaign deliveries, `sending` is set before a
+ * batch goes out and records its idempotency key, so a batch interrupted by a
+ * crash is resent under the same key instead of being sent twice.
+ */
+export interface SequenceState {
+  /** Index of the next step to send. */
+  next: number;
+  sending?: { step: number; batchKey: string };
+  /** Failed attempts at the next step. */
+  failures?: number;
+  lastError?: string;
+  lastSentAt?: string;
+  completedAt?: string;
+}
+
+// A step that keeps failing (e.g. an address Resend rejects) is skipped after this many attempts
+const MAX_STEP_ATTEMPTS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Firestore batches are capped at 500 writes
+const WRITE_BATCH_SIZE = 500;
+
+export function getSequenceState(subscriber: Record<string, unknown>, sequenceId: string): SequenceState {
+  const sequences = (subscriber.sequences ?? {}) as Record<string, SequenceState | undefined>;
+  return sequences[sequenceId] ?? { next: 0 };
+}
+
+/** Index of the step to send now, or undefined if nothing is due or the due step is too late. */
+export function getDueStep(sequence: Sequence, state: SequenceState, subscribedAt: unknown, now: Date): number | undefined {
+  const signedUpAt = typeof subscribedAt === 'string' ? Date.parse(subscribedAt) : NaN;
+  if (Number.isNaN(signedUpAt)) return undefined;
+
+  const ageDays = (now.getTime() - signedUpAt) / DAY_MS;
+  let due: number | undefined;
+  for (let index = state.next; index < sequence.steps.length; index++) {
+    if (sequence.steps[index].delayDays <= ageDays) due = index;
+  }
+
+  if (due === undefined || ageDays - sequence.steps[due].delayDays > sequence.catchUpDays) {
+    return undefined;
+  }
+  return due;
+}
+
+interface Enrollment {
+  member: SegmentMember;
+  state: SequenceState;
+  step: number;
+}
+
+/**
+ * Subscribers whose batch for this sequence was interrupted. They're looked up
+ * directly rather than through the segment, so a batch is resent to all of its
+ * original recipients even if some have since left the segment.
+ */
+async function findInterruptedEnrollments(db: Firestore, sequenceId: string): Promise<Enrollment[]> {
+  const snapshot = await db
+    .collection('email_subscribers')
+    .where(`sequences.${sequenceId}.sending.step`, '>=', 0)
+    .get();
+
+  return snapshot.docs.map(doc => {
+    const state = getSequenceState(doc.data(), sequenceId);
+    return {
+      member: { id: doc.id, email: doc.data().email, data: doc.data() },
+      state,
+      step: state.sending!.step,
+    };
+  });
+}
+
+async function updateStates(db: Firestore, sequenceId: string, updates: [string, SequenceState][]) {
+  for (const group of chunk(updates, WRITE_BATCH_SIZE)) {
+    const batch = db.batch();
+    for (const [subscriberId, state] of group) {
+      batch.update(db.collection('email_subscribers').doc(subscriberId), { [`sequences.${sequenceId}`]: state });
+    }
+    await batch.commit();
+  }
+}
+
+function settleStep(sequence: Sequence, state: SequenceState, step: number, error: string | undefined, at: string): SequenceState {
+  const previous = state.lastSentAt ? { lastSentAt: state.lastSentAt } : {};
+  if (!error) {
+    const next = step + 1;
+    return { next, lastSentAt: at, ...(next >= sequence.steps.length && { completedAt: at }) };
+  }
+
+  const failures = (state.failures ?? 0) + 1;
+  return failures >= MAX_STEP_ATTEMPTS
+    ? { ...previous, next: step + 1, lastError: error }
+    : { ...previous, next: state.next, failures, lastError: error };
+}
+
+export interface AdvanceSequenceOptions {
+  send: SendBatch;
+  /** Defaults to the limits configured in the environment (see `getSendLimits`). */
+  limits?: SendLimits;
+  clock?: Clock;
+  /** Stop after this many emails, leaving the rest for the next run. */
+  maxDeliveries?: number;
+  now?: Date;
+}
+
+export interface SequenceResult {
+  sequenceId: string;
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Sends every step that is due for members of the sequence's segment and
+ * advances their state. Safe to run repeatedly: a step is only sent again if
+ * its batch was interrupted, and then exactly as before, under the original
+ * idempotency key.
+ */
+export async function advanceSequence(
+  db: Firestore,
+  sequence: Sequence,
+  { send, limits = getSendLimits(), clock, maxDeliveries, now = new Date() }: AdvanceSequenceOptions
+): Promise<SequenceResult> {
+  // Interrupted batches are always taken whole, since Resend rejects a key
+  // reused with a different payload
+  const groups = new Map<string, Enrollment[]>();
+  for (const enrollment of await findInterruptedEnrollments(db, sequence.id)) {
+    const { batchKey } = enrollment.state.sending!;
+    groups.set(batchKey, [...(groups.get(batchKey) ?? []), enrollment]);
+  }
+
+  const members = await findSegmentMembers(db, parseSegment(sequence.segment));
+  const due: Enrollment[] = [];
+  for (const member of members) {
+    const state = getSequenceState(member.data, sequence.id);
+    if (state.sending) continue;
+    const step = getDueStep(sequence, state, member.data.subscribedAt, now);
+    if (step !== undefined) due.push({ member, state, step });
+  }
+
+  const interruptedCount = [...groups.values()].reduce((total, group) => total + group.length, 0);
+  const budget = maxDeliveries === undefined ? due.length : Math.max(0, maxDeliveries - interruptedCount);
+  for (const group of chunk(due.slice(0, budget), limits.batchSize)) {
+    const batchKey = `sequence/${sequence.id}/${randomUUID()}`;
+    groups.set(batchKey, group.map(enrollment => ({
+      ...enrollment,
+      state: { ...enrollment.state, sending: { step: enrollment.step, batchKey } },
+    })));
+  }
+
+  // Record the batch assignments before anything is sent, so a crash can always resume them
+  const enrollments = [...groups.values()].flat();
+  await updateStates(db, sequence.id, enrollments.map(({ member, state }) => [member.id, state]));
+
+  const batches: EmailBatch[] = [...groups].map(([idempotencyKey, group]) => ({
+    idempotencyKey,
+    emails: group.map(({ member, step }) => {
+      const unsubscribeUrl = getUnsubscribeUrl(member.id);
+      return {
+        to: member.email,
+        ...sequence.steps[step].render(unsubscribeUrl),
+        headers: getUnsubscribeHeaders(unsubscribeUrl),
+        tags: getEmailTags({ subscriberId: member.id }),
+      };
+    }),
+  }));
+
+  const result: SequenceResult = { sequenceId: sequence.id, sent: 0, failed: 0 };
+  await sendBatches(batches, send, {
+    limits,
+    clock,
+    onBatch: async (batch, results) => {
+      const group = groups.get(batch.idempotencyKey) ?? [];
+      const sentAt = new Date().toISOString();
+      await updateStates(db, sequence.id, group.map(({ member, state, step }, index): [string, SequenceState] => {
+        const { error } = results[index];
+        if (error) result.failed++;
+        else result.sent++;
+        return [member.id, settleStep(sequence, state, step, error, sentAt)];
+      }));
+    },
+  });
+
+  return result;
+}
+
+// Longer than any single run, so a crashed run only delays the sequence
+const SEQUENCE_LEASE_MS = 15 * 60 * 1000;
+
+async function claimSequence(db: Firestore, sequenceId: string, now: Date): Promise<boolean> {
+  const ref = db.collection('sequences').doc(sequenceId);
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    const lockedUntil = snapshot.data()?.lockedUntil;
+    if (typeof lockedUntil === 'string' && lockedUntil > now.toISOString()) {
+      return false;
+    }
+    transaction.set(ref, { lockedUntil: new Date(now.getTime() + SEQUENCE_LEASE_MS).toISOString() }, { merge: true });
+    return true;
+  });
+}
+
+/**
+ * Advances every sequence in `SEQUENCES`, sending at most `maxDeliveries`
+ * emails in total. Meant to be called on a timer (see `/api/cron/sequences`);
+ * a sequence another run is still working on is skipped.
+ */
+export async function advanceSequences(
+  db: Firestore,
+  { maxDeliveries, now = new Date(), ...options }: AdvanceSequenceOptions & { maxDeliveries: number },
+  sequences: Sequence[] = SEQUENCES
+): Promise<SequenceResult[]> {
+  const results: SequenceResult[] = [];
+  let budget = maxDeliveries;
+
+  for (const sequence of sequences) {
+    if (budget <= 0) break;
+    if (!(await claimSequence(db, sequence.id, now))) continue;
+
+    try {
+      const result = await advanceSequence(db, sequence, { ...options, maxDeliveries: budget, now });
+      budget -= result.sent + result.failed;
+      results.push(result);
+    } finally {
+      await db.collection('sequences').doc(sequence.id).update({
+        lockedUntil: FieldValue.delete(),
+        lastRunAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  return results;
+}
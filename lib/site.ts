@@ -0,0 +1,3 @@
+export function getSiteUrl(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || 'https://hoopaudio.com').replace(/\/+$/, '');
+}
@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+/**
+ * Where a signup came from, captured by the signup form on the visitor's first
+ * page view (see `lib/attribution.ts`).
+ */
+export const attributionSchema = z.object({
+  utmSource: z.string().max(200).optional(),
+  utmMedium: z.string().max(200).optional(),
+  utmCampaign: z.string().max(200).optional(),
+  utmTerm: z.string().max(200).optional(),
+  utmContent: z.string().max(200).optional(),
+  referrer: z.string().url().max(2048).optional(),
+  landingPath: z.string().startsWith('/').max(2048).optional(),
+});
+
+export type SignupAttribution = z.infer<typeof attributionSchema>;
+
+/** A signup from `POST /api/subscribe`. Imports validate each row with it too. */
+export const emailSchema = z.object({
+  // 64-character local part + @ + 255-character domain
+  email: z.string().email('Invalid email address').max(320),
+  source: z.string().optional(),
+  timestamp: z.string().optional(),
+  // Honeypot: hidden from humans, so any value means a bot filled it in
+  website: z.string().max(1000).optional(),
+  formToken: z.string().max(1000).optional(),
+  captchaToken: z.string().max(4096).optional(),
+  // Referral code from a `?ref=` share link
+  ref: z.string().max(64).optional(),
+  attribution: attributionSchema.optional(),
+});
@@ -0,0 +1,112 @@
+import { FieldPath } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore, Query } from 'firebase-admin/firestore';
+import { toCsvLine } from '@/lib/csv';
+
+export const EXPORT_FORMATS = ['csv', 'json'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Request metadata (IP address, user agent) and history stay out of exports
+export const EXPORT_FIELDS = [
+  'id',
+  'email',
+  'status',
+  'source',
+  'subscribedAt',
+  'confirmedAt',
+  'unsubscribedAt',
+  'referralCode',
+  'referredBy',
+  'referralCount',
+  'tags',
+] as const;
+
+export type ExportRecord = {
+  [K in (typeof EXPORT_FIELDS)[number]]?: K extends 'tags' ? string[] : K extends 'referralCount' ? number : string;
+};
+
+export interface ExportFilters {
+  status?: string;
+  source?: string;
+  /** Only subscribers whose `subscribedAt` is at or after this time. */
+  since?: Date;
+  /** Only subscribers whose `subscribedAt` is before this time. */
+  until?: Date;
+}
+
+const EXPORT_PAGE_SIZE = 500;
+
+function toExportRecord(doc: DocumentSnapshot): ExportRecord {
+  const data = doc.data() ?? {};
+  return {
+    id: doc.id,
+    email: data.email,
+    status: data.status,
+    source: data.source,
+    subscribedAt: data.subscribedAt,
+    confirmedAt: data.confirmedAt,
+    unsubscribedAt: data.unsubscribedAt,
+    referralCode: data.referralCode,
+    referredBy: data.referredBy,
+    referralCount: data.referralCount,
+    tags: Array.isArray(data.tags) ? data.tags : undefined,
+  };
+}
+
+/**
+ * Reads matching subscribers a page at a time in document ID order, so memory
+ * use stays flat however long the list is. Dates are filtered in memory, which
+ * avoids a composite index for every status/source/date combination.
+ */
+export async function* readSubscribers(
+  db: Firestore,
+  { status, source, since, until }: ExportFilters,
+  pageSize = EXPORT_PAGE_SIZE
+): AsyncGenerator<ExportRecord> {
+  let query: Query = db.collection('email_subscribers');
+  if (status) query = query.where('status', '==', status);
+  if (source) query = query.where('source', '==', source);
+  query = query.orderBy(FieldPath.documentId()).limit(pageSize);
+
+  const from = since?.toISOString();
+  const to = until?.toISOString();
+  let last: DocumentSnapshot | undefined;
+
+  while (true) {
+    const snapshot = await (last ? query.startAfter(last) : query).get();
+    for (const doc of snapshot.docs) {
+      const subscribedAt = String(doc.data().subscribedAt ?? '');
+      if ((from && subscribedAt < from) || (to && subscribedAt >= to)) continue;
+      yield toExportRecord(doc);
+    }
+
+    if (snapshot.docs.length < pageSize) return;
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
+
+/**
+ * Serializes records as they arrive: CSV with a header row (tags joined with
+ * `;`), or a JSON array with one subscriber per line.
+ */
+export async function* formatSubscribers(records: AsyncIterable<ExportRecord>, format: ExportFormat): AsyncGenerator<string> {
+  if (format === 'csv') {
+    yield toCsvLine([...EXPORT_FIELDS]);
+    for await (const record of records) {
+      yield toCsvLine(EXPORT_FIELDS.map(field => field === 'tags' ? record.tags?.join(';') : record[field]));
+    }
+    return;
+  }
+
+  let first = true;
+  yield '[';
+  for await (const record of records) {
+    yield `${first ? '' : ','}\n${JSON.stringify(record)}`;
+    first = false;
+  }
+  yield '\n]\n';
+}
+
+export function exportSubscribers(db: Firestore, filters: ExportFilters, format: ExportFormat): AsyncGenerator<string> {
+  return formatSubscribers(readSubscribers(db, filters), format);
+}
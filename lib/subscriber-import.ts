@@ -0,0 +1,244 @@
+import type { Firestore } from 'firebase-admin/firestore';
+import { z } from 'zod';
+import { chunk } from '@/lib/batch-send';
+import { parseCsv } from '@/lib/csv';
+import { normalizeEmail } from '@/lib/email-quality';
+import { emailSchema } from '@/lib/subscribe-schema';
+import type { ExportFormat } from '@/lib/subscriber-export';
+import { getSubscriberId, historyEntry, SUBSCRIBER_STATUSES, type SubscriberStatus } from '@/lib/subscribers';
+import { generateReferralCode, isValidReferralCode, reserveSignupNumber } from '@/lib/waitlist';
+
+export type ImportRow = Record<string, unknown>;
+
+/**
+ * Reads an import file in either export format. CSV needs at least an `email`
+ * column; JSON must be an array of objects with an `email` property.
+ */
+export function parseImportFile(text: string, format: ExportFormat): ImportRow[] {
+  if (format === 'csv') {
+    return parseCsv(text);
+  }
+
+  const rows: unknown = JSON.parse(text);
+  if (!Array.isArray(rows) || rows.some(row => typeof row !== 'object' || row === null || Array.isArray(row))) {
+    throw new Error('JSON imports must be an array of subscriber objects');
+  }
+  return rows as ImportRow[];
+}
+
+export interface PlannedSubscriber {
+  /** 1-based position of the row in the file. */
+  row: number;
+  subscriberId: string;
+  data: Record<string, unknown>;
+}
+
+export type ImportSkipReason = 'invalid' | 'duplicate' | 'exists';
+
+export interface SkippedRow {
+  row: number;
+  email: string;
+  reason: ImportSkipReason;
+  message?: string;
+}
+
+export interface ImportPlan {
+  create: PlannedSubscriber[];
+  skipped: SkippedRow[];
+}
+
+function text(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  const trimmed = String(value).trim();
+  return trimmed === '' ? undefined : trimmed;
+}
+
+function parseTimestamp(value: unknown, field: string): string | undefined {
+  const raw = text(value);
+  if (raw === undefined) return undefined;
+  const time = Date.parse(raw);
+  if (Number.isNaN(time)) {
+    throw new Error(`${field} is not a valid date: ${raw}`);
+  }
+  return new Date(time).toISOString();
+}
+
+function parseCount(value: unknown, field: string): number {
+  const raw = text(value);
+  if (raw === undefined) return 0;
+  const count = Number(raw);
+  if (!Number.isInteger(count) || count < 0) {
+    throw new Error(`${field} is not a whole number: ${raw}`);
+  }
+  return count;
+}
+
+function parseTags(value: unknown): string[] {
+  const tags = Array.isArray(value) ? value.map(String) : (text(value) ?? '').split(';');
+  return tags.map(tag => tag.trim()).filter(Boolean);
+}
+
+// Everything but the email address is optional. Rows without a status are
+// treated as confirmed, since they come from a list people already joined.
+function toSubscriber(row: ImportRow, importedAt: string) {
+  const { email, source } = emailSchema.parse({ email: text(row.email), source: text(row.source) });
+
+  const status = (text(row.status) ?? 'active') as SubscriberStatus;
+  if (!SUBSCRIBER_STATUSES.includes(status)) {
+    throw new Error(`Unknown status: ${status}`);
+  }
+
+  const subscribedAt = parseTimestamp(row.subscribedAt, 'subscribedAt') ?? importedAt;
+  const confirmedAt = parseTimestamp(row.confirmedAt, 'confirmedAt');
+  const unsubscribedAt = parseTimestamp(row.unsubscribedAt, 'unsubscribedAt');
+  const tags = parseTags(row.tags);
+  const normalizedEmail = normalizeEmail(email);
+
+  return {
+    subscriberId: getSubscriberId(normalizedEmail),
+    data: {
+      email: email.toLowerCase(),
+      normalizedEmail,
+      source: source || 'import',
+      subscribedAt,
+      status,
+      ...(status === 'active' && { confirmedAt: confirmedAt ?? subscribedAt }),
+      ...(status === 'unsubscribed' && { unsubscribedAt: unsubscribedAt ?? importedAt }),
+      // Checked against existing codes and referrers in planImport
+      referralCode: text(row.referralCode),
+      referredBy: text(row.referredBy),
+      referralCount: parseCount(row.referralCount, 'referralCount'),
+      ...(tags.length > 0 && { tags }),
+      importedAt,
+      history: [historyEntry('imported', { source: source || 'import' })],
+    },
+  };
+}
+
+// getAll takes any number of references, but keep each request reasonably small
+const EXISTING_LOOKUP_SIZE = 300;
+
+/**
+ * Validates every row with the signup `emailSchema` and works out what an
+ * import would write, without writing anything. Rows for an inbox that is
+ * already subscribed, or that appears earlier in the file, are skipped, so an
+ * import can be re-run safely.
+ */
+export async function planImport(db: Firestore, rows: ImportRow[], now = new Date()): Promise<ImportPlan> {
+  const importedAt = now.toISOString();
+  const planned: PlannedSubscriber[] = [];
+  const skipped: SkippedRow[] = [];
+  const seen = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const email = text(row.email) ?? '';
+    try {
+      const subscriber = toSubscriber(row, importedAt);
+      if (seen.has(subscriber.subscriberId)) {
+        skipped.push({ row: index + 1, email, reason: 'duplicate' });
+        return;
+      }
+      seen.add(subscriber.subscriberId);
+      planned.push({ row: index + 1, ...subscriber });
+    } catch (error) {
+      const message = error instanceof z.ZodError
+        ? error.issues.map(issue => issue.message).join('; ')
+        : (error as Error).message;
+      skipped.push({ row: index + 1, email, reason: 'invalid', message });
+    }
+  });
+
+  const create: PlannedSubscriber[] = [];
+  for (const group of chunk(planned, EXISTING_LOOKUP_SIZE)) {
+    const snapshots = await db.getAll(...group.map(({ subscriberId }) => db.collection('email_subscribers').doc(subscriberId)));
+    group.forEach((subscriber, index) => {
+      if (snapshots[index].exists) {
+        skipped.push({ row: subscriber.row, email: String(subscriber.data.email), reason: 'exists' });
+      } else {
+        create.push(subscriber);
+      }
+    });
+  }
+
+  await resolveReferrals(db, create);
+
+  skipped.sort((a, b) => a.row - b.row);
+  return { create, skipped };
+}
+
+// Firestore `in` filters take at most 30 values
+const REFERRAL_CODE_LOOKUP_SIZE = 30;
+
+/**
+ * Keeps imported referral codes, so share links already in circulation keep
+ * working, unless a code is malformed or already taken (by an existing
+ * subscriber or an earlier row); those rows get a new code. Keeps `referredBy`
+ * when it names an existing or imported subscriber, and marks confirmed
+ * subscribers' referrals as credited, since the referrer's imported count
+ * already includes them.
+ */
+async function resolveReferrals(db: Firestore, create: PlannedSubscriber[]) {
+  const codes = [...new Set(create.map(({ data }) => data.referralCode).filter((code): code is string => typeof code === 'string' && isValidReferralCode(code)))];
+  const taken = new Set<string>();
+  for (const group of chunk(codes, REFERRAL_CODE_LOOKUP_SIZE)) {
+    const matches = await db.collection('email_subscribers').where('referralCode', 'in', group).select('referralCode').get();
+    matches.docs.forEach(doc => taken.add(doc.data().referralCode));
+  }
+
+  const importedIds = new Set(create.map(({ subscriberId }) => subscriberId));
+  const referrerIds = [...new Set(create.map(({ data }) => data.referredBy).filter((id): id is string => typeof id === 'string' && !importedIds.has(id)))];
+  const existingIds = new Set<string>();
+  for (const group of chunk(referrerIds, EXISTING_LOOKUP_SIZE)) {
+    const snapshots = await db.getAll(...group.map(id => db.collection('email_subscribers').doc(id)));
+    group.forEach((id, index) => {
+      if (snapshots[index].exists) existingIds.add(id);
+    });
+  }
+
+  for (const { subscriberId, data } of create) {
+    const code = data.referralCode;
+    if (typeof code === 'string' && isValidReferralCode(code) && !taken.has(code)) {
+      taken.add(code);
+    } else {
+      data.referralCode = generateReferralCode();
+    }
+
+    const referredBy = data.referredBy;
+    if (typeof referredBy !== 'string' || referredBy === subscriberId || !(importedIds.has(referredBy) || existingIds.has(referredBy))) {
+      delete data.referredBy;
+    } else if (data.status === 'active') {
+      data.referralCredited = true;
+    }
+  }
+}
+
+// Firestore transactions are capped at 500 writes, one of which is the signup counter
+const IMPORT_TRANSACTION_SIZE = 400;
+
+/**
+ * Writes a plan from `planImport`. Imported subscribers join the end of the
+ * waitlist in `subscribedAt` order. Documents are created rather than set, so
+ * a signup that arrives between planning and applying is never overwritten;
+ * the import fails instead and can simply be planned again.
+ */
+export async function applyImport(db: Firestore, plan: ImportPlan): Promise<number> {
+  const ordered = [...plan.create].sort((a, b) => String(a.data.subscribedAt).localeCompare(String(b.data.subscribedAt)));
+
+  let written = 0;
+  for (const group of chunk(ordered, IMPORT_TRANSACTION_SIZE)) {
+    await db.runTransaction(async transaction => {
+      const signup = await reserveSignupNumber(db, transaction, group.length);
+      group.forEach(({ subscriberId, data }, index) => {
+        const signupNumber = signup.signupNumber + index;
+        transaction.create(db.collection('email_subscribers').doc(subscriberId), {
+          ...data,
+          signupNumber,
+          waitlistScore: signupNumber,
+        });
+      });
+      signup.commit();
+    });
+    written += group.length;
+  }
+  return written;
+}
@@ -0,0 +1,133 @@
+import { createHash } from 'crypto';
+import type { DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+
+export type SubscriberStatus = 'pending' | 'active' | 'unsubscribed' | 'bounced' | 'complained';
+
+export const SUBSCRIBER_STATUSES: SubscriberStatus[] = ['pending', 'active', 'unsubscribed', 'bounced', 'complained'];
+
+export type SubscriberEvent =
+  | 'subscribed'
+  | 'confirmed'
+  | 'confirmation-resent'
+  | 'unsubscribed'
+  | 'resubscribed'
+  | 'bounced'
+  | 'complained'
+  | 'imported';
+
+export interface SubscriberHistoryEntry {
+  event: SubscriberEvent;
+  at: string;
+  [detail: string]: string;
+}
+
+/**
+ * Entry for the `history` array kept on each subscriber. Append it with
+ * `FieldValue.arrayUnion(historyEntry(...))` so concurrent updates don't clobber each other.
+ */
+export function historyEntry(event: SubscriberEvent, details: Record<string, string> = {}): SubscriberHistoryEntry {
+  return { ...details, event, at: new Date().toISOString() };
+}
+
+/**
+ * Document ID for a subscriber in `email_subscribers`. Derived from the
+ * normalized email so that two signups for the same inbox always target the
+ * same document, which makes duplicates impossible even under concurrency.
+ */
+export function getSubscriberId(normalizedEmail: string): string {
+  return createHash('sha256').update(normalizedEmail).digest('hex');
+}
+
+/**
+ * Looks up a subscriber by document ID. Links sent before the migration to
+ * email-derived IDs (see `scripts/dedupe-subscribers.ts`) carry the old
+ * auto-generated ID, which the migrated document keeps in `legacyIds`.
+ */
+export async function getSubscriberSnapshot(
+  db: Firestore,
+  subscriberId: string
+): Promise<DocumentSnapshot | null> {
+  const snapshot = await db.collection('email_subscribers').doc(subscriberId).get();
+  if (snapshot.exists) {
+    return snapshot;
+  }
+
+  const legacy = await db
+    .collection('email_subscribers')
+    .where('legacyIds', 'array-contains', subscriberId)
+    .limit(1)
+    .get();
+
+  return legacy.empty ? null : legacy.docs[0];
+}
+
+export interface StoredSubscriber {
+  id: string;
+  data: Record<string, unknown>;
+}
+
+// When duplicates disagree, an opt-out always wins over a subscription
+const STATUS_PRECEDENCE = ['complained', 'bounced', 'unsubscribed', 'active', 'pending'];
+
+function statusRank(status: unknown): number {
+  const rank = STATUS_PRECEDENCE.indexOf(String(status));
+  return rank === -1 ? STATUS_PRECEDENCE.length : rank;
+}
+
+/** Whether moving from `current` to `status` would further restrict what may be sent. */
+export function isMoreRestrictive(status: SubscriberStatus, current: unknown): boolean {
+  return statusRank(status) < statusRank(current);
+}
+
+function earliest(values: unknown[]): string | undefined {
+  return values.filter((value): value is string => typeof value === 'string').sort()[0];
+}
+
+function latest(values: unknown[]): string | undefined {
+  return values.filter((value): value is string => typeof value === 'string').sort().pop();
+}
+
+/**
+ * Collapses several documents for the same inbox into one. The earliest signup
+ * provides the base record (so `subscribedAt` and `source` are preserved), the
+ * most restrictive status wins, and the old document IDs are kept in `legacyIds`.
+ */
+export function mergeSubscribers(
+  subscriberId: string,
+  normalizedEmail: string,
+  records: StoredSubscriber[]
+): Record<string, unknown> {
+  const bySignup = [...records].sort((a, b) =>
+    String(a.data.subscribedAt ?? '').localeCompare(String(b.data.subscribedAt ?? ''))
+  );
+  const status = [...records].sort((a, b) => statusRank(a.data.status) - statusRank(b.data.status))[0].data.status;
+
+  const legacyIds = new Set<string>();
+  for (const record of records) {
+    if (record.id !== subscriberId) legacyIds.add(record.id);
+    for (const legacyId of (record.data.legacyIds as string[] | undefined) ?? []) {
+      legacyIds.add(legacyId);
+    }
+  }
+
+  const merged: Record<string, unknown> = {
+    ...Object.assign({}, ...[...bySignup].reverse().map(record => record.data)),
+    normalizedEmail,
+    status,
+    subscribedAt: earliest(records.map(record => record.data.subscribedAt)),
+  };
+
+  const confirmedAt = earliest(records.map(record => record.data.confirmedAt));
+  if (confirmedAt) merged.confirmedAt = confirmedAt;
+
+  const unsubscribedAt = latest(records.map(record => record.data.unsubscribedAt));
+  if (unsubscribedAt) merged.unsubscribedAt = unsubscribedAt;
+
+  if (legacyIds.size > 0) {
+    merged.legacyIds = [...legacyIds].sort();
+  } else {
+    delete merged.legacyIds;
+  }
+
+  return merged;
+}
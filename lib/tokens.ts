@@ -0,0 +1,84 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export type TokenPurpose = 'confirm' | 'unsubscribe' | 'form' | 'waitlist' | 'admin-login' | 'admin-session';
+
+export interface TokenPayload {
+  sub: string;
+  purpose: TokenPurpose;
+  /** Only set on tokens that expire. */
+  iat?: number;
+  exp?: number;
+  /** Nonce for tokens that may only be used once; recording it as used is up to the caller. */
+  jti?: string;
+}
+
+export type TokenVerification =
+  | { ok: true; payload: TokenPayload }
+  | { ok: false; reason: 'invalid' | 'expired' };
+
+const DAY_IN_SECONDS = 24 * 60 * 60;
+
+export const CONFIRM_TOKEN_TTL_SECONDS = 7 * DAY_IN_SECONDS;
+
+function getSecret(): string {
+  const secret = process.env.SUBSCRIPTION_TOKEN_SECRET;
+  if (!secret) {
+    console.error('Subscription token secret not found in environment variables');
+    throw new Error('Token secret missing');
+  }
+  return secret;
+}
+
+function sign(data: string): string {
+  return createHmac('sha256', getSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Creates a URL-safe token of the form `<payload>.<signature>` that binds a
+ * subject (usually a subscriber document ID) to a purpose and an optional expiry.
+ * Tokens without a TTL never expire, which is what unsubscribe links need. They
+ * carry no issue time either, so the same subject and purpose always give the
+ * same token, and an email rebuilt for a resend matches the original exactly.
+ */
+export function signToken(sub: string, purpose: TokenPurpose, ttlSeconds?: number, jti?: string): string {
+  const payload: TokenPayload = { sub, purpose };
+  if (ttlSeconds !== undefined) {
+    payload.iat = Math.floor(Date.now() / 1000);
+    payload.exp = payload.iat + ttlSeconds;
+  }
+  if (jti !== undefined) {
+    payload.jti = jti;
+  }
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+export function verifyToken(token: string, purpose: TokenPurpose): TokenVerification {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  if (payload.purpose !== purpose || typeof payload.sub !== 'string') {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  if (payload.exp !== undefined && (typeof payload.exp !== 'number' || payload.exp < Math.floor(Date.now() / 1000))) {
+    return { ok: false, reason: 'expired' };
+  }
+
+  return { ok: true, payload };
+}
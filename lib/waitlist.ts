@@ -0,0 +1,149 @@
+import { randomBytes } from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore, Transaction } from 'firebase-admin/firestore';
+import { getSiteUrl } from '@/lib/site';
+import { getSubscriberSnapshot, type SubscriberStatus } from '@/lib/subscribers';
+
+/** Number of places a subscriber moves up for each confirmed referral. */
+export const REFERRAL_POSITION_BOOST = 5;
+
+const REFERRAL_CODE_PATTERN = /^[A-Za-z0-9_-]{4,32}$/;
+
+// Unambiguous characters only, since codes get read aloud and retyped
+const REFERRAL_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+export function generateReferralCode(length = 8): string {
+  const bytes = randomBytes(length);
+  return Array.from(bytes, byte => REFERRAL_CODE_ALPHABET[byte % REFERRAL_CODE_ALPHABET.length]).join('');
+}
+
+export function isValidReferralCode(code: string): boolean {
+  return REFERRAL_CODE_PATTERN.test(code);
+}
+
+export function getReferralLink(referralCode: string): string {
+  return `${getSiteUrl()}/?ref=${encodeURIComponent(referralCode)}`;
+}
+
+export async function findSubscriberByReferralCode(
+  db: Firestore,
+  referralCode: string
+): Promise<DocumentSnapshot | null> {
+  if (!isValidReferralCode(referralCode)) {
+    return null;
+  }
+
+  const matches = await db
+    .collection('email_subscribers')
+    .where('referralCode', '==', referralCode)
+    .limit(1)
+    .get();
+
+  return matches.empty ? null : matches.docs[0];
+}
+
+/**
+ * Hands out the next signup number from `counters/waitlist`, or the first of
+ * `count` consecutive numbers. Must be called before any writes in the
+ * transaction, as Firestore requires reads first; the returned `commit`
+ * performs the counter write.
+ */
+export async function reserveSignupNumber(db: Firestore, transaction: Transaction, count = 1) {
+  const counterRef = db.collection('counters').doc('waitlist');
+  const counter = await transaction.get(counterRef);
+  const signupNumber = (counter.exists ? Number(counter.data()?.issued ?? 0) : 0) + 1;
+
+  return {
+    signupNumber,
+    commit: () => transaction.set(counterRef, { issued: signupNumber + count - 1 }, { merge: true }),
+  };
+}
+
+// Subscribers who left the list, bounced or complained no longer hold a place in line
+const WAITING_STATUSES: SubscriberStatus[] = ['pending', 'active'];
+
+/**
+ * A subscriber's place in line is the number of waiting subscribers with a lower
+ * `waitlistScore`, plus one. The score starts as the signup number and drops by
+ * `REFERRAL_POSITION_BOOST` for every confirmed referral.
+ */
+export async function getWaitlistPosition(db: Firestore, waitlistScore: number): Promise<number> {
+  const ahead = await db
+    .collection('email_subscribers')
+    .where('status', 'in', WAITING_STATUSES)
+    .where('waitlistScore', '<', waitlistScore)
+    .count()
+    .get();
+
+  return ahead.data().count + 1;
+}
+
+/** Update applied to the referrer once someone they referred confirms. */
+export function referralCredit() {
+  return {
+    referralCount: FieldValue.increment(1),
+    waitlistScore: FieldValue.increment(-REFERRAL_POSITION_BOOST),
+  };
+}
+
+export interface SubscriberPreferences {
+  /** Broadcasts about development progress. */
+  productUpdates: boolean;
+  /** Invitations to try early builds before launch. */
+  betaInvites: boolean;
+}
+
+export const DEFAULT_PREFERENCES: SubscriberPreferences = {
+  productUpdates: true,
+  betaInvites: false,
+};
+
+/** Stored preferences merged over the defaults, for subscribers who never set them. */
+export function getPreferences(data: Record<string, unknown> | undefined): SubscriberPreferences {
+  return { ...DEFAULT_PREFERENCES, ...(data?.preferences as Partial<SubscriberPreferences> | undefined) };
+}
+
+export interface WaitlistStatus {
+  subscriberId: string;
+  email: string;
+  status: SubscriberStatus;
+  /** Undefined for subscribers who joined before the waitlist existed. */
+  position?: number;
+  referralCount: number;
+  referralCode: string;
+  shareLink: string;
+  preferences: SubscriberPreferences;
+}
+
+/**
+ * Everything the `/waitlist/[token]` page shows. Subscribers who signed up before
+ * referrals existed are given a referral code the first time they look.
+ */
+export async function getWaitlistStatus(db: Firestore, subscriberId: string): Promise<WaitlistStatus | null> {
+  const subscriber = await getSubscriberSnapshot(db, subscriberId);
+  if (!subscriber) {
+    return null;
+  }
+
+  const data = subscriber.data() ?? {};
+  let referralCode = data.referralCode as string | undefined;
+  if (!referralCode) {
+    referralCode = generateReferralCode();
+    await subscriber.ref.update({ referralCode });
+  }
+
+  const position = typeof data.waitlistScore === 'number'
+    ? await getWaitlistPosition(db, data.waitlistScore)
+    : undefined;
+
+  return {
+    subscriberId: subscriber.id,
+    email: data.email,
+    status: data.status,
+    position,
+    referralCount: Number(data.referralCount ?? 0),
+    referralCode,
+    shareLink: getReferralLink(referralCode),
+    preferences: getPreferences(data),
+  };
+}
@@ -0,0 +1,48 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface WebhookHeaders {
+  id: string | null;
+  timestamp: string | null;
+  signature: string | null;
+}
+
+export type WebhookVerification =
+  | { ok: true }
+  | { ok: false; reason: 'missing-headers' | 'stale' | 'invalid' };
+
+// Svix rejects messages more than five minutes old to stop replays
+const TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Verifies a Svix-signed webhook, which is how Resend signs its webhooks. The
+ * signature is an HMAC-SHA256 of `<id>.<timestamp>.<raw body>`, keyed with the
+ * base64 part of the `whsec_...` signing secret. The `svix-signature` header may
+ * carry several space-separated `v1,<signature>` entries while secrets rotate.
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  { id, timestamp, signature }: WebhookHeaders,
+  secret: string,
+  now = Date.now()
+): WebhookVerification {
+  if (!id || !timestamp || !signature) {
+    return { ok: false, reason: 'missing-headers' };
+  }
+
+  const sentAt = Number(timestamp);
+  if (!Number.isInteger(sentAt) || Math.abs(now / 1000 - sentAt) > TOLERANCE_SECONDS) {
+    return { ok: false, reason: 'stale' };
+  }
+
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  const expected = createHmac('sha256', key).update(`${id}.${timestamp}.${payload}`).digest();
+
+  const matches = signature.split(' ').some(entry => {
+    const [version, value] = entry.split(',');
+    if (version !== 'v1' || !value) return false;
+    const actual = Buffer.from(value, 'base64');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  });
+
+  return matches ? { ok: true } : { ok: false, reason: 'invalid' };
+}
@@ -0,0 +1,45 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { ADMIN_SESSION_COOKIE, getAdminSession, getRequiredRole, hasAdminRole } from '@/lib/admin-auth';
+
+// Reachable without a session, so admins can sign in
+const PUBLIC_PATHS = ['/admin/login', '/admin/login/confirm', '/api/admin/auth/login', '/api/admin/auth/verify', '/api/admin/auth/logout'];
+
+// The admin pages and their API routes need a session from a sign-in link.
+// Pages redirect to the sign-in page; API routes answer 401, or 403 when the
+// admin's role does not allow the request.
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return NextResponse.next();
+  }
+
+  const session = getAdminSession(request.cookies.get(ADMIN_SESSION_COOKIE)?.value);
+  const isApi = pathname.startsWith('/api/');
+
+  if (!session) {
+    if (isApi) {
+      return NextResponse.json(
+        { message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+    const loginUrl = new URL('/admin/login', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  if (!hasAdminRole(session, getRequiredRole(request.method))) {
+    return NextResponse.json(
+      { message: 'Your admin role does not allow this action' },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/admin/:path*'],
+  // Sessions are verified with Node's crypto (see lib/tokens.ts)
+  runtime: 'nodejs',
+};
@@ -0,0 +1,93 @@
+import { initializeApp, cert, getApps } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import * as dotenv from 'dotenv';
+import { normalizeEmail } from '@/lib/email-quality';
+import { getSubscriberId, mergeSubscribers, type StoredSubscriber } from '@/lib/subscribers';
+
+dotenv.config({ path: '.env.local' });
+
+// Initialize Firebase
+if (!getApps().length) {
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY
+    ? JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY)
+    : null;
+
+  if (!serviceAccount) {
+    console.error('❌ Firebase service account not found');
+    process.exit(1);
+  }
+
+  initializeApp({
+    credential: cert(serviceAccount),
+    projectId: process.env.FIREBASE_PROJECT_ID,
+  });
+}
+
+const db = getFirestore();
+
+/**
+ * Moves every `email_subscribers` document to the ID derived from its
+ * normalized email, merging documents that belong to the same inbox.
+ * Runs as a dry run unless `--apply` is passed.
+ */
+async function main() {
+  const apply = process.argv.includes('--apply');
+  console.log(`🚀 De-duplicate Subscribers${apply ? '' : ' (dry run)'}\n`);
+
+  const snapshot = await db.collection('email_subscribers').get();
+  const groups = new Map<string, StoredSubscriber[]>();
+
+  for (const doc of snapshot.docs) {
+    const email = doc.data().email;
+    if (typeof email !== 'string') {
+      console.warn(`⚠️  Skipping ${doc.id}: no email field`);
+      continue;
+    }
+
+    const normalizedEmail = normalizeEmail(email);
+    groups.set(normalizedEmail, [...(groups.get(normalizedEmail) ?? []), { id: doc.id, data: doc.data() }]);
+  }
+
+  let moved = 0;
+  let merged = 0;
+  let removed = 0;
+
+  for (const [normalizedEmail, records] of groups) {
+    const subscriberId = getSubscriberId(normalizedEmail);
+    if (records.length === 1 && records[0].id === subscriberId) {
+      continue;
+    }
+
+    const data = mergeSubscribers(subscriberId, normalizedEmail, records);
+    const staleIds = records.map(record => record.id).filter(id => id !== subscriberId);
+
+    if (records.length > 1) {
+      merged++;
+      console.log(`🔀 ${normalizedEmail}: merging ${records.length} documents (status: ${data.status})`);
+    } else {
+      moved++;
+      console.log(`➡️  ${normalizedEmail}: moving ${records[0].id} → ${subscriberId}`);
+    }
+    removed += staleIds.length;
+
+    if (apply) {
+      const batch = db.batch();
+      batch.set(db.collection('email_subscribers').doc(subscriberId), data);
+      for (const staleId of staleIds) {
+        batch.delete(db.collection('email_subscribers').doc(staleId));
+      }
+      await batch.commit();
+    }
+  }
+
+  console.log(`\n📊 ${snapshot.size} documents, ${groups.size} unique subscribers`);
+  console.log(`   ${merged} merged, ${moved} moved, ${removed} old documents ${apply ? 'deleted' : 'to delete'}`);
+
+  if (!apply && (merged > 0 || moved > 0)) {
+    console.log('\nRe-run with --apply to write these changes.');
+  }
+
+  process.exit(0);
+}
+
+main().catch(console.error);
@@ -0,0 +1,92 @@
+import { initializeApp, cert, getApps } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import * as dotenv from 'dotenv';
+import { createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { parseArgs } from 'util';
+import { EXPORT_FORMATS, exportSubscribers, type ExportFilters, type ExportFormat } from '@/lib/subscriber-export';
+import { SUBSCRIBER_STATUSES, type SubscriberStatus } from '@/lib/subscribers';
+
+dotenv.config({ path: '.env.local' });
+
+// Initialize Firebase
+if (!getApps().length) {
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY
+    ? JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY)
+    : null;
+
+  if (!serviceAccount) {
+    console.error('❌ Firebase service account not found');
+    process.exit(1);
+  }
+
+  initializeApp({
+    credential: cert(serviceAccount),
+    projectId: process.env.FIREBASE_PROJECT_ID,
+  });
+}
+
+const db = getFirestore();
+
+const USAGE =
+  'Usage: pnpm export-subscribers [--format csv|json] [--status <status>] [--source <source>] [--since <date>] [--until <date>] [--out <file>]';
+
+function parseDate(value: string | undefined, option: string): Date | undefined {
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    console.error(`❌ Invalid ${option} date "${value}". Use ISO 8601, e.g. 2026-05-01\n${USAGE}`);
+    process.exit(1);
+  }
+  return date;
+}
+
+/**
+ * Streams `email_subscribers` to a file, or to stdout when no `--out` is
+ * given. Progress goes to stderr, so stdout can be piped into other tools.
+ */
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      format: { type: 'string', default: 'csv' },
+      status: { type: 'string' },
+      source: { type: 'string' },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      out: { type: 'string', short: 'o' },
+    },
+  });
+
+  const format = values.format as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    console.error(`❌ Unknown format "${values.format}"\n${USAGE}`);
+    process.exit(1);
+  }
+  if (values.status && !SUBSCRIBER_STATUSES.includes(values.status as SubscriberStatus)) {
+    console.error(`❌ Unknown status "${values.status}"; use one of ${SUBSCRIBER_STATUSES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const filters: ExportFilters = {
+    status: values.status,
+    source: values.source,
+    since: parseDate(values.since, '--since'),
+    until: parseDate(values.until, '--until'),
+  };
+
+  await pipeline(
+    Readable.from(exportSubscribers(db, filters, format)),
+    values.out ? createWriteStream(values.out) : process.stdout
+  );
+
+  if (values.out) {
+    console.error(`✅ Exported subscribers to ${values.out}`);
+  }
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
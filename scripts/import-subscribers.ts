@@ -0,0 +1,93 @@
+import { initializeApp, cert, getApps } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import * as dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { applyImport, parseImportFile, planImport, type ImportRow } from '@/lib/subscriber-import';
+
+dotenv.config({ path: '.env.local' });
+
+// Initialize Firebase
+if (!getApps().length) {
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY
+    ? JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY)
+    : null;
+
+  if (!serviceAccount) {
+    console.error('❌ Firebase service account not found');
+    process.exit(1);
+  }
+
+  initializeApp({
+    credential: cert(serviceAccount),
+    projectId: process.env.FIREBASE_PROJECT_ID,
+  });
+}
+
+const db = getFirestore();
+
+const USAGE = 'Usage: pnpm import-subscribers <file.csv|file.json> [--apply]';
+
+const REPORT_SAMPLE_SIZE = 20;
+
+/**
+ * Imports subscribers from a CSV or JSON file, such as one written by
+ * `pnpm export-subscribers`. Prints a report of what would be written and
+ * what would be skipped, and only writes with `--apply`.
+ */
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      apply: { type: 'boolean', default: false },
+    },
+  });
+
+  const [file] = positionals;
+  if (!file) {
+    console.error(`❌ No import file given\n${USAGE}`);
+    process.exit(1);
+  }
+
+  console.log(`🚀 Import Subscribers${values.apply ? '' : ' (dry run)'}\n`);
+
+  let rows: ImportRow[];
+  try {
+    rows = parseImportFile(readFileSync(file, 'utf8'), path.extname(file).toLowerCase() === '.json' ? 'json' : 'csv');
+  } catch (error) {
+    console.error(`❌ Could not read ${file}: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  const plan = await planImport(db, rows);
+  const counts = { invalid: 0, duplicate: 0, exists: 0 };
+  for (const { reason } of plan.skipped) counts[reason]++;
+
+  console.log(`📊 ${rows.length} rows`);
+  console.log(`   ${plan.create.length} new subscribers ${values.apply ? 'to write' : 'would be written'}`);
+  console.log(`   ${counts.exists} already subscribed, ${counts.duplicate} repeated in the file, ${counts.invalid} invalid`);
+
+  for (const { row, email, reason, message } of plan.skipped.slice(0, REPORT_SAMPLE_SIZE)) {
+    console.log(`   ⏭️  Row ${row} (${email || 'no email'}): ${reason}${message ? ` - ${message}` : ''}`);
+  }
+  if (plan.skipped.length > REPORT_SAMPLE_SIZE) {
+    console.log(`   ...and ${plan.skipped.length - REPORT_SAMPLE_SIZE} more skipped`);
+  }
+
+  if (!values.apply) {
+    if (plan.create.length > 0) {
+      console.log('\nRe-run with --apply to write these subscribers.');
+    }
+    process.exit(0);
+  }
+
+  const written = await applyImport(db, plan);
+  console.log(`\n✅ Imported ${written} subscribers`);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,75 @@
+import { initializeApp, cert, getApps } from 'firebase-admin/app';
+import { getFirestore } from 'firebase-admin/firestore';
+import * as dotenv from 'dotenv';
+import { chunk } from '@/lib/batch-send';
+import { rebuildAnalytics } from '@/lib/analytics';
+
+dotenv.config({ path: '.env.local' });
+
+// Initialize Firebase
+if (!getApps().length) {
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY
+    ? JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY)
+    : null;
+
+  if (!serviceAccount) {
+    console.error('❌ Firebase service account not found');
+    process.exit(1);
+  }
+
+  initializeApp({
+    credential: cert(serviceAccount),
+    projectId: process.env.FIREBASE_PROJECT_ID,
+  });
+}
+
+const db = getFirestore();
+
+// Firestore batches are capped at 500 writes
+const WRITE_BATCH_SIZE = 500;
+
+/**
+ * Recomputes the analytics counters from every subscriber's history and
+ * replaces the stored ones. Needed once to backfill subscribers from before
+ * counting began. Signups that arrive while it runs can be lost, so run it at
+ * a quiet time. Runs as a dry run unless `--apply` is passed.
+ */
+async function main() {
+  const apply = process.argv.includes('--apply');
+  console.log(`🚀 Rebuild Analytics${apply ? '' : ' (dry run)'}\n`);
+
+  const snapshot = await db
+    .collection('email_subscribers')
+    .select('source', 'referredBy', 'referralCredited', 'subscribedAt', 'confirmedAt', 'unsubscribedAt', 'history')
+    .get();
+  const { days, totals } = rebuildAnalytics(snapshot.docs.map(doc => doc.data()));
+
+  console.log(`📊 ${snapshot.size} subscribers across ${days.size} days`);
+  console.log(`   ${totals.signups} signups (${totals.referredSignups} referred), ${totals.confirmations} confirmations, ${totals.unsubscribes} unsubscribes`);
+
+  if (!apply) {
+    console.log('\nRe-run with --apply to replace the stored counters.');
+    process.exit(0);
+  }
+
+  const existing = await db.collection('analytics_daily').select().get();
+  for (const group of chunk(existing.docs, WRITE_BATCH_SIZE)) {
+    const batch = db.batch();
+    for (const doc of group) batch.delete(doc.ref);
+    await batch.commit();
+  }
+
+  for (const group of chunk([...days], WRITE_BATCH_SIZE)) {
+    const batch = db.batch();
+    for (const [date, counters] of group) {
+      batch.set(db.collection('analytics_daily').doc(date), { date, ...counters });
+    }
+    await batch.commit();
+  }
+  await db.collection('analytics').doc('totals').set(totals);
+
+  console.log(`\n✅ Replaced ${existing.size} daily documents with ${days.size}`);
+  process.exit(0);
+}
+
+main().catch(console.error);
@@ -1,152 +1,152 @@
 import { initializeApp, cert, getApps } from 'firebase-admin/app';
 import { getFirestore } from 'firebase-admin/firestore';
-import { Resend } from 'resend';
 import * as dotenv from 'dotenv';
 import * as readline from 'readline';
+import { randomUUID } from 'crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { z } from 'zod';
+import { getUnsubscribeHeaders, getUnsubscribeUrl } from '@/lib/email';
+import { isValidTagValue } from '@/lib/email-events';
+import { getEmailTransport } from '@/lib/email-transport';
+import { getSiteUrl } from '@/lib/site';
+import { composeBroadcastEmail, parseBroadcast, type Broadcast } from '@/lib/broadcast';
+import {
+  createCampaign,
+  deliverCampaign,
+  getCampaign,
+  getCampaignStats,
+  scheduleCampaign,
+  type CampaignStats,
+} from '@/lib/campaigns';
+import { getSendLimits, sendBatches } from '@/lib/batch-send';
+import { findSegmentMembers, parseSegment, type Segment, type SegmentMember } from '@/lib/segments';
 
 dotenv.config({ path: '.env.local' });
 
-// Initialize Firebase
-if (!getApps().length) {
-  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY
-    ? JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY)
-    : null;
+// Firebase is only initialized when subscribers are needed, so previews and
+// test sends work without a service account
+function getDb() {
+  if (!getApps().length) {
+    const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT_KEY
+      ? JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_KEY)
+      : null;
+
+    if (!serviceAccount) {
+      console.error('❌ Firebase service account not found');
+      process.exit(1);
+    }
 
-  if (!serviceAccount) {
-    console.error('❌ Firebase service account not found');
-    process.exit(1);
+    initializeApp({
+      credential: cert(serviceAccount),
+      projectId: process.env.FIREBASE_PROJECT_ID,
+    });
   }
 
-  initializeApp({
-    credential: cert(serviceAccount),
-    projectId: process.env.FIREBASE_PROJECT_ID,
-  });
+  return getFirestore();
 }
 
-const db = getFirestore();
-const resend = new Resend(process.env.RESEND_API_KEY);
+const PREVIEW_DIR = '.broadcast-preview';
 
-interface Subscriber {
-  email: string;
-  status: string;
-}
+const DRY_RUN_SAMPLE_SIZE = 10;
 
-async function getSubscribers(): Promise<Subscriber[]> {
-  const snapshot = await db
-    .collection('email_subscribers')
-    .where('status', '==', 'active')
-    .get();
+function printDryRun(segment: Segment, members: SegmentMember[]) {
+  console.log(`🎯 Segment: ${segment.query}`);
+  console.log(`   Matched: ${members.length} active subscribers\n`);
 
-  return snapshot.docs.map(doc => doc.data() as Subscriber);
+  for (const { email, data } of members.slice(0, DRY_RUN_SAMPLE_SIZE)) {
+    const details = [data.source, data.subscribedAt, ...((data.tags as string[] | undefined) ?? [])].filter(Boolean);
+    console.log(`   ${email}  (${details.join(', ')})`);
+  }
+  if (members.length > DRY_RUN_SAMPLE_SIZE) {
+    console.log(`   ...and ${members.length - DRY_RUN_SAMPLE_SIZE} more`);
+  }
 }
 
-async function sendBroadcast(subject: string, htmlContent: string) {
-  const subscribers = await getSubscribers();
-
-  console.log(`\n📧 Found ${subscribers.length} active subscribers\n`);
-
-  if (subscribers.length === 0) {
-    console.log('No subscribers to send to.');
-    return;
+function printStats(campaignId: string, stats: CampaignStats) {
+  console.log(`📊 Campaign ${campaignId}: ${stats.sent} sent, ${stats.failed} failed, ${stats.skipped} skipped, ${stats.pending + stats.sending} remaining`);
+  if (stats.failed > 0) {
+    console.log('   Rerun with --retry-failed to retry the failures.');
   }
+}
+
+async function sendCampaign(campaignId: string, retryFailed: boolean) {
+  const limits = getSendLimits();
+  const transport = getEmailTransport();
+  console.log(`\n📧 Sending campaign ${campaignId} via ${transport.name} in batches of ${limits.batchSize} (${limits.requestsPerSecond} requests/s, ${limits.concurrency} at a time)\n`);
 
   let sent = 0;
   let failed = 0;
 
-  for (const subscriber of subscribers) {
-    try {
-      await resend.emails.send({
-        from: process.env.RESEND_FROM_EMAIL || 'Orbit <onboarding@resend.dev>',
-        to: subscriber.email,
-        subject,
-        html: htmlContent,
-      });
-      sent++;
-      console.log(`✅ Sent to ${subscriber.email}`);
-    } catch (error) {
-      failed++;
-      console.error(`❌ Failed to send to ${subscriber.email}:`, error);
-    }
+  const stats = await deliverCampaign(getDb(), campaignId, {
+    send: transport.sendBatch,
+    limits,
+    retryFailed,
+    onDelivery: (recipient, status, error) => {
+      if (status === 'sent') {
+        sent++;
+        console.log(`✅ Sent to ${recipient.email}`);
+      } else if (status === 'failed') {
+        failed++;
+        console.error(`❌ Failed to send to ${recipient.email}: ${error}`);
+      } else {
+        console.log(`⏭️  Skipped ${recipient.email} (no longer subscribed)`);
+      }
+    },
+  });
+
+  console.log(`\n📊 This run: ${sent} sent, ${failed} failed`);
+  printStats(campaignId, stats);
+}
 
-    // Rate limiting - Resend free tier is 100 emails/day, 1 email/second
-    await new Promise(resolve => setTimeout(resolve, 1100));
+async function sendTest(broadcast: Broadcast, emails: string[]) {
+  // Test recipients aren't subscribers, so their unsubscribe links point nowhere
+  const unsubscribeUrl = getUnsubscribeUrl('test-recipient');
+  const email = composeBroadcastEmail({ ...broadcast, subject: `[Test] ${broadcast.subject}` }, unsubscribeUrl);
+
+  const batch = {
+    // Every test send is deliberate, so never let Resend drop one as a duplicate
+    idempotencyKey: randomUUID(),
+    emails: emails.map(to => ({ to, ...email, headers: getUnsubscribeHeaders(unsubscribeUrl) })),
+  };
+
+  for (const result of await sendBatches([batch], getEmailTransport().sendBatch, { limits: getSendLimits() })) {
+    if (result.id) {
+      console.log(`✅ Sent to ${result.to}`);
+    } else {
+      console.error(`❌ Failed to send to ${result.to}: ${result.error}`);
+    }
   }
+}
 
-  console.log(`\n📊 Results: ${sent} sent, ${failed} failed`);
+/** Writes the composed email to disk so it can be opened in a browser before sending. */
+function writePreview(file: string, broadcast: Broadcast) {
+  // Placeholder link, so previews don't need the token secret
+  const email = composeBroadcastEmail(broadcast, `${getSiteUrl()}/api/unsubscribe?token=preview`);
+  const name = path.basename(file, path.extname(file));
+
+  mkdirSync(PREVIEW_DIR, { recursive: true });
+  const htmlPath = path.resolve(PREVIEW_DIR, `${name}.html`);
+  const textPath = path.resolve(PREVIEW_DIR, `${name}.txt`);
+  writeFileSync(htmlPath, email.html);
+  writeFileSync(textPath, `Subject: ${email.subject}\n\n${email.text}\n`);
+
+  console.log('👀 Preview written:');
+  console.log(`   HTML: file://${htmlPath}`);
+  console.log(`   Text: ${textPath}`);
 }
 
-function getEmailTemplate(title: string, body: string): string {
-  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://hoopaudio.com';
-
-  return `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${title}</title>
-</head>
-<body style="margin: 0; padding: 0; background-color: #0a0a0a; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
-  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: #0a0a0a;">
-    <tr>
-      <td align="center" style="padding: 40px 20px;">
-        <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="max-width: 600px; background-color: #111111; border-radius: 12px; border: 1px solid #222222;">
-          <tr>
-            <td style="padding: 48px 40px;">
-              <!-- Logo/Header -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
-                <tr>
-                  <td align="center" style="padding-bottom: 32px;">
-                    <img src="${siteUrl}/ORBIT-WIREFRAME-LOGO.png" alt="Orbit" width="64" height="64" style="display: block; margin: 0 auto 16px auto;" />
-                    <h1 style="margin: 0; font-size: 28px; font-weight: 700; color: #ffffff; letter-spacing: -0.5px;">
-                      Orbit
-                    </h1>
-                  </td>
-                </tr>
-              </table>
-
-              <!-- Main Content -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
-                <tr>
-                  <td align="center">
-                    <h2 style="margin: 0 0 16px 0; font-size: 24px; font-weight: 600; color: #ffffff;">
-                      ${title}
-                    </h2>
-                    <div style="margin: 0 0 24px 0; font-size: 16px; line-height: 1.6; color: #a1a1a1; text-align: left;">
-                      ${body}
-                    </div>
-                  </td>
-                </tr>
-              </table>
-
-              <!-- Divider -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
-                <tr>
-                  <td style="padding: 24px 0;">
-                    <div style="height: 1px; background-color: #222222;"></div>
-                  </td>
-                </tr>
-              </table>
-
-              <!-- Footer -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
-                <tr>
-                  <td align="center">
-                    <p style="margin: 0; font-size: 14px; color: #666666;">
-                      You're receiving this because you signed up for Orbit updates.
-                    </p>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-        </table>
-      </td>
-    </tr>
-  </table>
-</body>
-</html>
-  `.trim();
+function parseTestRecipients(value: string): string[] {
+  const emails = value.split(',').map(email => email.trim()).filter(Boolean);
+  const invalid = emails.filter(email => !z.string().email().safeParse(email).success);
+
+  if (emails.length === 0 || invalid.length > 0) {
+    console.error(`❌ Invalid --test-to addresses: ${invalid.join(', ') || '(none given)'}`);
+    process.exit(1);
+  }
+
+  return emails;
 }
 
 async function prompt(question: string): Promise<string> {
@@ -163,44 +163,171 @@ async function prompt(question: string): Promise<string> {
   });
 }
 
+async function confirmSend(question: string, skipConfirmation: boolean) {
+  if (skipConfirmation) {
+    return;
+  }
+
+  // Scripted runs have no one to answer the prompt, so they must opt in explicitly
+  if (!process.stdin.isTTY) {
+    console.error('❌ Not running in a terminal. Pass --yes to send without confirmation.');
+    process.exit(1);
+  }
+
+  const confirm = await prompt(question);
+  if (confirm.toLowerCase() !== 'yes') {
+    console.log('❌ Broadcast cancelled');
+    process.exit(0);
+  }
+}
+
+const USAGE =
+  'Usage: pnpm broadcast <file.md> [--preview | --test-to a@example.com,b@example.com | --dry-run] [--segment <query>] [--send-at <time>] [--campaign <id>] [--retry-failed] [--yes]';
+
+function parseSendAt(value: string): Date {
+  const sendAt = new Date(value);
+  if (Number.isNaN(sendAt.getTime())) {
+    console.error(`❌ Invalid --send-at time "${value}". Use ISO 8601, e.g. 2026-05-01T09:00:00Z`);
+    process.exit(1);
+  }
+  if (sendAt.getTime() <= Date.now()) {
+    console.error(`❌ --send-at ${sendAt.toISOString()} is in the past`);
+    process.exit(1);
+  }
+  return sendAt;
+}
+
 async function main() {
   console.log('🚀 Orbit Broadcast Email Tool\n');
 
-  const subject = await prompt('Email subject: ');
-  const title = await prompt('Email title (header in email): ');
-  console.log('Email body (HTML supported, press Enter twice to finish):');
-
-  const bodyLines: string[] = [];
-  const rl = readline.createInterface({
-    input: process.stdin,
-    output: process.stdout,
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      yes: { type: 'boolean', short: 'y', default: false },
+      preview: { type: 'boolean', default: false },
+      'test-to': { type: 'string' },
+      campaign: { type: 'string' },
+      'retry-failed': { type: 'boolean', default: false },
+      segment: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      'send-at': { type: 'string' },
+    },
   });
 
-  for await (const line of rl) {
-    if (line === '' && bodyLines.length > 0 && bodyLines[bodyLines.length - 1] === '') {
-      break;
-    }
-    bodyLines.push(line);
+  const [file] = positionals;
+  if (!file) {
+    console.error(`❌ No broadcast file given\n${USAGE}`);
+    process.exit(1);
+  }
+
+  let broadcast: Broadcast;
+  try {
+    broadcast = parseBroadcast(readFileSync(file, 'utf8'));
+  } catch (error) {
+    console.error(`❌ Could not read ${file}: ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  let segment: Segment;
+  try {
+    segment = parseSegment(values.segment ?? broadcast.segment);
+  } catch (error) {
+    console.error(`❌ Invalid segment: ${(error as Error).message}`);
+    process.exit(1);
+  }
+  broadcast = { ...broadcast, segment: segment.query };
+  const sendAt = values['send-at'] !== undefined ? parseSendAt(values['send-at']) : undefined;
+
+  if (values.preview) {
+    writePreview(file, broadcast);
+    process.exit(0);
+  }
+
+  const testRecipients = values['test-to'];
+  if (testRecipients !== undefined) {
+    const emails = parseTestRecipients(testRecipients);
+    console.log(`🧪 Test send to ${emails.join(', ')}`);
+    await sendTest(broadcast, emails);
+    process.exit(0);
   }
 
-  const body = bodyLines.slice(0, -1).join('<br>');
-  const html = getEmailTemplate(title, body);
+  if (values['dry-run']) {
+    printDryRun(segment, await findSegmentMembers(getDb(), segment));
+    process.exit(0);
+  }
+
+  // Running the same file again resumes its campaign rather than starting over
+  const campaignId = values.campaign ?? path.basename(file, path.extname(file));
+  const retryFailed = values['retry-failed'];
+  const existing = await getCampaign(getDb(), campaignId);
+
+  if (!existing && !isValidTagValue(campaignId)) {
+    console.error(`❌ Invalid campaign ID "${campaignId}": use only letters, numbers, dashes and underscores, or pass --campaign <id>`);
+    process.exit(1);
+  }
 
-  const subscribers = await getSubscribers();
-  console.log(`\n📋 Preview:`);
-  console.log(`   Subject: ${subject}`);
-  console.log(`   Title: ${title}`);
+  // Scheduled campaigns belong to the cron dispatcher, which would race a local run
+  if (existing?.sendAt) {
+    console.log(`🗓️  Campaign ${campaignId} is scheduled for ${existing.sendAt} (${existing.status}).`);
+    console.log('   It is sent by /api/cron/dispatch; pass --campaign <new-id> to start a separate campaign.');
+    process.exit(0);
+  }
+
+  if (existing?.recipientsRecorded) {
+    const stats = await getCampaignStats(getDb(), campaignId);
+    console.log(`♻️  Campaign ${campaignId} was started at ${existing.createdAt}`);
+    printStats(campaignId, stats);
+    if (existing.subject !== broadcast.subject || existing.html !== broadcast.html) {
+      console.log('⚠️  The file changed since then. Resuming sends the original content;');
+      console.log('   pass --campaign <new-id> to send the edited version as a new campaign.');
+    }
+
+    const outstanding = stats.pending + stats.sending + (retryFailed ? stats.failed : 0);
+    if (outstanding === 0) {
+      console.log('\nNothing left to send.');
+      process.exit(0);
+    }
+
+    await confirmSend(`\nResume and send to ${outstanding} remaining recipients? (yes/no): `, values.yes);
+    await sendCampaign(campaignId, retryFailed);
+    process.exit(0);
+  }
+
+  const subscribers = await findSegmentMembers(getDb(), segment);
+  console.log(`📋 Preview:`);
+  console.log(`   Campaign: ${campaignId}`);
+  console.log(`   Subject: ${broadcast.subject}`);
+  console.log(`   Title: ${broadcast.title}`);
+  if (broadcast.preheader) {
+    console.log(`   Preheader: ${broadcast.preheader}`);
+  }
+  console.log(`   Segment: ${broadcast.segment}`);
   console.log(`   Recipients: ${subscribers.length} subscribers\n`);
 
-  const confirm = await prompt('Send this broadcast? (yes/no): ');
+  if (sendAt) {
+    console.log(`🗓️  The segment is evaluated again at ${sendAt.toISOString()}, so the final count may differ.\n`);
+    await confirmSend(`Schedule this broadcast for ${sendAt.toISOString()}? (yes/no): `, values.yes);
+    // Another run may have created the campaign since the status check above
+    if (!(await scheduleCampaign(getDb(), campaignId, broadcast, sendAt))) {
+      console.error(`❌ Campaign ${campaignId} already exists; run the script again to see its status`);
+      process.exit(1);
+    }
+    console.log(`✅ Scheduled campaign ${campaignId}`);
+    process.exit(0);
+  }
 
-  if (confirm.toLowerCase() === 'yes') {
-    await sendBroadcast(subject, html);
-  } else {
-    console.log('❌ Broadcast cancelled');
+  if (subscribers.length === 0) {
+    console.log('No subscribers to send to.');
+    process.exit(0);
   }
 
+  await confirmSend('Send this broadcast? (yes/no): ', values.yes);
+  await createCampaign(getDb(), campaignId, broadcast, subscribers);
+  await sendCampaign(campaignId, retryFailed);
   process.exit(0);
 }
 
-main().catch(console.error);
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,8 +1,13 @@
 import { initializeApp, cert, getApps } from 'firebase-admin/app';
 import { getFirestore } from 'firebase-admin/firestore';
-import { Resend } from 'resend';
 import * as dotenv from 'dotenv';
 import * as readline from 'readline';
+import { randomUUID } from 'crypto';
+import { chunk, getSendLimits, sendBatches } from '@/lib/batch-send';
+import { getUnsubscribeHeaders, getUnsubscribeUrl } from '@/lib/email';
+import { getEmailTags } from '@/lib/email-events';
+import { getEmailTransport } from '@/lib/email-transport';
+import { renderEmail } from '@/lib/email-templates';
 
 dotenv.config({ path: '.env.local' });
 
@@ -24,81 +29,6 @@ if (!getApps().length) {
 }
 
 const db = getFirestore();
-const resend = new Resend(process.env.RESEND_API_KEY);
-
-function getWelcomeEmailHtml(): string {
-  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://hoopaudio.com';
-
-  return `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Welcome to Orbit</title>
-</head>
-<body style="margin: 0; padding: 0; background-color: #0a0a0a; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
-  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: #0a0a0a;">
-    <tr>
-      <td align="center" style="padding: 40px 20px;">
-        <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="max-width: 600px; background-color: #111111; border-radius: 12px; border: 1px solid #222222;">
-          <tr>
-            <td style="padding: 48px 40px;">
-              <!-- Logo/Header -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
-                <tr>
-                  <td align="center" style="padding-bottom: 32px;">
-                    <img src="${siteUrl}/ORBIT-WIREFRAME-LOGO.png" alt="Orbit" width="64" height="64" style="display: block; margin: 0 auto 16px auto;" />
-                    <h1 style="margin: 0; font-size: 28px; font-weight: 700; color: #ffffff; letter-spacing: -0.5px;">
-                      Orbit
-                    </h1>
-                  </td>
-                </tr>
-              </table>
-
-              <!-- Main Content -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
-                <tr>
-                  <td align="center">
-                    <h2 style="margin: 0 0 16px 0; font-size: 24px; font-weight: 600; color: #ffffff;">
-                      You're on the list!
-                    </h2>
-                    <p style="margin: 0 0 24px 0; font-size: 16px; line-height: 1.6; color: #a1a1a1;">
-                      Thanks for signing up. We'll keep you updated on our progress and let you know when we launch.
-                    </p>
-                  </td>
-                </tr>
-              </table>
-
-              <!-- Divider -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
-                <tr>
-                  <td style="padding: 24px 0;">
-                    <div style="height: 1px; background-color: #222222;"></div>
-                  </td>
-                </tr>
-              </table>
-
-              <!-- Footer -->
-              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
-                <tr>
-                  <td align="center">
-                    <p style="margin: 0; font-size: 14px; color: #666666;">
-                      Stay tuned for updates.
-                    </p>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-        </table>
-      </td>
-    </tr>
-  </table>
-</body>
-</html>
-  `.trim();
-}
 
 async function main() {
   console.log('🚀 Send Welcome Email to All Subscribers\n');
@@ -108,7 +38,7 @@ async function main() {
     .where('status', '==', 'active')
     .get();
 
-  const subscribers = snapshot.docs.map(doc => doc.data().email as string);
+  const subscribers = snapshot.docs.map(doc => ({ id: doc.id, email: doc.data().email as string }));
 
   console.log(`📧 Found ${subscribers.length} active subscribers\n`);
 
@@ -132,28 +62,38 @@ async function main() {
     process.exit(0);
   }
 
+  const limits = getSendLimits();
+  const emails = subscribers.map(({ id, email }) => {
+    const unsubscribeUrl = getUnsubscribeUrl(id);
+    const { subject, html, text } = renderEmail('welcome', { unsubscribeUrl });
+    return {
+      to: email,
+      subject,
+      html,
+      text,
+      headers: getUnsubscribeHeaders(unsubscribeUrl),
+      tags: getEmailTags({ subscriberId: id }),
+    };
+  });
+  const batches = chunk(emails, limits.batchSize).map(group => ({ idempotencyKey: randomUUID(), emails: group }));
+
   let sent = 0;
   let failed = 0;
-  const html = getWelcomeEmailHtml();
-
-  for (const email of subscribers) {
-    try {
-      await resend.emails.send({
-        from: process.env.RESEND_FROM_EMAIL || 'Orbit <onboarding@resend.dev>',
-        to: email,
-        subject: 'Welcome to Orbit!',
-        html,
-      });
-      sent++;
-      console.log(`✅ Sent to ${email}`);
-    } catch (error) {
-      failed++;
-      console.error(`❌ Failed: ${email}`, error);
-    }
-
-    // Rate limiting
-    await new Promise(resolve => setTimeout(resolve, 1100));
-  }
+
+  await sendBatches(batches, getEmailTransport().sendBatch, {
+    limits,
+    onBatch: (_, results) => {
+      for (const { to, id, error } of results) {
+        if (id) {
+          sent++;
+          console.log(`✅ Sent to ${to}`);
+        } else {
+          failed++;
+          console.error(`❌ Failed: ${to}`, error);
+        }
+      }
+    },
+  });
 
   console.log(`\n📊 Done: ${sent} sent, ${failed} failed`);
   process.exit(0);